@@ -4,11 +4,24 @@
 
 import express, { Request, Response } from 'express';
 import { db } from '../storage';
-import { taskService } from '../services/tasks';
-import { pomodoroService } from '../services/pomodoro';
-import { podService } from '../services/pods';
+import {
+  taskService,
+  TaskEstimateError,
+  TaskRecurrenceError,
+  TaskPriorityError,
+  TaskSearchError,
+  TaskUpdateError
+} from '../services/tasks';
+import {
+  pomodoroService,
+  SessionPauseError,
+  SessionDurationError,
+  SessionExtensionError
+} from '../services/pomodoro';
+import { podService, PodNotFoundError, PodTransitionError } from '../services/pods';
 import { gamificationService } from '../services/gamification';
-import { TaskAction } from '../types';
+import { notificationService, NotificationSettingsError } from '../services/notifications';
+import { SessionKind, TaskAction } from '../types';
 
 const app = express();
 
@@ -46,6 +59,28 @@ app.get('/api/user/:userId', async (req: Request, res: Response) => {
   }
 });
 
+// Включить или выключить режим разработчика (тестовые сессии в песочнице)
+app.patch('/api/user/:userId/dev-mode', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { enabled } = req.body;
+
+    if (typeof enabled !== 'boolean') {
+      return res.status(400).json({ error: 'enabled must be a boolean' });
+    }
+
+    const user = await db.updateUser(userId, { devMode: enabled });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json({ devMode: user.devMode });
+  } catch (error: any) {
+    console.error('Error updating dev mode:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // === TASK ENDPOINTS ===
 
 // Получить все задачи пользователя
@@ -53,8 +88,13 @@ app.get('/api/tasks/:userId', async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
     const includeCompleted = req.query.completed === 'true';
+    // ?tag=работа — по тегу, ?project=<id> — по проекту
+    const filter = {
+      tag: req.query.tag ? String(req.query.tag) : undefined,
+      projectId: req.query.project ? String(req.query.project) : undefined
+    };
     
-    const tasks = await taskService.getUserTasks(userId, includeCompleted);
+    const tasks = await taskService.getUserTasks(userId, includeCompleted, true, filter);
     
     res.json({ tasks });
   } catch (error: any) {
@@ -66,22 +106,93 @@ app.get('/api/tasks/:userId', async (req: Request, res: Response) => {
 // Создать задачу
 app.post('/api/tasks', async (req: Request, res: Response) => {
   try {
-    const { userId, title, deadline } = req.body;
+    const { userId, title, deadline, estimate, recurrence, priority, project, tags } = req.body;
     
     if (!userId || !title) {
       return res.status(400).json({ error: 'userId and title are required' });
     }
 
     const deadlineDate = deadline ? new Date(deadline) : undefined;
-    const task = await taskService.createTask(userId, title, deadlineDate);
+    const task = await taskService.createTask(
+      userId,
+      title,
+      deadlineDate,
+      estimate ?? undefined,
+      recurrence ?? undefined,
+      priority ?? undefined,
+      { project: project ?? undefined, tags: Array.isArray(tags) ? tags.map(String) : undefined }
+    );
     
     res.status(201).json({ task });
   } catch (error: any) {
+    if (error instanceof TaskEstimateError || error instanceof TaskRecurrenceError ||
+      error instanceof TaskPriorityError || error instanceof TaskUpdateError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Error creating task:', error);
     res.status(500).json({ error: error.message });
   }
 });
 
+// Точность оценок: выполненные задачи с оценкой против фактических сессий
+app.get('/api/tasks/:userId/estimates', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const accuracy = await taskService.getEstimateAccuracy(userId);
+
+    res.json({ accuracy });
+  } catch (error: any) {
+    console.error('Error fetching estimate accuracy:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Матрица Эйзенхауэра: активные задачи по квадрантам
+app.get('/api/tasks/:userId/matrix', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const matrix = await taskService.getTaskMatrix(userId);
+
+    res.json({ matrix, urgentHours: taskService.urgentHours });
+  } catch (error: any) {
+    console.error('Error fetching task matrix:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Поиск задач по названию (?q=), включая выполненные и подзадачи
+app.get('/api/tasks/:userId/search', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const tasks = await taskService.searchTasks(userId, String(req.query.q || ''));
+
+    res.json({ tasks });
+  } catch (error: any) {
+    if (error instanceof TaskSearchError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error searching tasks:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Задача с деревом подзадач любой глубины и прогрессом на каждом уровне
+app.get('/api/tasks/:taskId/tree', async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const task = await taskService.getTaskTree(taskId);
+
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    res.json({ task });
+  } catch (error: any) {
+    console.error('Error fetching task tree:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Обновить задачу
 app.patch('/api/tasks/:taskId', async (req: Request, res: Response) => {
   try {
@@ -91,15 +202,34 @@ app.patch('/api/tasks/:taskId', async (req: Request, res: Response) => {
     let task;
 
     if (action === 'complete') {
-      task = await taskService.completeTask(taskId);
+      const result = await taskService.completeTask(taskId);
+      if (!result) {
+        return res.status(404).json({ error: 'Task not found' });
+      }
+      // reward — FocusCoins за задачу, next — следующее вхождение повторяющейся задачи,
+      // completedParents — родители, закрытые вместе с последней подзадачей
+      return res.json({
+        task: result.task,
+        reward: result.reward,
+        next: result.next,
+        completedParents: result.completedParents
+      });
+    } else if (action === 'repeat') {
+      task = await taskService.setRecurrence(taskId, updates.recurrence);
+    } else if (action === 'stop_repeat') {
+      task = await taskService.stopRecurrence(taskId);
     } else if (action === 'split') {
       const subtasks = await taskService.splitTask(taskId);
       return res.json({ task: await taskService.getTask(taskId), subtasks });
     } else if (action === 'postpone') {
-      const hours = updates.hours || 24;
+      // Без hours — на сутки; иначе положительное число, проверяет postponeTask
+      const hours = updates.hours ?? 24;
       task = await taskService.postponeTask(taskId, hours);
+    } else if (action !== undefined) {
+      return res.status(400).json({ error: `Unknown action: ${action}` });
     } else {
-      task = await taskService.updateTask(taskId, updates);
+      // Только разрешённые поля с проверкой значений: title, deadline, estimate, priority, recurrence, project, tags
+      task = await taskService.updateTask(taskId, taskService.parseTaskUpdates(updates));
     }
 
     if (!task) {
@@ -108,6 +238,10 @@ app.patch('/api/tasks/:taskId', async (req: Request, res: Response) => {
 
     res.json({ task });
   } catch (error: any) {
+    if (error instanceof TaskEstimateError || error instanceof TaskRecurrenceError ||
+      error instanceof TaskPriorityError || error instanceof TaskUpdateError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Error updating task:', error);
     res.status(500).json({ error: error.message });
   }
@@ -135,7 +269,7 @@ app.delete('/api/tasks/:taskId', async (req: Request, res: Response) => {
 // Начать Pomodoro сессию
 app.post('/api/pomodoro/start', async (req: Request, res: Response) => {
   try {
-    const { userId, duration, podId } = req.body;
+    const { userId, duration, podId, taskId } = req.body;
     
     if (!userId) {
       return res.status(400).json({ error: 'userId is required' });
@@ -143,17 +277,43 @@ app.post('/api/pomodoro/start', async (req: Request, res: Response) => {
 
     const session = await pomodoroService.startSession(
       userId, 
-      duration || 25, 
-      podId
+      duration ?? 25, 
+      podId,
+      SessionKind.FOCUS,
+      taskId
     );
     
     res.status(201).json({ session });
   } catch (error: any) {
+    if (error instanceof SessionDurationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error.message === 'Task not found') {
+      return res.status(404).json({ error: error.message });
+    }
     console.error('Error starting session:', error);
     res.status(500).json({ error: error.message });
   }
 });
 
+// Начать перерыв (короткий или длинный — по числу фокус-блоков)
+app.post('/api/pomodoro/break', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.body;
+
+    if (!userId) {
+      return res.status(400).json({ error: 'userId is required' });
+    }
+
+    const session = await pomodoroService.startBreak(userId);
+
+    res.status(201).json({ session });
+  } catch (error: any) {
+    console.error('Error starting break:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Завершить Pomodoro сессию
 app.post('/api/pomodoro/:sessionId/complete', async (req: Request, res: Response) => {
   try {
@@ -172,6 +332,59 @@ app.post('/api/pomodoro/:sessionId/complete', async (req: Request, res: Response
   }
 });
 
+// Поставить Pomodoro сессию на паузу
+app.post('/api/pomodoro/:sessionId/pause', async (req: Request, res: Response) => {
+  try {
+    const session = await pomodoroService.pauseSession(req.params.sessionId);
+    res.json(session);
+  } catch (error: any) {
+    if (error instanceof SessionPauseError) {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error.message === 'Session not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Error pausing session:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Продолжить Pomodoro сессию после паузы
+app.post('/api/pomodoro/:sessionId/resume', async (req: Request, res: Response) => {
+  try {
+    const session = await pomodoroService.resumeSession(req.params.sessionId);
+    res.json(session);
+  } catch (error: any) {
+    if (error instanceof SessionPauseError) {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error.message === 'Session not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Error resuming session:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Продлить Pomodoro сессию на 5, 10 или 15 минут
+app.post('/api/pomodoro/:sessionId/extend', async (req: Request, res: Response) => {
+  try {
+    const { minutes } = req.body;
+
+    const session = await pomodoroService.extendSession(req.params.sessionId, Number(minutes));
+    res.json(session);
+  } catch (error: any) {
+    if (error instanceof SessionExtensionError) {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error.message === 'Session not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Error extending session:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Получить активную сессию
 app.get('/api/pomodoro/active/:userId', async (req: Request, res: Response) => {
   try {
@@ -262,6 +475,12 @@ app.post('/api/pods/:podId/start', async (req: Request, res: Response) => {
     
     res.json({ pod });
   } catch (error: any) {
+    if (error instanceof PodNotFoundError) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error instanceof PodTransitionError) {
+      return res.status(409).json({ error: error.message });
+    }
     console.error('Error starting pod:', error);
     res.status(500).json({ error: error.message });
   }
@@ -327,14 +546,89 @@ app.get('/api/stats/:userId', async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
     const stats = await gamificationService.getUserGameStats(userId);
+    const projects = await taskService.getProjectStats(userId);
     
-    res.json({ stats });
+    res.json({ stats, projects });
   } catch (error: any) {
     console.error('Error fetching stats:', error);
     res.status(500).json({ error: error.message });
   }
 });
 
+// === COIN ENDPOINTS ===
+
+// Получить историю FocusCoins
+app.get('/api/coins/:userId/history', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const limit = Math.min(parseInt(String(req.query.limit || '50'), 10) || 50, 200);
+
+    const user = await db.getUser(userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const history = await gamificationService.getCoinHistory(userId, limit);
+
+    res.json(history);
+  } catch (error: any) {
+    console.error('Error fetching coin history:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// === NOTIFICATION ENDPOINTS ===
+
+// Получить настройки уведомлений
+app.get('/api/notifications/:userId/settings', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+
+    const user = await db.getUser(userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const settings = await notificationService.getSettings(userId);
+
+    res.json(settings);
+  } catch (error: any) {
+    console.error('Error fetching notification settings:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Изменить настройки уведомлений
+app.patch('/api/notifications/:userId/settings', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { muted, disabledTypes, dailyReminderTime, streakWarningTime, weeklyStatsTime, quietHoursStart, quietHoursEnd } = req.body;
+
+    const user = await db.getUser(userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const settings = await notificationService.updateSettings(userId, {
+      muted,
+      disabledTypes,
+      dailyReminderTime,
+      streakWarningTime,
+      weeklyStatsTime,
+      quietHoursStart,
+      quietHoursEnd
+    });
+
+    res.json(settings);
+  } catch (error: any) {
+    if (error instanceof NotificationSettingsError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error updating notification settings:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // === HEALTH CHECK ===
 
 app.get('/health', (req: Request, res: Response) => {
@@ -7,4 +7,4 @@ export * from './tasks';
 export * from './pomodoro';
 export * from './pods';
 export * from './profile';
-
+export * from './settings';
@@ -4,7 +4,7 @@
 
 import { Context } from '@maxhub/max-bot-api';
 import { db } from '../../storage';
-import { podService } from '../../services/pods';
+import { podService, PodTransitionError } from '../../services/pods';
 import { pomodoroService } from '../../services/pomodoro';
 import { PodStatus, User } from '../../types';
 import { messages } from '../messages';
@@ -228,27 +228,12 @@ export async function handlePodStart(ctx: Context, podId: string): Promise<void>
       }
     });
 
-    // Устанавливаем таймер на завершение
-    setTimeout(async () => {
-      await handlePodTimeout(podId);
-    }, pod.duration * 60 * 1000);
-
   } catch (error: any) {
     console.error('Error in handlePodStart:', error);
-    await ctx.answerOnCallback({
-      notification: error.message || messages.error
-    });
-  }
-}
-
-async function handlePodTimeout(podId: string): Promise<void> {
-  try {
-    const pod = await podService.completePod(podId);
-    
-    // Уведомления отправляются через notificationService
-    console.log(`Pod ${podId} completed`);
-  } catch (error) {
-    console.error('Error in handlePodTimeout:', error);
+    const notification = error instanceof PodTransitionError
+      ? 'Pod уже запущен, завершён или отменён'
+      : error.message || messages.error;
+    await ctx.answerOnCallback({ notification });
   }
 }
 
@@ -538,7 +523,7 @@ async function ensureNoActivePomodoroSession(
     `Осталось: *${timeLeft}*\n\n` +
     `Сначала заверши или отменяй Pomodoro, чтобы не смешивать режимы.`;
 
-  await replyWithMarkdown(ctx, message, [getPomodoroKeyboard(session.id)], preferCallback);
+  await replyWithMarkdown(ctx, message, [getPomodoroKeyboard(session.id, info?.paused)], preferCallback);
   return true;
 }
 
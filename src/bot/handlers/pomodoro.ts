@@ -4,19 +4,37 @@
 
 import { Context } from '@maxhub/max-bot-api';
 import { db } from '../../storage';
-import { pomodoroService } from '../../services/pomodoro';
+import {
+  pomodoroService,
+  TEST_DURATIONS,
+  SessionPauseError,
+  SessionDurationError,
+  SessionExtensionError
+} from '../../services/pomodoro';
 import { podService } from '../../services/pods';
-import { PodStatus, TaskAction } from '../../types';
+import { rewardPolicy, RewardReason } from '../../services/rewardPolicy';
+import { taskService, TaskUpdateError } from '../../services/tasks';
+import { NotificationType, PodStatus, SessionKind, Task, TaskAction, User } from '../../types';
+import { notificationService } from '../../services/notifications';
+import { formatLocalTime, formatLocalDateTime, DEFAULT_TIMEZONE } from '../../utils/timezone';
+import { parseDuration, formatDuration } from '../../utils/duration';
 import { messages } from '../messages';
 import { 
   getPomodoroKeyboard, 
   getPomodoroCompleteKeyboard,
   getBackToMenuKeyboard,
   getPodControlKeyboard,
-  getFocusDurationKeyboard
+  getFocusDurationKeyboard,
+  getBreakKeyboard,
+  getBreakOfferKeyboard,
+  getFocusTaskKeyboard,
+  getTaskSplitCountKeyboard
 } from '../keyboards';
 
-export async function handleFocusDurationSelect(ctx: Context): Promise<void> {
+/**
+ * Выбор длительности фокуса; с taskId — фокус на конкретной задаче
+ */
+export async function handleFocusDurationSelect(ctx: Context, taskId?: string): Promise<void> {
   try {
     const userId = ctx.user?.user_id || ctx.callback?.user?.user_id;
     if (!userId) {
@@ -68,8 +86,16 @@ export async function handleFocusDurationSelect(ctx: Context): Promise<void> {
       return;
     }
 
-    const text = `⏱️ *Выбери длительность фокуса*\n\nСколько минут будешь работать без отвлечений?`;
-    const keyboard = getFocusDurationKeyboard();
+    let task: Task | undefined;
+    if (taskId) {
+      task = await getOwnActiveTask(ctx, user, taskId);
+      if (!task) return;
+    }
+
+    const text = task
+      ? messages.focusTaskTitle(task.title)
+      : `⏱️ *Выбери длительность фокуса*\n\nСколько минут будешь работать без отвлечений?`;
+    const keyboard = getFocusDurationKeyboard(user.recentDurations, task?.id, pomodoroService.isDevMode(user));
 
     if (ctx.callback) {
       await ctx.answerOnCallback({
@@ -88,7 +114,119 @@ export async function handleFocusDurationSelect(ctx: Context): Promise<void> {
   }
 }
 
-export async function handleFocusStart(ctx: Context, duration: number): Promise<void> {
+/**
+ * Длительность выбрана без задачи: предлагаем привязать фокус к одной из активных задач
+ */
+export async function handleFocusTaskSelect(ctx: Context, duration: number): Promise<void> {
+  try {
+    const userId = ctx.user?.user_id || ctx.callback?.user?.user_id || ctx.message?.sender?.user_id;
+    if (!userId) return;
+
+    const user = await db.getUserByMaxId(String(userId));
+    if (!user) return;
+
+    // Тестовую сессию к задаче не привязать — запускаем сразу
+    const tasks = await taskService.getUserTasks(user.id);
+    if (tasks.length === 0 || TEST_DURATIONS.includes(duration)) {
+      await handleFocusStart(ctx, duration);
+      return;
+    }
+
+    const text = messages.focusTaskPrompt(formatDuration(duration));
+    const keyboard = getFocusTaskKeyboard(duration, tasks);
+
+    if (ctx.callback) {
+      await ctx.answerOnCallback({
+        message: { text, attachments: [keyboard], format: 'markdown' }
+      });
+    } else {
+      await ctx.reply(text, { attachments: [keyboard], format: 'markdown' });
+    }
+  } catch (error) {
+    console.error('Error in handleFocusTaskSelect:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+export async function handleFocusCustom(ctx: Context, taskId?: string): Promise<void> {
+  try {
+    const userId = ctx.user?.user_id || ctx.callback?.user?.user_id;
+    if (!userId) {
+      await ctx.answerOnCallback({ notification: 'Не удалось определить пользователя' });
+      return;
+    }
+
+    const user = await db.getUserByMaxId(String(userId));
+    if (!user) {
+      await ctx.answerOnCallback({ notification: 'Пользователь не найден. Отправьте /start' });
+      return;
+    }
+
+    await db.setBotState({
+      userId: user.id,
+      chatId: String(ctx.chatId || userId),
+      state: 'awaiting_focus_duration',
+      data: taskId ? { taskId } : {},
+      updatedAt: new Date()
+    });
+
+    await ctx.answerOnCallback({
+      message: {
+        text: messages.focusCustomPrompt(pomodoroService.minFocusMinutes, pomodoroService.maxFocusMinutes),
+        attachments: [getBackToMenuKeyboard()],
+        format: 'markdown'
+      }
+    });
+  } catch (error) {
+    console.error('Error in handleFocusCustom:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+export async function handleFocusDurationInput(ctx: Context, text: string): Promise<void> {
+  try {
+    const userId = ctx.message?.sender?.user_id;
+    if (!userId) return;
+
+    const user = await db.getUserByMaxId(String(userId));
+    if (!user) return;
+
+    const duration = parseDuration(text);
+    if (duration === undefined) {
+      await ctx.reply(messages.focusDurationInvalid, { format: 'markdown' });
+      return;
+    }
+
+    try {
+      pomodoroService.validateDuration(duration, pomodoroService.isDevMode(user));
+    } catch (error) {
+      if (error instanceof SessionDurationError) {
+        await ctx.reply(`⚠️ ${error.message}`);
+        return;
+      }
+      throw error;
+    }
+
+    const botState = await db.getBotState(user.id);
+    const taskId: string | undefined = botState?.data?.taskId;
+
+    await db.clearBotState(user.id);
+    if (!TEST_DURATIONS.includes(duration)) {
+      await pomodoroService.rememberCustomDuration(user.id, duration);
+    }
+
+    if (taskId) {
+      await handleFocusStart(ctx, duration, taskId);
+    } else {
+      await handleFocusTaskSelect(ctx, duration);
+    }
+  } catch (error) {
+    console.error('Error in handleFocusDurationInput:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+export async function handleFocusStart(ctx: Context, duration: number, taskId?: string): Promise<void> {
   try {
     const userId = ctx.user?.user_id || ctx.callback?.user?.user_id;
     if (!userId) {
@@ -166,15 +304,18 @@ export async function handleFocusStart(ctx: Context, duration: number): Promise<
       return;
     }
 
-    const session = await pomodoroService.startSession(user.id, duration);
+    const session = await pomodoroService.startSession(user.id, duration, undefined, SessionKind.FOCUS, taskId);
+    const task = session.taskId ? await taskService.getTask(session.taskId) : undefined;
 
-    const endTime = new Date(Date.now() + duration * 60 * 1000);
+    const endTime = pomodoroService.getSessionEndTime(session);
     const startMessage = `⏱️ *Фокус-сессия запущена!*\n\n` +
-      `Длительность: *${duration} минут*\n` +
-      `Начало: ${new Date().toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })}\n` +
-      `Окончание: ${endTime.toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })}\n\n` +
+      (task ? `Задача: *${task.title}*\n` : '') +
+      `Длительность: *${formatDuration(duration)}*\n` +
+      `Начало: ${formatLocalTime(session.startTime, user.timezone)}\n` +
+      `Окончание: ${formatLocalTime(endTime, user.timezone)}\n\n` +
       `Выключи отвлечения и сосредоточься! 💪\n\n` +
-      `Напоминание придёт, когда время выйдет.`;
+      `Напоминание придёт, когда время выйдет.` +
+      (session.sandbox ? messages.sandboxSessionNote : '');
 
     const replyOptions = {
       attachments: [getPomodoroKeyboard(session.id)],
@@ -189,14 +330,6 @@ export async function handleFocusStart(ctx: Context, duration: number): Promise<
       await ctx.reply(startMessage, replyOptions);
     }
 
-    const timeoutId = setTimeout(async () => {
-      await handlePomodoroTimeout(maxUserId, session.id);
-    }, duration * 60 * 1000);
-
-    // Сохраняем таймер для возможности отмены
-    (global as any).pomodoroTimers = (global as any).pomodoroTimers || new Map();
-    (global as any).pomodoroTimers.set(session.id, timeoutId);
-
   } catch (error: any) {
     console.error('Error in handleFocus25:', error);
     console.error('Error stack:', error.stack);
@@ -215,31 +348,50 @@ export async function handleFocusStart(ctx: Context, duration: number): Promise<
   }
 }
 
-async function handlePomodoroTimeout(maxUserId: string, sessionId: string): Promise<void> {
+/**
+ * Срабатывает по задаче планировщика, когда время сессии вышло
+ */
+export async function handlePomodoroTimeout(sessionId: string): Promise<void> {
   try {
     console.log('Pomodoro timeout triggered for session:', sessionId);
-    
-    const user = await db.getUserByMaxId(maxUserId);
-    if (!user) {
-      console.log('User not found for timeout:', maxUserId);
+
+    const session = await pomodoroService.getSessionInfo(sessionId);
+    if (!session || session.session.completed || session.session.endTime) {
+      console.log('Session not found or already finished:', sessionId);
       return;
     }
 
-    const session = await pomodoroService.getSessionInfo(sessionId);
-    if (!session || session.session.completed) {
-      console.log('Session not found or already completed:', sessionId);
+    // На паузе таймер окончания снят; сюда можно попасть только из-за гонки
+    if (session.paused) {
+      console.log('Session is paused, timeout ignored:', sessionId);
       return;
     }
 
-    // НЕ завершаем сессию автоматически, только отправляем сообщение
-    // Пользователь сам выберет действие (Выполнил, Распилил и т.д.)
+    const user = await db.getUser(session.session.userId);
+    if (!user) {
+      console.log('User not found for timeout:', session.session.userId);
+      return;
+    }
+    const maxUserId = user.maxUserId;
+
     const bot = (global as any).bot;
     if (!bot) {
-      console.error('Bot not initialized in global scope!');
+      throw new Error('Bot not initialized in global scope');
+    }
+
+    // Перерыв закрываем сами и зовём обратно в фокус
+    if (session.session.kind !== SessionKind.FOCUS) {
+      await pomodoroService.completeSession(sessionId);
+      await bot.api.sendMessageToUser(parseInt(maxUserId), messages.breakFinished, {
+        attachments: [getFocusDurationKeyboard(user.recentDurations, undefined, pomodoroService.isDevMode(user))],
+        format: 'markdown'
+      });
       return;
     }
 
-    const duration = session.session.duration;
+    // Фокус-сессию НЕ завершаем автоматически, только отправляем сообщение
+    // Пользователь сам выберет действие (Выполнил, Распилил и т.д.)
+    const duration = pomodoroService.getTotalDuration(session.session);
     const completeMessage = `🎉 *Фокус-сессия завершена!*\n\n` +
       `Поздравляем! Ты продержался все ${duration} минут! 💪\n\n` +
       `Что ты сделал за это время?`;
@@ -258,19 +410,196 @@ async function handlePomodoroTimeout(maxUserId: string, sessionId: string): Prom
     console.log('Completion message sent successfully');
   } catch (error) {
     console.error('Error in handlePomodoroTimeout:', error);
+    // Планировщик повторит задачу: сессия к тому времени могла завершиться — это проверяется выше
+    throw error;
   }
 }
 
-export async function handleSessionCancel(ctx: Context, sessionId: string): Promise<void> {
+/**
+ * Срабатывает по задаче планировщика, когда исчерпан лимит паузы
+ */
+export async function handlePomodoroAutoResume(sessionId: string): Promise<void> {
   try {
-    // Очищаем таймеры
-    const timers = (global as any).pomodoroTimers;
-    if (timers && timers.has(sessionId)) {
-      clearTimeout(timers.get(sessionId));
-      timers.delete(sessionId);
+    let session;
+    try {
+      session = await pomodoroService.resumeSession(sessionId);
+    } catch (error) {
+      // Пользователь успел продолжить или завершить сессию сам
+      if (error instanceof SessionPauseError) return;
+      throw error;
     }
 
-    await pomodoroService.cancelSession(sessionId);
+    const user = await db.getUser(session.userId);
+    const info = await pomodoroService.getSessionInfo(sessionId);
+    const bot = (global as any).bot;
+    if (!user || !info || !bot) return;
+
+    const timeLeft = pomodoroService.formatRemainingTime(info.remainingMinutes, info.remainingSeconds);
+    const finishTime = formatLocalTime(pomodoroService.getSessionEndTime(session), user.timezone);
+
+    await bot.api.sendMessageToUser(
+      parseInt(user.maxUserId),
+      messages.sessionAutoResumed(pomodoroService.maxPauseMinutes, timeLeft, finishTime),
+      {
+        attachments: [getPomodoroKeyboard(sessionId)],
+        format: 'markdown'
+      }
+    );
+  } catch (error) {
+    console.error('Error in handlePomodoroAutoResume:', error);
+    throw error;
+  }
+}
+
+export async function handleSessionPause(ctx: Context, sessionId: string): Promise<void> {
+  try {
+    const session = await pomodoroService.pauseSession(sessionId);
+    const info = await pomodoroService.getSessionInfo(sessionId);
+    if (!info) return;
+
+    const timeLeft = pomodoroService.formatRemainingTime(info.remainingMinutes, info.remainingSeconds);
+    const pauseLeftMinutes = Math.ceil(pomodoroService.getPauseLeftMs(session) / 60000);
+
+    await ctx.answerOnCallback({
+      message: {
+        text: messages.sessionPaused(timeLeft, pauseLeftMinutes),
+        attachments: [getPomodoroKeyboard(sessionId, true)],
+        format: 'markdown'
+      }
+    });
+  } catch (error) {
+    if (error instanceof SessionPauseError) {
+      await ctx.answerOnCallback({ notification: error.message });
+      return;
+    }
+    console.error('Error in handleSessionPause:', error);
+    await ctx.answerOnCallback({
+      notification: 'Не удалось поставить сессию на паузу'
+    });
+  }
+}
+
+export async function handleSessionResume(ctx: Context, sessionId: string): Promise<void> {
+  try {
+    const session = await pomodoroService.resumeSession(sessionId);
+    const info = await pomodoroService.getSessionInfo(sessionId);
+    if (!info) return;
+
+    const owner = await db.getUser(session.userId);
+    const timeLeft = pomodoroService.formatRemainingTime(info.remainingMinutes, info.remainingSeconds);
+    const finishTime = formatLocalTime(
+      pomodoroService.getSessionEndTime(session),
+      owner?.timezone || DEFAULT_TIMEZONE
+    );
+
+    await ctx.answerOnCallback({
+      message: {
+        text: messages.sessionResumed(timeLeft, finishTime),
+        attachments: [getPomodoroKeyboard(sessionId)],
+        format: 'markdown'
+      }
+    });
+  } catch (error) {
+    if (error instanceof SessionPauseError) {
+      await ctx.answerOnCallback({ notification: error.message });
+      return;
+    }
+    console.error('Error in handleSessionResume:', error);
+    await ctx.answerOnCallback({
+      notification: 'Не удалось продолжить сессию'
+    });
+  }
+}
+
+export async function handleBreakStart(ctx: Context): Promise<void> {
+  try {
+    const userId = ctx.user?.user_id || ctx.callback?.user?.user_id;
+    if (!userId) {
+      await ctx.answerOnCallback({ notification: 'Не удалось определить пользователя' });
+      return;
+    }
+
+    const user = await db.getUserByMaxId(String(userId));
+    if (!user) {
+      await ctx.answerOnCallback({ notification: 'Пользователь не найден. Отправьте /start' });
+      return;
+    }
+
+    const session = await pomodoroService.startBreak(user.id);
+    const finishTime = formatLocalTime(pomodoroService.getSessionEndTime(session), user.timezone);
+
+    await ctx.answerOnCallback({
+      message: {
+        text: messages.breakStarted(session.kind === SessionKind.LONG_BREAK, session.duration, finishTime),
+        attachments: [getBreakKeyboard(session.id)],
+        format: 'markdown'
+      }
+    });
+  } catch (error: any) {
+    console.error('Error in handleBreakStart:', error);
+    await ctx.answerOnCallback({
+      notification: error.message || messages.error
+    });
+  }
+}
+
+export async function handleBreakSkip(ctx: Context, sessionId: string): Promise<void> {
+  try {
+    const session = await db.getSession(sessionId);
+    if (session && !session.completed && !session.endTime) {
+      await pomodoroService.completeSession(sessionId);
+    }
+
+    await handleFocusDurationSelect(ctx);
+  } catch (error) {
+    console.error('Error in handleBreakSkip:', error);
+    await ctx.answerOnCallback({
+      notification: 'Не удалось пропустить перерыв'
+    });
+  }
+}
+
+export async function handleSessionExtend(ctx: Context, sessionId: string, minutes: number): Promise<void> {
+  try {
+    const session = await pomodoroService.extendSession(sessionId, minutes);
+    const info = await pomodoroService.getSessionInfo(sessionId);
+    if (!info) return;
+
+    const owner = await db.getUser(session.userId);
+    const timeLeft = pomodoroService.formatRemainingTime(info.remainingMinutes, info.remainingSeconds);
+    const finishTime = formatLocalTime(
+      pomodoroService.getSessionEndTime(session),
+      owner?.timezone || DEFAULT_TIMEZONE
+    );
+
+    await ctx.answerOnCallback({
+      message: {
+        text: messages.sessionExtended(minutes, timeLeft, finishTime),
+        attachments: [getPomodoroKeyboard(sessionId, info.paused)],
+        format: 'markdown'
+      }
+    });
+  } catch (error) {
+    if (error instanceof SessionExtensionError) {
+      await ctx.answerOnCallback({ notification: error.message });
+      return;
+    }
+    console.error('Error in handleSessionExtend:', error);
+    await ctx.answerOnCallback({
+      notification: 'Не удалось продлить сессию'
+    });
+  }
+}
+
+export async function handleSessionCancel(ctx: Context, sessionId: string): Promise<void> {
+  try {
+    const cancelled = await pomodoroService.cancelSession(sessionId);
+    if (!cancelled) {
+      await ctx.answerOnCallback({
+        notification: 'Сессия не найдена или уже завершена'
+      });
+      return;
+    }
 
     await ctx.answerOnCallback({
       message: {
@@ -302,35 +631,14 @@ export async function handleSessionStatus(ctx: Context, sessionId: string): Prom
       return;
     }
 
-    const { session, remainingMinutes, remainingSeconds } = sessionInfo;
-    const totalSeconds = session.duration * 60;
-    const remainingTotal = Math.max(0, remainingMinutes * 60 + remainingSeconds);
-    const elapsedSeconds = Math.max(0, totalSeconds - remainingTotal);
-    const progress = Math.min(100, Math.round((elapsedSeconds / totalSeconds) * 100));
-    const barFilled = Math.round(progress / 10);
-    const progressBar = `${'▓'.repeat(barFilled)}${'░'.repeat(10 - barFilled)} ${progress}%`;
-    
-    const timeLeft = pomodoroService.formatRemainingTime(remainingMinutes, remainingSeconds);
-    const elapsedTime = pomodoroService.formatRemainingTime(
-      Math.floor(elapsedSeconds / 60),
-      elapsedSeconds % 60
-    );
-    
-    const startTime = new Date(session.startTime).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' });
-    const finishTime = new Date(new Date(session.startTime).getTime() + session.duration * 60 * 1000)
-      .toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' });
-
-    const statusMessage = `⏱️ *Статус фокус-сессии*\n\n` +
-      `${progressBar}\n` +
-      `Прошло: *${elapsedTime}*\n` +
-      `Осталось: *${timeLeft}*\n` +
-      `Старт: ${startTime} • Финиш: ${finishTime}\n\n` +
-      `Нажми "Статус" позже, чтобы обновить прогресс.`;
+    const owner = await db.getUser(sessionInfo.session.userId);
+    const statusMessage = buildStatusMessage(sessionInfo, owner?.timezone || DEFAULT_TIMEZONE) +
+      `\n\nНажми "Статус" позже, чтобы обновить прогресс.`;
 
     await ctx.answerOnCallback({
       message: {
         text: statusMessage,
-        attachments: [getPomodoroKeyboard(sessionId)],
+        attachments: [getPomodoroKeyboard(sessionId, sessionInfo.paused)],
         format: 'markdown'
       }
     });
@@ -342,6 +650,73 @@ export async function handleSessionStatus(ctx: Context, sessionId: string): Prom
   }
 }
 
+/**
+ * Срабатывает по задаче планировщика в точках прогресса сессии.
+ * Короткой сессии шлёт отдельное сообщение, у длинной обновляет одно.
+ */
+export async function handleSessionProgress(sessionId: string): Promise<void> {
+  const info = await pomodoroService.getSessionInfo(sessionId);
+  if (!info || info.session.endTime || info.paused) return;
+
+  try {
+    const user = await db.getUser(info.session.userId);
+    const bot = (global as any).bot;
+    if (!user || !bot) return;
+
+    const enabled = await notificationService.isEnabled(user.id, NotificationType.SESSION_PROGRESS);
+    if (!enabled) return;
+
+    const keyboard = getPomodoroKeyboard(sessionId);
+
+    if (!pomodoroService.isLiveStatus(info.session)) {
+      // Точка "за N минут до конца" — подбадриваем, иначе показываем процент
+      const minutesLeft = info.remainingMinutes + info.remainingSeconds / 60;
+      const finalStretch = pomodoroService.progressPoints
+        .some(point => 'minutesLeft' in point && Math.abs(point.minutesLeft - minutesLeft) < 0.5);
+
+      const timeLeft = pomodoroService.formatRemainingTime(info.remainingMinutes, info.remainingSeconds);
+      const text = finalStretch
+        ? messages.sessionFinalStretch(Math.round(minutesLeft))
+        : messages.sessionProgress(getProgressPercent(info), timeLeft);
+
+      await bot.api.sendMessageToUser(parseInt(user.maxUserId), text, {
+        attachments: [keyboard],
+        format: 'markdown'
+      });
+      return;
+    }
+
+    const text = buildStatusMessage(info, user.timezone) + `\n\n_Прогресс обновляется автоматически._`;
+
+    if (info.session.statusMessageId) {
+      try {
+        await bot.api.editMessage(info.session.statusMessageId, {
+          text,
+          attachments: [keyboard],
+          format: 'markdown'
+        });
+        return;
+      } catch (error) {
+        // Сообщение могли удалить — пришлём новое
+        console.error('Failed to edit status message, sending a new one:', error);
+      }
+    }
+
+    const message = await bot.api.sendMessageToUser(parseInt(user.maxUserId), text, {
+      attachments: [keyboard],
+      format: 'markdown'
+    });
+    if (message?.body?.mid) {
+      await pomodoroService.setStatusMessageId(sessionId, message.body.mid);
+    }
+  } catch (error) {
+    console.error('Error in handleSessionProgress:', error);
+  } finally {
+    // Следующая точка ставится в любом случае: уведомления могут снова включить
+    await pomodoroService.scheduleProgress(info.session);
+  }
+}
+
 export async function handleSessionComplete(
   ctx: Context, 
   sessionId: string, 
@@ -350,13 +725,6 @@ export async function handleSessionComplete(
   try {
     console.log('handleSessionComplete called:', { sessionId, action });
     
-    // Очищаем таймер
-    const timers = (global as any).pomodoroTimers;
-    if (timers && timers.has(sessionId)) {
-      clearTimeout(timers.get(sessionId));
-      timers.delete(sessionId);
-    }
-
     const userId = ctx.user?.user_id || ctx.callback?.user?.user_id;
     if (!userId) {
       console.log('No userId found');
@@ -402,48 +770,51 @@ export async function handleSessionComplete(
     const sessionInfo = await pomodoroService.getSessionInfo(sessionId);
     console.log('sessionInfo:', sessionInfo ? 'found' : 'not found');
     
-    // Если сессия не найдена, значит она уже завершена ранее
-    if (!sessionInfo) {
-      await ctx.answerOnCallback({
-        message: {
-          text: '✅ *Эта сессия уже завершена!*\n\nНаграды уже были начислены.',
-          attachments: [getBackToMenuKeyboard()],
-          format: 'markdown'
-        }
-      });
-      return;
-    }
-    
-    // Проверяем, была ли уже завершена
-    if (sessionInfo.session.completed) {
-      await ctx.answerOnCallback({
-        message: {
-          text: '✅ *Эта сессия уже завершена!*\n\nНаграды уже были начислены.',
-          attachments: [getBackToMenuKeyboard()],
-          format: 'markdown'
-        }
-      });
-      return;
+    // Досрочная остановка (осталось > 10% времени) важна для привязанной задачи,
+    // размер награды сервис определяет сам по rewardPolicy.
+    // Для уже завершённой сессии sessionInfo нет — сервис вернёт первый результат.
+    let isEarly = false;
+    if (sessionInfo) {
+      const totalSeconds = pomodoroService.getTotalDuration(sessionInfo.session) * 60;
+      const remainingTotal = sessionInfo.remainingMinutes * 60 + (sessionInfo.remainingSeconds || 0);
+      isEarly = (remainingTotal / totalSeconds) > 0.1;
+      console.log('isEarly:', isEarly, 'remaining:', remainingTotal, 'total:', totalSeconds);
     }
     
-    // Считаем досрочным завершением, если осталось > 10% времени
-    const totalSeconds = sessionInfo.session.duration * 60;
-    const remainingTotal = sessionInfo.remainingMinutes * 60 + (sessionInfo.remainingSeconds || 0);
-    const isEarly = (remainingTotal / totalSeconds) > 0.1;
-    console.log('isEarly:', isEarly, 'remaining:', remainingTotal, 'total:', totalSeconds);
-    
-    const result = await pomodoroService.completeSession(sessionId, taskAction, isEarly);
+    const result = await pomodoroService.completeSession(sessionId, taskAction);
     console.log('completeSession result:', result);
 
     const updatedUser = await db.getUser(user.id);
     if (!updatedUser) return;
 
+    // При повторном нажатии показываем ответ на первое действие
+    const finalAction = result.alreadyCompleted && result.session.taskAction
+      ? result.session.taskAction
+      : action;
+
+    // Ответ применяем к привязанной задаче только при первом нажатии
+    const linkedTask = !result.alreadyCompleted && result.session.taskId
+      ? await taskService.getTask(result.session.taskId)
+      : undefined;
+    const openTask = linkedTask && !linkedTask.completed ? linkedTask : undefined;
+
+    // Почему награда уменьшена или не начислена
+    const decision = result.rewardDecision;
+    const fullReward = !decision || decision.reason === RewardReason.FULL;
+    const rewardNote = decision && !fullReward
+      ? messages.rewardReduced(decision, rewardPolicy.fullThreshold, rewardPolicy.minMinutes)
+      : '';
+
     let responseText = '';
     
     // Разная логика для каждой кнопки
-    switch (action) {
+    switch (result.session.sandbox ? 'sandbox' : finalAction) {
+      case 'sandbox':
+        responseText = messages.sandboxSessionFinished(result.actualMinutes, result.session.duration);
+        break;
+
       case 'completed':
-        if (result.reward > 0) {
+        if (fullReward) {
           responseText = `🎉 *Отлично! Ты справился!*\n\n`;
           responseText += `+${result.reward} FocusCoins 🪙\n`;
           responseText += `Серия: ${updatedUser.currentStreak} дней 🔥\n`;
@@ -455,10 +826,35 @@ export async function handleSessionComplete(
           }
         } else {
           responseText = `⏸️ *Сессия завершена досрочно*\n\n`;
-          responseText += `Проработано: ${result.actualMinutes} мин из ${sessionInfo?.session.duration || 0}\n`;
-          responseText += `Награды не начислены (нужно >= 90% времени)\n\n`;
+          responseText += `Проработано: ${result.actualMinutes} мин из ${result.session.duration}\n`;
+          responseText += result.reward > 0
+            ? `+${result.reward} FocusCoins 🪙\n`
+            : `Награды не начислены\n`;
+          responseText += `${rewardNote}\n\n`;
           responseText += `Попробуй доработать до конца в следующий раз!`;
         }
+
+        // Досрочная остановка — ещё не признак, что задача готова
+        if (openTask && !isEarly) {
+          let completion;
+          try {
+            completion = await taskService.completeTask(openTask.id);
+          } catch (error) {
+            // Родитель с открытыми подзадачами закроется сам
+            if (!(error instanceof TaskUpdateError)) throw error;
+            responseText += messages.sessionTaskHasOpenSubtasks(openTask.title);
+            break;
+          }
+          responseText += messages.sessionTaskCompleted(openTask.title, completion?.reward || 0);
+          if (completion?.next?.deadline) {
+            responseText += messages.taskNextOccurrence(formatLocalDateTime(completion.next.deadline, user.timezone));
+          }
+          if (completion?.completedParents.length) {
+            responseText += messages.taskParentsCompleted(completion.completedParents.map(parent => parent.title));
+          }
+        } else if (openTask) {
+          responseText += messages.sessionTaskKept(openTask.title);
+        }
         break;
 
       case 'split':
@@ -467,22 +863,55 @@ export async function handleSessionComplete(
           responseText += `Сессия засчитана!\n`;
           responseText += `+${result.reward} FocusCoins 🪙\n\n`;
         }
-        responseText += `Раздели задачу на подзадачи в разделе *Задачи*.\n`;
-        responseText += `Меньшие задачи легче выполнять! 💪`;
+        if (rewardNote) {
+          responseText += `${rewardNote}\n\n`;
+        }
+        if (openTask) {
+          await db.setBotState({
+            userId: user.id,
+            chatId: String(ctx.chatId || userId),
+            state: 'splitting_task',
+            data: { taskId: openTask.id },
+            updatedAt: new Date()
+          });
+          responseText += `Меньшие задачи легче выполнять! 💪`;
+          responseText += messages.sessionTaskSplit(openTask.title);
+        } else {
+          responseText += `Раздели задачу на подзадачи в разделе *Задачи*.\n`;
+          responseText += `Меньшие задачи легче выполнять! 💪`;
+        }
         break;
 
       case 'postponed':
         responseText = `📅 *Задача отложена*\n\n`;
         if (result.reward > 0) {
-          responseText += `Частичная награда: +${Math.floor(result.reward * 0.5)} FocusCoins 🪙\n\n`;
+          responseText += `Награда: +${result.reward} FocusCoins 🪙\n\n`;
+        }
+        if (rewardNote) {
+          responseText += `${rewardNote}\n\n`;
         }
         responseText += `Не забудь вернуться к задаче позже.\n`;
         responseText += `Постоянство важнее всего! ⏰`;
+
+        if (openTask) {
+          const postponed = await taskService.postponeTask(openTask.id, 24);
+          if (postponed?.deadline) {
+            responseText += messages.sessionTaskPostponed(
+              openTask.title,
+              formatLocalDateTime(postponed.deadline, user.timezone)
+            );
+          }
+        }
         break;
 
       case 'skipped':
         responseText = `⏭️ *Сессия пропущена*\n\n`;
-        responseText += `Награды не начислены.\n\n`;
+        responseText += result.reward > 0
+          ? `Время фокуса засчитано: +${result.reward} FocusCoins 🪙\n\n`
+          : `Награды не начислены.\n\n`;
+        if (rewardNote) {
+          responseText += `${rewardNote}\n\n`;
+        }
         responseText += `Ничего страшного! Бывает.\n`;
         responseText += `Главное - не останавливайся и попробуй снова! 💪`;
         break;
@@ -491,10 +920,39 @@ export async function handleSessionComplete(
         responseText = `✅ *Сессия завершена*\n\n${messages.error}`;
     }
 
+    let keyboard = getBackToMenuKeyboard();
+
+    if (result.alreadyCompleted) {
+      responseText += `\n\n_Сессия уже была завершена ранее — награды повторно не начисляются._`;
+    } else if (result.session.sandbox) {
+      // Песочница не участвует в цикле перерывов
+    } else if (openTask && finalAction === 'split') {
+      // Сначала декомпозиция, перерыв можно начать из меню
+      keyboard = getTaskSplitCountKeyboard(openTask.id);
+    } else if (result.session.kind === SessionKind.FOCUS && !result.session.podId) {
+      // После фокус-блока — перерыв: сразу или по кнопке
+      if (pomodoroService.autoStartBreaks) {
+        const breakSession = await pomodoroService.startBreak(user.id);
+        const finishTime = formatLocalTime(pomodoroService.getSessionEndTime(breakSession), user.timezone);
+        responseText += `\n\n` + messages.breakStarted(
+          breakSession.kind === SessionKind.LONG_BREAK,
+          breakSession.duration,
+          finishTime
+        );
+        keyboard = getBreakKeyboard(breakSession.id);
+      } else {
+        const breakKind = await pomodoroService.getNextBreakKind(user.id);
+        const isLong = breakKind === SessionKind.LONG_BREAK;
+        const breakDuration = pomodoroService.getBreakDuration(breakKind);
+        responseText += messages.breakOffer(isLong, breakDuration);
+        keyboard = getBreakOfferKeyboard(isLong, breakDuration);
+      }
+    }
+
     await ctx.answerOnCallback({
       message: {
         text: responseText,
-        attachments: [getBackToMenuKeyboard()],
+        attachments: [keyboard],
         format: 'markdown'
       }
     });
@@ -514,3 +972,56 @@ export async function handleSessionComplete(
   }
 }
 
+/**
+ * Задача пользователя, на которой ещё можно сфокусироваться
+ */
+async function getOwnActiveTask(ctx: Context, user: User, taskId: string): Promise<Task | undefined> {
+  const task = await taskService.getTask(taskId);
+  if (!task || task.userId !== user.id) {
+    await ctx.answerOnCallback({ notification: messages.taskNotFound });
+    return undefined;
+  }
+
+  if (task.completed) {
+    await ctx.answerOnCallback({ notification: '✅ Эта задача уже выполнена' });
+    return undefined;
+  }
+
+  return task;
+}
+
+type SessionInfo = NonNullable<Awaited<ReturnType<typeof pomodoroService.getSessionInfo>>>;
+
+function getProgressPercent(info: SessionInfo): number {
+  const totalSeconds = pomodoroService.getTotalDuration(info.session) * 60;
+  const remainingTotal = Math.max(0, info.remainingMinutes * 60 + info.remainingSeconds);
+  return Math.min(100, Math.round(((totalSeconds - remainingTotal) / totalSeconds) * 100));
+}
+
+/**
+ * Текст статуса сессии с прогресс-баром
+ */
+function buildStatusMessage(info: SessionInfo, timezone: string): string {
+  const { session, remainingMinutes, remainingSeconds, paused } = info;
+  const totalSeconds = pomodoroService.getTotalDuration(session) * 60;
+  const remainingTotal = Math.max(0, remainingMinutes * 60 + remainingSeconds);
+  const elapsedSeconds = Math.max(0, totalSeconds - remainingTotal);
+  const progress = getProgressPercent(info);
+  const barFilled = Math.round(progress / 10);
+  const progressBar = `${'▓'.repeat(barFilled)}${'░'.repeat(10 - barFilled)} ${progress}%`;
+
+  const timeLeft = pomodoroService.formatRemainingTime(remainingMinutes, remainingSeconds);
+  const elapsedTime = pomodoroService.formatRemainingTime(
+    Math.floor(elapsedSeconds / 60),
+    elapsedSeconds % 60
+  );
+
+  const startTime = formatLocalTime(session.startTime, timezone);
+  const finishTime = formatLocalTime(pomodoroService.getSessionEndTime(session), timezone);
+
+  return `⏱️ *Статус фокус-сессии*${paused ? ' — ⏸️ на паузе' : ''}\n\n` +
+    `${progressBar}\n` +
+    `Прошло: *${elapsedTime}*\n` +
+    `Осталось: *${timeLeft}*\n` +
+    `Старт: ${startTime} • Финиш: ${finishTime}`;
+}
@@ -5,10 +5,16 @@
 import { Context } from '@maxhub/max-bot-api';
 import { db } from '../../storage';
 import { gamificationService } from '../../services/gamification';
+import { taskService } from '../../services/tasks';
 import { messages } from '../messages';
+import { User } from '../../types';
+import { formatLocalTime, formatUtcOffset, isValidTimezone, parseTimezone } from '../../utils/timezone';
 import { 
   getProfileKeyboard, 
   getAchievementsKeyboard,
+  getCoinHistoryKeyboard,
+  getBackToProfileKeyboard,
+  getTimezoneKeyboard,
   getBackToMenuKeyboard 
 } from '../keyboards';
 
@@ -95,6 +101,200 @@ export async function handleAchievements(ctx: Context): Promise<void> {
   }
 }
 
+export async function handleCoinHistory(ctx: Context): Promise<void> {
+  try {
+    const userId = ctx.user?.user_id || ctx.callback?.user?.user_id;
+    if (!userId) {
+      await ctx.answerOnCallback({
+        notification: 'Не удалось определить пользователя'
+      });
+      return;
+    }
+
+    const maxUserId = String(userId);
+    const user = await db.getUserByMaxId(maxUserId);
+    if (!user) {
+      await ctx.answerOnCallback({
+        notification: 'Пользователь не найден. Отправьте /start'
+      });
+      return;
+    }
+
+    const { balance, transactions } = await gamificationService.getCoinHistory(user.id, 15);
+
+    await ctx.answerOnCallback({
+      message: {
+        text: messages.coinHistory(balance, transactions),
+        attachments: [getCoinHistoryKeyboard()],
+        format: 'markdown'
+      }
+    });
+  } catch (error) {
+    console.error('Error in handleCoinHistory:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+export async function handleEstimateAccuracy(ctx: Context): Promise<void> {
+  try {
+    const userId = ctx.user?.user_id || ctx.callback?.user?.user_id;
+    if (!userId) {
+      await ctx.answerOnCallback({
+        notification: 'Не удалось определить пользователя'
+      });
+      return;
+    }
+
+    const user = await db.getUserByMaxId(String(userId));
+    if (!user) {
+      await ctx.answerOnCallback({
+        notification: 'Пользователь не найден. Отправьте /start'
+      });
+      return;
+    }
+
+    const report = await taskService.getEstimateAccuracy(user.id);
+
+    await ctx.answerOnCallback({
+      message: {
+        text: messages.estimateAccuracy(report),
+        attachments: [getBackToProfileKeyboard()],
+        format: 'markdown'
+      }
+    });
+  } catch (error) {
+    console.error('Error in handleEstimateAccuracy:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+export async function handleTimezone(ctx: Context): Promise<void> {
+  try {
+    const userId = ctx.user?.user_id || ctx.callback?.user?.user_id;
+    if (!userId) {
+      await ctx.answerOnCallback({
+        notification: 'Не удалось определить пользователя'
+      });
+      return;
+    }
+
+    const maxUserId = String(userId);
+    const user = await db.getUserByMaxId(maxUserId);
+    if (!user) {
+      await ctx.answerOnCallback({
+        notification: 'Пользователь не найден. Отправьте /start'
+      });
+      return;
+    }
+
+    // Пояс можно прислать и текстом
+    await db.setBotState({
+      userId: user.id,
+      chatId: String(ctx.chatId || userId),
+      state: 'awaiting_timezone',
+      data: {},
+      updatedAt: new Date()
+    });
+
+    const now = new Date();
+    await ctx.answerOnCallback({
+      message: {
+        text: messages.timezoneSettings(
+          user.timezone,
+          formatUtcOffset(user.timezone, now),
+          formatLocalTime(now, user.timezone)
+        ),
+        attachments: [getTimezoneKeyboard()],
+        format: 'markdown'
+      }
+    });
+  } catch (error) {
+    console.error('Error in handleTimezone:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+export async function handleSetTimezone(ctx: Context, input: string): Promise<void> {
+  try {
+    const userId = ctx.user?.user_id || ctx.callback?.user?.user_id;
+    if (!userId) {
+      await ctx.answerOnCallback({
+        notification: 'Не удалось определить пользователя'
+      });
+      return;
+    }
+
+    const maxUserId = String(userId);
+    const user = await db.getUserByMaxId(maxUserId);
+    if (!user) {
+      await ctx.answerOnCallback({
+        notification: 'Пользователь не найден. Отправьте /start'
+      });
+      return;
+    }
+
+    const timezone = parseTimezone(input);
+    if (!timezone || !isValidTimezone(timezone)) {
+      await ctx.answerOnCallback({ notification: 'Неизвестный часовой пояс' });
+      return;
+    }
+
+    const confirmation = await saveTimezone(user, timezone);
+
+    await ctx.answerOnCallback({
+      message: {
+        text: confirmation,
+        attachments: [getProfileKeyboard()],
+        format: 'markdown'
+      }
+    });
+  } catch (error) {
+    console.error('Error in handleSetTimezone:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+export async function handleTimezoneInput(ctx: Context, text: string): Promise<void> {
+  try {
+    const userId = ctx.message?.sender?.user_id;
+    if (!userId) return;
+
+    const maxUserId = String(userId);
+    const user = await db.getUserByMaxId(maxUserId);
+    if (!user) return;
+
+    const timezone = parseTimezone(text);
+    if (!timezone || !isValidTimezone(timezone)) {
+      await ctx.reply(messages.timezoneInvalid, {
+        attachments: [getTimezoneKeyboard()],
+        format: 'markdown'
+      });
+      return;
+    }
+
+    const confirmation = await saveTimezone(user, timezone);
+
+    await ctx.reply(confirmation, {
+      attachments: [getProfileKeyboard()],
+      format: 'markdown'
+    });
+  } catch (error) {
+    console.error('Error in handleTimezoneInput:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+/**
+ * Сохраняет пояс и возвращает текст подтверждения
+ */
+async function saveTimezone(user: User, timezone: string): Promise<string> {
+  await db.updateUser(user.id, { timezone });
+  await db.clearBotState(user.id);
+
+  const now = new Date();
+  return messages.timezoneUpdated(timezone, formatUtcOffset(timezone, now), formatLocalTime(now, timezone));
+}
+
 export async function handleStats(ctx: Context): Promise<void> {
   try {
     const userId = ctx.user?.user_id || ctx.callback?.user?.user_id;
@@ -134,9 +334,11 @@ export async function handleStats(ctx: Context): Promise<void> {
       focusCoins: stats.weekFocusCoins
     };
 
+    const projects = await taskService.getProjectStats(user.id);
+
     await ctx.answerOnCallback({
       message: {
-        text: messages.weeklyStats(weekStats),
+        text: messages.weeklyStats(weekStats) + messages.projectStats(projects),
         attachments: [getBackToMenuKeyboard()],
         format: 'markdown'
       }
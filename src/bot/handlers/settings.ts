@@ -0,0 +1,232 @@
+/**
+ * Обработчики настроек уведомлений
+ */
+
+import { Context } from '@maxhub/max-bot-api';
+import { db } from '../../storage';
+import {
+  notificationService,
+  NotificationSettingsError,
+  NotificationSettingsUpdate
+} from '../../services/notifications';
+import { NotificationType, User } from '../../types';
+import { messages, notificationTypeLabels } from '../messages';
+import { getNotificationSettingsKeyboard, getBackToMenuKeyboard } from '../keyboards';
+
+// Поле настроек со временем доставки для каждого настраиваемого типа
+const TIME_FIELDS: Partial<Record<NotificationType, 'dailyReminderTime' | 'streakWarningTime' | 'weeklyStatsTime'>> = {
+  [NotificationType.DAILY_REMINDER]: 'dailyReminderTime',
+  [NotificationType.STREAK_WARNING]: 'streakWarningTime',
+  [NotificationType.WEEKLY_STATS]: 'weeklyStatsTime'
+};
+
+export async function handleNotificationSettings(ctx: Context): Promise<void> {
+  try {
+    const user = await getCallbackUser(ctx);
+    if (!user) return;
+
+    await db.clearBotState(user.id);
+    await showSettings(ctx, user);
+  } catch (error) {
+    console.error('Error in handleNotificationSettings:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+export async function handleNotificationMute(ctx: Context): Promise<void> {
+  try {
+    const user = await getCallbackUser(ctx);
+    if (!user) return;
+
+    const settings = await notificationService.getSettings(user.id);
+    await notificationService.updateSettings(user.id, { muted: !settings.muted });
+
+    await showSettings(ctx, user);
+  } catch (error) {
+    console.error('Error in handleNotificationMute:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+export async function handleNotificationToggle(ctx: Context, type: string): Promise<void> {
+  try {
+    const user = await getCallbackUser(ctx);
+    if (!user) return;
+
+    if (!(Object.values(NotificationType) as string[]).includes(type)) {
+      await ctx.answerOnCallback({ notification: 'Неизвестный тип уведомлений' });
+      return;
+    }
+
+    await notificationService.toggleType(user.id, type as NotificationType);
+    await showSettings(ctx, user);
+  } catch (error) {
+    console.error('Error in handleNotificationToggle:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+export async function handleNotificationTime(ctx: Context, type: string): Promise<void> {
+  try {
+    const user = await getCallbackUser(ctx);
+    if (!user) return;
+
+    const field = TIME_FIELDS[type as NotificationType];
+    if (!field) {
+      await ctx.answerOnCallback({ notification: 'Для этого типа время не настраивается' });
+      return;
+    }
+
+    const settings = await notificationService.getSettings(user.id);
+
+    await db.setBotState({
+      userId: user.id,
+      chatId: String(ctx.chatId || user.maxUserId),
+      state: 'awaiting_notification_time',
+      data: { type },
+      updatedAt: new Date()
+    });
+
+    await ctx.answerOnCallback({
+      message: {
+        text: messages.notificationTimePrompt(notificationTypeLabels[type as NotificationType], settings[field]),
+        attachments: [getBackToMenuKeyboard()],
+        format: 'markdown'
+      }
+    });
+  } catch (error) {
+    console.error('Error in handleNotificationTime:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+export async function handleQuietHours(ctx: Context): Promise<void> {
+  try {
+    const user = await getCallbackUser(ctx);
+    if (!user) return;
+
+    await db.setBotState({
+      userId: user.id,
+      chatId: String(ctx.chatId || user.maxUserId),
+      state: 'awaiting_quiet_hours',
+      data: {},
+      updatedAt: new Date()
+    });
+
+    await ctx.answerOnCallback({
+      message: {
+        text: messages.quietHoursPrompt,
+        attachments: [getBackToMenuKeyboard()],
+        format: 'markdown'
+      }
+    });
+  } catch (error) {
+    console.error('Error in handleQuietHours:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+export async function handleNotificationTimeInput(ctx: Context, text: string): Promise<void> {
+  try {
+    const user = await getMessageUser(ctx);
+    if (!user) return;
+
+    const botState = await db.getBotState(user.id);
+    const field = TIME_FIELDS[botState?.data?.type as NotificationType];
+    if (!field) return;
+
+    await saveFromText(ctx, user, { [field]: text.trim() }, messages.notificationTimeInvalid);
+  } catch (error) {
+    console.error('Error in handleNotificationTimeInput:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+export async function handleQuietHoursInput(ctx: Context, text: string): Promise<void> {
+  try {
+    const user = await getMessageUser(ctx);
+    if (!user) return;
+
+    const value = text.trim();
+    let updates: NotificationSettingsUpdate;
+
+    if (/^(выкл|нет|off)$/i.test(value)) {
+      // undefined означает "не менять", поэтому выключаем пустыми строками
+      updates = { quietHoursStart: '', quietHoursEnd: '' };
+    } else {
+      const match = value.match(/^(\d{1,2}:\d{2})\s*[-–—]\s*(\d{1,2}:\d{2})$/);
+      if (!match) {
+        await ctx.reply(messages.quietHoursInvalid, { format: 'markdown' });
+        return;
+      }
+      updates = { quietHoursStart: match[1], quietHoursEnd: match[2] };
+    }
+
+    await saveFromText(ctx, user, updates, messages.quietHoursInvalid);
+  } catch (error) {
+    console.error('Error in handleQuietHoursInput:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+async function saveFromText(
+  ctx: Context,
+  user: User,
+  updates: NotificationSettingsUpdate,
+  invalidMessage: string
+): Promise<void> {
+  try {
+    const settings = await notificationService.updateSettings(user.id, updates);
+    await db.clearBotState(user.id);
+
+    await ctx.reply(messages.notificationSettings(settings, user.timezone), {
+      attachments: [getNotificationSettingsKeyboard(settings)],
+      format: 'markdown'
+    });
+  } catch (error) {
+    if (error instanceof NotificationSettingsError) {
+      await ctx.reply(invalidMessage, { format: 'markdown' });
+      return;
+    }
+    throw error;
+  }
+}
+
+async function showSettings(ctx: Context, user: User): Promise<void> {
+  const settings = await notificationService.getSettings(user.id);
+
+  await ctx.answerOnCallback({
+    message: {
+      text: messages.notificationSettings(settings, user.timezone),
+      attachments: [getNotificationSettingsKeyboard(settings)],
+      format: 'markdown'
+    }
+  });
+}
+
+async function getCallbackUser(ctx: Context): Promise<User | undefined> {
+  const userId = ctx.user?.user_id || ctx.callback?.user?.user_id;
+  if (!userId) {
+    await ctx.answerOnCallback({
+      notification: 'Не удалось определить пользователя'
+    });
+    return undefined;
+  }
+
+  const user = await db.getUserByMaxId(String(userId));
+  if (!user) {
+    await ctx.answerOnCallback({
+      notification: 'Пользователь не найден. Отправьте /start'
+    });
+    return undefined;
+  }
+
+  return user;
+}
+
+async function getMessageUser(ctx: Context): Promise<User | undefined> {
+  const userId = ctx.message?.sender?.user_id;
+  if (!userId) return undefined;
+
+  return db.getUserByMaxId(String(userId));
+}
@@ -11,6 +11,7 @@ import { getMainMenuKeyboard, getPodControlKeyboard, getPomodoroKeyboard } from
 import { podService } from '../../services/pods';
 import { pomodoroService } from '../../services/pomodoro';
 import { PodStatus } from '../../types';
+import { DEFAULT_TIMEZONE } from '../../utils/timezone';
 
 export async function handleStart(ctx: Context): Promise<void> {
   try {
@@ -39,6 +40,7 @@ export async function handleStart(ctx: Context): Promise<void> {
         bestStreak: 0,
         lastActiveDate: new Date().toISOString(),
         achievements: [],
+        timezone: DEFAULT_TIMEZONE,
         createdAt: new Date()
       };
 
@@ -168,7 +170,8 @@ export async function handleBackToMenu(ctx: Context): Promise<void> {
       if (info) {
         const timeLeft = pomodoroService.formatRemainingTime(info.remainingMinutes, info.remainingSeconds);
         statusText += `\n\n🟢 *Активная фокус-сессия*\nОсталось: *${timeLeft}*`;
-        keyboard = getPomodoroKeyboard(activeSession.id);
+        if (info.paused) statusText += ` ⏸️ на паузе`;
+        keyboard = getPomodoroKeyboard(activeSession.id, info.paused);
       }
     } else if (activePod && (activePod.status === PodStatus.ACTIVE || activePod.status === PodStatus.WAITING)) {
       const podTimeLeft = Math.max(0, activePod.duration - 
@@ -181,6 +184,14 @@ export async function handleBackToMenu(ctx: Context): Promise<void> {
         `⏱️ Осталось: ~${podTimeLeft} мин`;
       
       keyboard = getPodControlKeyboard(activePod.id, activePod.creatorId === user.id);
+    } else {
+      // Во время перерыва меню остаётся доступным, показываем только остаток
+      const activeBreak = await pomodoroService.getActiveBreak(user.id);
+      const info = activeBreak && await pomodoroService.getSessionInfo(activeBreak.id);
+      if (info) {
+        const timeLeft = pomodoroService.formatRemainingTime(info.remainingMinutes, info.remainingSeconds);
+        statusText += `\n\n☕ *Перерыв*\nОсталось: *${timeLeft}*`;
+      }
     }
     
     await ctx.answerOnCallback({
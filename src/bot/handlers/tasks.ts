@@ -2,16 +2,57 @@
  * Обработчики для работы с задачами
  */
 
-import { Context, Keyboard } from '@maxhub/max-bot-api';
+import { Context } from '@maxhub/max-bot-api';
 import { db } from '../../storage';
-import { taskService } from '../../services/tasks';
+import {
+  taskService,
+  TaskFilter,
+  TaskRecurrenceError,
+  TaskSearchError,
+  TaskUpdateError,
+  MIN_SEARCH_LENGTH,
+  MAX_SEARCH_LENGTH,
+  MIN_TITLE_LENGTH,
+  MAX_TITLE_LENGTH
+} from '../../services/tasks';
+import { notificationService } from '../../services/notifications';
+import { NotificationType, RecurrenceRule, RecurrenceType, Task, TaskPriority, User } from '../../types';
+import { formatLocalDateTime, DEFAULT_TIMEZONE } from '../../utils/timezone';
+import { formatRecurrence } from '../../utils/recurrence';
+import { parseDeadline } from '../../utils/deadline';
 import { messages } from '../messages';
 import { 
   getBackToMenuKeyboard, 
   getTaskListKeyboard, 
-  getTaskActionKeyboard 
+  getTaskActionKeyboard,
+  getTaskReminderKeyboard,
+  getTaskSplitCountKeyboard,
+  getTaskRepeatKeyboard,
+  getTaskMatrixKeyboard,
+  getTaskFilterKeyboard,
+  getTaskEditKeyboard,
+  getTaskEditConfirmKeyboard,
+  getTaskEditCancelKeyboard
 } from '../keyboards';
 
+// Правила повтора, доступные кнопками; остальные — текстом
+const REPEAT_PRESETS: Record<string, RecurrenceRule> = {
+  daily: { type: RecurrenceType.DAILY },
+  every_other_day: { type: RecurrenceType.INTERVAL, interval: 2 },
+  weekdays: { type: RecurrenceType.WEEKDAYS },
+  weekly: { type: RecurrenceType.WEEKLY },
+  monthly: { type: RecurrenceType.MONTHLY }
+};
+
+// Состояния диалога изменения задачи
+const TASK_EDIT_STATES = ['editing_task_title', 'editing_task_deadline', 'confirming_task_edit'];
+
+// Ожидающее подтверждения изменение; дедлайн — ISO-строка, null — убрать
+interface TaskEditChange {
+  title?: string;
+  deadline?: string | null;
+}
+
 export async function handleAddTask(ctx: Context): Promise<void> {
   try {
     // Получаем пользователя
@@ -62,27 +103,29 @@ export async function handleTaskInput(ctx: Context, text: string): Promise<void>
     const user = await db.getUserByMaxId(maxUserId);
     if (!user) return;
 
-    const { title, deadline } = taskService.parseTaskFromText(text);
+    const { title: parsedTitle, deadline, estimate, recurrence, priority, project, tags } =
+      taskService.parseTaskFromText(text, user.timezone);
 
-    if (!title || title.length < 2) {
-      await ctx.reply('Пожалуйста, укажи название задачи.\n\nНапример: "Написать отчет до завтра 15:00"');
+    let title: string;
+    try {
+      title = taskService.validateTitle(parsedTitle);
+    } catch (error) {
+      if (!(error instanceof TaskUpdateError)) throw error;
+      await ctx.reply(parsedTitle.length > MAX_TITLE_LENGTH
+        ? messages.taskTitleInvalid(MIN_TITLE_LENGTH, MAX_TITLE_LENGTH)
+        : 'Пожалуйста, укажи название задачи.\n\nНапример: "Написать отчет до завтра 15:00"');
       return;
     }
 
-    await taskService.createTask(user.id, title, deadline);
+    const task = await taskService.createTask(user.id, title, deadline, estimate, recurrence, priority, { project, tags });
 
-    let deadlineText: string | undefined;
-    if (deadline) {
-      const day = deadline.getDate();
-      const month = deadline.getMonth() + 1;
-      const hours = deadline.getHours();
-      const minutes = deadline.getMinutes();
-      deadlineText = `${day}.${month.toString().padStart(2, '0')} ${hours}:${minutes.toString().padStart(2, '0')}`;
-    }
+    // Показываем в поясе пользователя, в котором дедлайн и разбирался
+    const deadlineText = deadline ? formatLocalDateTime(deadline, user.timezone) : undefined;
 
     await db.clearBotState(user.id);
 
-    await ctx.reply(messages.taskAdded(title, deadlineText), {
+    const recurrenceText = recurrence && formatRecurrence(recurrence);
+    await ctx.reply(messages.taskAdded(title, deadlineText, estimate, recurrenceText, priority, task.projectName, task.tags), {
       attachments: [getBackToMenuKeyboard()],
       format: 'markdown'
     });
@@ -91,7 +134,7 @@ export async function handleTaskInput(ctx: Context, text: string): Promise<void>
   }
 }
 
-export async function handleMyTasks(ctx: Context): Promise<void> {
+export async function handleMyTasks(ctx: Context, filterPayload?: string): Promise<void> {
   try {
     const userId = ctx.user?.user_id || ctx.callback?.user?.user_id;
     if (!userId) {
@@ -118,9 +161,12 @@ export async function handleMyTasks(ctx: Context): Promise<void> {
       return;
     }
 
-    const tasks = await taskService.getUserTasks(user.id, false);
+    // Фильтр приходит из кнопки или из команды: "/tasks #работа", "/tasks @Клиент"
+    const filterSource = filterPayload ?? (ctx.callback ? undefined : ctx.message?.body?.text ?? undefined);
+    const filter = await resolveTaskFilter(user.id, filterSource);
+    const tasks = await taskService.getUserTasks(user.id, false, true, filter.filter);
 
-    if (tasks.length === 0) {
+    if (tasks.length === 0 && !filter.label) {
       const replyOptions = {
         attachments: [getBackToMenuKeyboard()],
         format: 'markdown' as const
@@ -139,11 +185,11 @@ export async function handleMyTasks(ctx: Context): Promise<void> {
       return;
     }
 
-    const taskText = `📋 *Мои задачи* (${tasks.length})\n↳ Подзадачи отмечены стрелкой\n\nВыбери задачу:`;
+    const taskText = messages.taskListTitle(tasks.length, filter.label);
     const totalPages = Math.ceil(tasks.length / 5);
 
     const replyOptions = {
-      attachments: [getTaskListKeyboard(tasks, 0, totalPages)],
+      attachments: [getTaskListKeyboard(tasks, 0, totalPages, filter.payload)],
       format: 'markdown' as const
     };
 
@@ -163,7 +209,7 @@ export async function handleMyTasks(ctx: Context): Promise<void> {
   }
 }
 
-export async function handleTaskPage(ctx: Context, page: number): Promise<void> {
+export async function handleTaskPage(ctx: Context, page: number, filterPayload?: string): Promise<void> {
   try {
     const userId = ctx.user?.user_id || ctx.callback?.user?.user_id;
     if (!userId) {
@@ -182,15 +228,23 @@ export async function handleTaskPage(ctx: Context, page: number): Promise<void>
       return;
     }
 
-    const tasks = await taskService.getUserTasks(user.id, false);
+    // Листаем результаты поиска: payload "search:<запрос>"
+    const searchQuery = filterPayload?.match(/^search:(.+)$/s)?.[1];
+    if (searchQuery) {
+      await renderTaskSearch(ctx, user.id, searchQuery, page);
+      return;
+    }
+
+    const filter = await resolveTaskFilter(user.id, filterPayload);
+    const tasks = await taskService.getUserTasks(user.id, false, true, filter.filter);
     const totalPages = Math.ceil(tasks.length / 5);
 
-    const taskText = `📋 *Мои задачи* (${tasks.length})\n↳ Подзадачи отмечены стрелкой\n\nВыбери задачу:`;
+    const taskText = messages.taskListTitle(tasks.length, filter.label);
 
     await ctx.answerOnCallback({
       message: {
         text: taskText,
-        attachments: [getTaskListKeyboard(tasks, page, totalPages)],
+        attachments: [getTaskListKeyboard(tasks, page, totalPages, filter.payload)],
         format: 'markdown'
       }
     });
@@ -200,9 +254,115 @@ export async function handleTaskPage(ctx: Context, page: number): Promise<void>
   }
 }
 
+export async function handleTaskFilters(ctx: Context): Promise<void> {
+  try {
+    const userId = ctx.user?.user_id || ctx.callback?.user?.user_id;
+    const user = userId ? await db.getUserByMaxId(String(userId)) : undefined;
+    if (!user) {
+      await ctx.answerOnCallback({ notification: 'Пользователь не найден. Отправьте /start' });
+      return;
+    }
+
+    const [projects, tags] = await Promise.all([
+      taskService.getUserProjects(user.id),
+      taskService.getUserTags(user.id)
+    ]);
+
+    await ctx.answerOnCallback({
+      message: {
+        text: projects.length || tags.length ? messages.taskFiltersPrompt : messages.taskFiltersEmpty,
+        attachments: [getTaskFilterKeyboard(projects, tags)],
+        format: 'markdown'
+      }
+    });
+  } catch (error) {
+    console.error('Error in handleTaskFilters:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+export async function handleTaskSearch(ctx: Context): Promise<void> {
+  try {
+    const userId = ctx.user?.user_id || ctx.callback?.user?.user_id || ctx.message?.sender?.user_id;
+    const user = userId ? await db.getUserByMaxId(String(userId)) : undefined;
+    if (!user) {
+      if (ctx.callback) {
+        await ctx.answerOnCallback({ notification: 'Пользователь не найден. Отправьте /start' });
+      } else {
+        await ctx.reply('Пользователь не найден. Отправьте /start');
+      }
+      return;
+    }
+
+    await db.setBotState({
+      userId: user.id,
+      chatId: String(ctx.chatId || userId),
+      state: 'awaiting_task_search',
+      updatedAt: new Date()
+    });
+
+    const replyOptions = {
+      attachments: [getBackToMenuKeyboard()],
+      format: 'markdown' as const
+    };
+
+    if (ctx.callback) {
+      await ctx.answerOnCallback({ message: { text: messages.taskSearchPrompt, ...replyOptions } });
+    } else {
+      await ctx.reply(messages.taskSearchPrompt, replyOptions);
+    }
+  } catch (error) {
+    console.error('Error in handleTaskSearch:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+/**
+ * /find <текст> — сразу результаты, /find без текста — ждём запрос сообщением
+ */
+export async function handleFindCommand(ctx: Context): Promise<void> {
+  try {
+    const userId = ctx.user?.user_id || ctx.message?.sender?.user_id;
+    const user = userId ? await db.getUserByMaxId(String(userId)) : undefined;
+    if (!user) {
+      await ctx.reply('Пользователь не найден. Отправьте /start');
+      return;
+    }
+
+    const query = (ctx.message?.body?.text || '').replace(/^\/find(?:@\S+)?/i, '').trim();
+    if (!query) {
+      await handleTaskSearch(ctx);
+      return;
+    }
+
+    await renderTaskSearch(ctx, user.id, query, 0);
+  } catch (error) {
+    console.error('Error in handleFindCommand:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+export async function handleTaskSearchInput(ctx: Context, text: string): Promise<void> {
+  try {
+    const userId = ctx.user?.user_id || ctx.message?.sender?.user_id;
+    if (!userId) return;
+
+    const user = await db.getUserByMaxId(String(userId));
+    if (!user) return;
+
+    // Неподходящий запрос — состояние остаётся, можно сразу прислать другой
+    if (await renderTaskSearch(ctx, user.id, text, 0)) {
+      await db.clearBotState(user.id);
+    }
+  } catch (error) {
+    console.error('Error in handleTaskSearchInput:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
 export async function handleTaskView(ctx: Context, taskId: string): Promise<void> {
   try {
-    const task = await taskService.getTask(taskId);
+    const task = await taskService.getTaskTree(taskId);
     if (!task) {
       await ctx.answerOnCallback({
         notification: messages.taskNotFound
@@ -210,28 +370,22 @@ export async function handleTaskView(ctx: Context, taskId: string): Promise<void
       return;
     }
 
-    const parentTask = task.parentTaskId ? await taskService.getTask(task.parentTaskId) : null;
-    const subtasks = await taskService.getSubtasks(task.id);
+    const path = await taskService.getTaskPath(task);
+    const parentTask = path[path.length - 1];
 
-    let taskText = `📋 *Задача*\n\n${taskService.formatTask(task, undefined, parentTask?.title)}`;
+    const timezone = (await db.getUser(task.userId))?.timezone || DEFAULT_TIMEZONE;
+    let taskText = `📋 *Задача*\n\n${taskService.formatTask(task, undefined, parentTask?.title, timezone)}`;
 
-    if (parentTask) {
-      taskText += `\n\n🔗 Родительская: *${parentTask.title}*`;
+    if (path.length > 1) {
+      taskText += messages.taskPath(path.map(ancestor => ancestor.title));
     }
 
-    if (subtasks.length > 0) {
-      const completedCount = subtasks.filter(st => st.completed).length;
-      taskText += `\n\n🧩 *Подзадачи* (${completedCount}/${subtasks.length}):\n`;
-      subtasks.forEach((subtask, idx) => {
-        const emoji = subtask.completed ? '✅' : '🔹';
-        taskText += `${emoji} ${subtask.title}\n`;
-      });
-    }
+    taskText += messages.taskSubtaskTree(task);
 
     await ctx.answerOnCallback({
       message: {
         text: taskText,
-        attachments: [getTaskActionKeyboard(taskId)],
+        attachments: [getTaskActionKeyboard(task)],
         format: 'markdown'
       }
     });
@@ -272,10 +426,25 @@ export async function handleTaskAction(
 
     switch (action) {
       case 'complete': {
-        await taskService.completeTask(taskId);
+        let result;
+        try {
+          result = await taskService.completeTask(taskId);
+        } catch (error) {
+          if (!(error instanceof TaskUpdateError)) throw error;
+          await ctx.answerOnCallback({ notification: messages.taskHasOpenSubtasks });
+          break;
+        }
+        let text = messages.taskCompleted(task.title, result?.reward || 0);
+        if (result?.next?.deadline) {
+          text += messages.taskNextOccurrence(formatLocalDateTime(result.next.deadline, user.timezone));
+        }
+        if (result?.completedParents.length) {
+          text += messages.taskParentsCompleted(result.completedParents.map(parent => parent.title));
+        }
+
         await ctx.answerOnCallback({
           message: {
-            text: messages.taskCompleted(task.title, 2),
+            text,
             attachments: [getBackToMenuKeyboard()],
             format: 'markdown'
           }
@@ -284,6 +453,11 @@ export async function handleTaskAction(
       }
 
       case 'split': {
+        if (task.completed) {
+          await ctx.answerOnCallback({ notification: 'Задача уже выполнена — разбивать нечего' });
+          break;
+        }
+
         // Начинаем интерактивный флоу декомпозиции
         await db.setBotState({
           userId: user.id,
@@ -298,17 +472,7 @@ export async function handleTaskAction(
             text: `✂️ *Декомпозиция задачи*\n\n` +
                   `Задача: *${task.title}*\n\n` +
                   `На сколько подзадач хочешь разбить?`,
-            attachments: [
-              Keyboard.inlineKeyboard([
-                [
-                  Keyboard.button.callback('2', `task_split_count:${taskId}:2`),
-                  Keyboard.button.callback('3', `task_split_count:${taskId}:3`),
-                  Keyboard.button.callback('4', `task_split_count:${taskId}:4`),
-                  Keyboard.button.callback('5', `task_split_count:${taskId}:5`)
-                ],
-                [Keyboard.button.callback('❌ Отмена', 'action:my_tasks')]
-              ])
-            ],
+            attachments: [getTaskSplitCountKeyboard(taskId)],
             format: 'markdown'
           }
         });
@@ -318,10 +482,8 @@ export async function handleTaskAction(
       case 'postpone': {
         const postponed = await taskService.postponeTask(taskId, 24);
         if (postponed && postponed.deadline) {
-          const day = postponed.deadline.getDate();
-          const month = postponed.deadline.getMonth() + 1;
-          const deadlineText = `${day}.${month.toString().padStart(2, '0')}`;
-          
+          const deadlineText = formatLocalDateTime(postponed.deadline, user.timezone);
+
           await ctx.answerOnCallback({
             message: {
               text: messages.taskPostponed(task.title, deadlineText),
@@ -354,6 +516,295 @@ export async function handleTaskAction(
   }
 }
 
+export async function handleTaskRepeat(ctx: Context, taskId: string): Promise<void> {
+  try {
+    const task = await getOwnTask(ctx, taskId);
+    if (!task) return;
+
+    await ctx.answerOnCallback({
+      message: {
+        text: messages.taskRepeatPrompt(task.title),
+        attachments: [getTaskRepeatKeyboard(taskId)],
+        format: 'markdown'
+      }
+    });
+  } catch (error) {
+    console.error('Error in handleTaskRepeat:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+export async function handleTaskRepeatSet(ctx: Context, taskId: string, preset: string): Promise<void> {
+  try {
+    const rule = REPEAT_PRESETS[preset];
+    if (!rule) {
+      await ctx.answerOnCallback({ notification: 'Неизвестное правило повтора' });
+      return;
+    }
+
+    const task = await getOwnTask(ctx, taskId);
+    if (!task) return;
+
+    const updated = await taskService.setRecurrence(taskId, rule);
+    if (!updated?.recurrence || !updated.deadline) {
+      await ctx.answerOnCallback({ notification: messages.taskNotFound });
+      return;
+    }
+
+    const user = await db.getUser(updated.userId);
+    await ctx.answerOnCallback({
+      message: {
+        text: messages.taskRepeatSet(
+          updated.title,
+          formatRecurrence(updated.recurrence),
+          formatLocalDateTime(updated.deadline, user?.timezone || DEFAULT_TIMEZONE)
+        ),
+        attachments: [getTaskActionKeyboard(updated)],
+        format: 'markdown'
+      }
+    });
+  } catch (error) {
+    console.error('Error in handleTaskRepeatSet:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+export async function handleTaskRepeatStop(ctx: Context, taskId: string): Promise<void> {
+  try {
+    const task = await getOwnTask(ctx, taskId);
+    if (!task) return;
+
+    const updated = await taskService.stopRecurrence(taskId);
+
+    await ctx.answerOnCallback({
+      message: {
+        text: messages.taskRepeatStopped(task.title),
+        attachments: [getTaskActionKeyboard(updated || task)],
+        format: 'markdown'
+      }
+    });
+  } catch (error) {
+    console.error('Error in handleTaskRepeatStop:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+/**
+ * Меню изменения задачи. Кнопка «Отмена» в диалоге ведёт сюда же
+ * и сбрасывает незавершённое изменение.
+ */
+export async function handleTaskEdit(ctx: Context, taskId: string): Promise<void> {
+  try {
+    const task = await getOwnTask(ctx, taskId);
+    if (!task) return;
+
+    const botState = await db.getBotState(task.userId);
+    if (botState && TASK_EDIT_STATES.includes(botState.state)) {
+      await db.clearBotState(task.userId);
+    }
+
+    const timezone = (await db.getUser(task.userId))?.timezone || DEFAULT_TIMEZONE;
+    const deadlineText = task.deadline ? formatLocalDateTime(task.deadline, timezone) : undefined;
+
+    await ctx.answerOnCallback({
+      message: {
+        text: messages.taskEditMenu(task.title, deadlineText),
+        attachments: [getTaskEditKeyboard(task)],
+        format: 'markdown'
+      }
+    });
+  } catch (error) {
+    console.error('Error in handleTaskEdit:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+export async function handleTaskEditField(ctx: Context, taskId: string, field: 'title' | 'deadline'): Promise<void> {
+  try {
+    const task = await getOwnTask(ctx, taskId);
+    if (!task) return;
+
+    const timezone = (await db.getUser(task.userId))?.timezone || DEFAULT_TIMEZONE;
+    await db.setBotState({
+      userId: task.userId,
+      chatId: String(ctx.chatId || ctx.user?.user_id || ctx.callback?.user?.user_id),
+      state: field === 'title' ? 'editing_task_title' : 'editing_task_deadline',
+      data: { taskId },
+      updatedAt: new Date()
+    });
+
+    const text = field === 'title'
+      ? messages.taskEditTitlePrompt(task.title)
+      : messages.taskEditDeadlinePrompt(task.deadline && formatLocalDateTime(task.deadline, timezone));
+
+    await ctx.answerOnCallback({
+      message: {
+        text,
+        attachments: [getTaskEditCancelKeyboard(taskId)],
+        format: 'markdown'
+      }
+    });
+  } catch (error) {
+    console.error('Error in handleTaskEditField:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+/**
+ * Новое название или срок текстом. Непонятный ввод не сбрасывает диалог —
+ * можно сразу отправить ещё раз.
+ */
+export async function handleTaskEditInput(ctx: Context, text: string): Promise<void> {
+  try {
+    const userId = ctx.user?.user_id || ctx.message?.sender?.user_id;
+    if (!userId) return;
+
+    const user = await db.getUserByMaxId(String(userId));
+    if (!user) return;
+
+    const botState = await db.getBotState(user.id);
+    const task = botState?.data?.taskId ? await taskService.getTask(botState.data.taskId) : undefined;
+    if (!botState || !task || task.userId !== user.id) {
+      await db.clearBotState(user.id);
+      await ctx.reply(messages.taskNotFound);
+      return;
+    }
+
+    if (botState.state === 'editing_task_title') {
+      let title: string;
+      try {
+        title = taskService.validateTitle(text);
+      } catch (error) {
+        if (!(error instanceof TaskUpdateError)) throw error;
+        await ctx.reply(messages.taskTitleInvalid(MIN_TITLE_LENGTH, MAX_TITLE_LENGTH));
+        return;
+      }
+
+      await askTaskEditConfirm(ctx, user, task, { title });
+      return;
+    }
+
+    // Тот же разбор, что и при добавлении задачи, в поясе пользователя
+    const { deadline } = parseDeadline(text, user.timezone);
+    if (!deadline) {
+      await ctx.reply(messages.taskEditDeadlineNotRecognized, { format: 'markdown' });
+      return;
+    }
+
+    await askTaskEditConfirm(ctx, user, task, { deadline: deadline.toISOString() });
+  } catch (error) {
+    console.error('Error in handleTaskEditInput:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+export async function handleTaskEditClearDeadline(ctx: Context, taskId: string): Promise<void> {
+  try {
+    const task = await getOwnTask(ctx, taskId);
+    if (!task) return;
+
+    if (task.recurrence) {
+      await ctx.answerOnCallback({ notification: messages.taskEditDeadlineRequired });
+      return;
+    }
+
+    const user = await db.getUser(task.userId);
+    if (!user) return;
+
+    await askTaskEditConfirm(ctx, user, task, { deadline: null });
+  } catch (error) {
+    console.error('Error in handleTaskEditClearDeadline:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+export async function handleTaskEditConfirm(ctx: Context, taskId: string): Promise<void> {
+  try {
+    const task = await getOwnTask(ctx, taskId);
+    if (!task) return;
+
+    // Подтверждать можно только то изменение, которое сейчас ждёт в состоянии
+    const botState = await db.getBotState(task.userId);
+    if (botState?.state !== 'confirming_task_edit' || botState.data?.taskId !== taskId) {
+      await ctx.answerOnCallback({ notification: messages.taskEditExpired });
+      return;
+    }
+
+    const change: TaskEditChange = botState.data.change;
+    const updates: Partial<Task> = {};
+    if (change.title !== undefined) {
+      updates.title = change.title;
+    }
+    if (change.deadline !== undefined) {
+      updates.deadline = change.deadline ? new Date(change.deadline) : undefined;
+    }
+
+    try {
+      await taskService.updateTask(taskId, updates);
+    } catch (error) {
+      // Пока ждали подтверждения, задачу могли сделать повторяющейся
+      if (!(error instanceof TaskRecurrenceError)) throw error;
+      await db.clearBotState(task.userId);
+      await ctx.answerOnCallback({ notification: messages.taskEditDeadlineRequired });
+      return;
+    }
+    await db.clearBotState(task.userId);
+
+    await handleTaskView(ctx, taskId);
+  } catch (error) {
+    console.error('Error in handleTaskEditConfirm:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+export async function handleTaskPriority(ctx: Context, taskId: string, priority: number): Promise<void> {
+  try {
+    const task = await getOwnTask(ctx, taskId);
+    if (!task) return;
+
+    if (priority !== (task.priority || TaskPriority.NONE)) {
+      await taskService.updateTask(taskId, { priority });
+    }
+
+    // Перерисовываем карточку задачи с новым приоритетом
+    await handleTaskView(ctx, taskId);
+  } catch (error) {
+    console.error('Error in handleTaskPriority:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
+export async function handleTaskMatrix(ctx: Context): Promise<void> {
+  try {
+    const userId = ctx.user?.user_id || ctx.callback?.user?.user_id;
+    const user = userId ? await db.getUserByMaxId(String(userId)) : undefined;
+    if (!user) {
+      if (ctx.callback) {
+        await ctx.answerOnCallback({ notification: 'Пользователь не найден. Отправьте /start' });
+      } else {
+        await ctx.reply('Пользователь не найден. Отправьте /start');
+      }
+      return;
+    }
+
+    const matrix = await taskService.getTaskMatrix(user.id);
+    const text = messages.taskMatrix(matrix, taskService.urgentHours);
+    const replyOptions = {
+      attachments: [getTaskMatrixKeyboard()],
+      format: 'markdown' as const
+    };
+
+    if (ctx.callback) {
+      await ctx.answerOnCallback({ message: { text, ...replyOptions } });
+    } else {
+      await ctx.reply(text, replyOptions);
+    }
+  } catch (error) {
+    console.error('Error in handleTaskMatrix:', error);
+    await ctx.reply(messages.error);
+  }
+}
+
 export async function handleTaskSplitCount(
   ctx: Context,
   taskId: string,
@@ -416,7 +867,14 @@ export async function handleSubtaskNameInput(ctx: Context, text: string): Promis
     if (!botState || botState.state !== 'naming_subtasks') return;
 
     const { taskId, count, subtasks } = botState.data;
-    subtasks.push(text.trim());
+    try {
+      subtasks.push(taskService.validateTitle(text));
+    } catch (error) {
+      if (!(error instanceof TaskUpdateError)) throw error;
+      // Состояние не меняем: ждём это же название ещё раз
+      await ctx.reply(messages.taskTitleInvalid(MIN_TITLE_LENGTH, MAX_TITLE_LENGTH));
+      return;
+    }
 
     if (subtasks.length < count) {
       // Запрашиваем следующую подзадачу
@@ -450,7 +908,7 @@ export async function handleSubtaskNameInput(ctx: Context, text: string): Promis
       await db.clearBotState(user.id);
 
       let resultText = `✅ *Задача разбита!*\n\n`;
-      resultText += `Оригинальная: ~~${originalTask.title}~~\n\n`;
+      resultText += `Задача: *${originalTask.title}* — закроется сама, когда будут готовы все подзадачи\n\n`;
       resultText += `Создано ${count} подзадач:\n`;
       createdSubtasks.forEach((st, i) => {
         resultText += `${i + 1}. ${st.title}\n`;
@@ -467,3 +925,153 @@ export async function handleSubtaskNameInput(ctx: Context, text: string): Promis
   }
 }
 
+/**
+ * Срабатывает по задаче планировщика за offsetMinutes до дедлайна
+ */
+export async function handleTaskReminder(taskId: string, offsetMinutes: number): Promise<void> {
+  try {
+    const task = await taskService.getTask(taskId);
+    if (!task || !task.deadline || !taskService.isReminderDue(task, offsetMinutes)) {
+      return;
+    }
+
+    const minutesLeft = Math.max(0, Math.round((task.deadline.getTime() - Date.now()) / 60000));
+
+    await notificationService.sendNotification(
+      task.userId,
+      NotificationType.TASK_REMINDER,
+      messages.taskReminder(task.title, minutesLeft),
+      {
+        attachments: [getTaskReminderKeyboard(task.id)],
+        format: 'markdown'
+      }
+    );
+  } catch (error) {
+    console.error('Error in handleTaskReminder:', error);
+    // Планировщик повторит напоминание; isReminderDue отсечёт устаревшее
+    throw error;
+  }
+}
+
+/**
+ * Задача текущего пользователя; иначе отвечает уведомлением и возвращает undefined
+ */
+async function getOwnTask(ctx: Context, taskId: string): Promise<Task | undefined> {
+  const userId = ctx.user?.user_id || ctx.callback?.user?.user_id;
+  const user = userId ? await db.getUserByMaxId(String(userId)) : undefined;
+  if (!user) {
+    await ctx.answerOnCallback({ notification: 'Пользователь не найден' });
+    return undefined;
+  }
+
+  const task = await taskService.getTask(taskId);
+  if (!task || task.userId !== user.id) {
+    await ctx.answerOnCallback({ notification: messages.taskNotFound });
+    return undefined;
+  }
+
+  return task;
+}
+
+/**
+ * Запоминает изменение в состоянии и показывает «было → станет»
+ */
+async function askTaskEditConfirm(ctx: Context, user: User, task: Task, change: TaskEditChange): Promise<void> {
+  await db.setBotState({
+    userId: user.id,
+    chatId: String(ctx.chatId || user.maxUserId),
+    state: 'confirming_task_edit',
+    data: { taskId: task.id, change },
+    updatedAt: new Date()
+  });
+
+  const formatDeadline = (deadline?: Date | null) =>
+    deadline ? formatLocalDateTime(deadline, user.timezone) : 'без дедлайна';
+
+  const text = change.title !== undefined
+    ? messages.taskEditConfirm('📝 Название', task.title, change.title)
+    : messages.taskEditConfirm(
+      '📅 Дедлайн',
+      formatDeadline(task.deadline),
+      formatDeadline(change.deadline ? new Date(change.deadline) : null)
+    );
+
+  const replyOptions = {
+    attachments: [getTaskEditConfirmKeyboard(task.id)],
+    format: 'markdown' as const
+  };
+
+  if (ctx.callback) {
+    await ctx.answerOnCallback({ message: { text, ...replyOptions } });
+  } else {
+    await ctx.reply(text, replyOptions);
+  }
+}
+
+/**
+ * Показывает страницу результатов поиска. false — запрос не прошёл проверку.
+ */
+async function renderTaskSearch(ctx: Context, userId: string, query: string, page: number): Promise<boolean> {
+  let tasks: Task[];
+  try {
+    tasks = await taskService.searchTasks(userId, query);
+  } catch (error) {
+    if (!(error instanceof TaskSearchError)) throw error;
+
+    const text = messages.taskSearchInvalid(MIN_SEARCH_LENGTH, MAX_SEARCH_LENGTH);
+    if (ctx.callback) {
+      await ctx.answerOnCallback({ notification: text });
+    } else {
+      await ctx.reply(text);
+    }
+    return false;
+  }
+
+  const normalized = query.replace(/\s+/g, ' ').trim();
+  const totalPages = Math.ceil(tasks.length / 5);
+  const currentPage = Math.min(page, Math.max(totalPages - 1, 0));
+  const text = messages.taskSearchResults(normalized, tasks.length);
+  const replyOptions = {
+    attachments: [getTaskListKeyboard(tasks, currentPage, totalPages, `search:${normalized}`)],
+    format: 'markdown' as const
+  };
+
+  if (ctx.callback) {
+    await ctx.answerOnCallback({ message: { text, ...replyOptions } });
+  } else {
+    await ctx.reply(text, replyOptions);
+  }
+  return true;
+}
+
+/**
+ * Фильтр списка задач из payload кнопки ("tag:работа", "project:<id>")
+ * или текста команды ("/tasks #работа", "/tasks @Клиент")
+ */
+async function resolveTaskFilter(
+  userId: string,
+  source?: string
+): Promise<{ filter: TaskFilter; label?: string; payload?: string }> {
+  if (!source) return { filter: {} };
+
+  const tag = source.match(/^tag:(.+)$/)?.[1] || source.match(/(?<=^|\s)#(\S+)/u)?.[1];
+  if (tag) {
+    const name = tag.toLowerCase();
+    return { filter: { tag: name }, label: `#${name}`, payload: `tag:${name}` };
+  }
+
+  const projectId = source.match(/^project:(.+)$/)?.[1];
+  const projectName = source.match(/(?<=^|\s)@(\S+)/u)?.[1];
+  if (projectId || projectName) {
+    const projects = await taskService.getUserProjects(userId);
+    const project = projects.find(p => projectId
+      ? p.id === projectId
+      : p.name.toLowerCase() === (projectName as string).toLowerCase());
+
+    // Неизвестный проект — пустой список с подписью, а не все задачи
+    if (!project) return { filter: { projectId: projectId || '-' }, label: `@${projectName || '?'}` };
+    return { filter: { projectId: project.id }, label: `@${project.name}`, payload: `project:${project.id}` };
+  }
+
+  return { filter: {} };
+}
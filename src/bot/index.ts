@@ -5,6 +5,8 @@
 import { Bot } from '@maxhub/max-bot-api';
 import { db } from '../storage';
 import { notificationService } from '../services/notifications';
+import { schedulerService } from '../services/scheduler';
+import { ScheduledJobType } from '../types';
 import {
   handleStart,
   handleBackToMenu,
@@ -15,12 +17,38 @@ import {
   handleTaskView,
   handleTaskAction,
   handleTaskSplitCount,
+  handleTaskRepeat,
+  handleTaskRepeatSet,
+  handleTaskRepeatStop,
+  handleTaskPriority,
+  handleTaskEdit,
+  handleTaskEditField,
+  handleTaskEditInput,
+  handleTaskEditClearDeadline,
+  handleTaskEditConfirm,
+  handleTaskMatrix,
+  handleTaskFilters,
+  handleTaskSearch,
+  handleFindCommand,
+  handleTaskSearchInput,
   handleSubtaskNameInput,
+  handleTaskReminder,
   handleFocusDurationSelect,
   handleFocusStart,
+  handleFocusTaskSelect,
+  handleFocusCustom,
+  handleFocusDurationInput,
   handleSessionCancel,
   handleSessionStatus,
   handleSessionComplete,
+  handlePomodoroTimeout,
+  handlePomodoroAutoResume,
+  handleSessionProgress,
+  handleSessionPause,
+  handleSessionResume,
+  handleSessionExtend,
+  handleBreakStart,
+  handleBreakSkip,
   handleCreatePod,
   handlePodDuration,
   handlePodStart,
@@ -32,6 +60,18 @@ import {
   handlePodCodeInput,
   handleProfile,
   handleAchievements,
+  handleCoinHistory,
+  handleEstimateAccuracy,
+  handleTimezone,
+  handleSetTimezone,
+  handleTimezoneInput,
+  handleNotificationSettings,
+  handleNotificationMute,
+  handleNotificationToggle,
+  handleNotificationTime,
+  handleQuietHours,
+  handleNotificationTimeInput,
+  handleQuietHoursInput,
   handleStats,
   handleHelp
 } from './handlers';
@@ -46,10 +86,26 @@ export function createBot(token: string): Bot {
   // Инициализируем сервис уведомлений
   notificationService.initialize(bot);
 
+  // Обработчики отложенных задач планировщика
+  schedulerService.registerHandler(ScheduledJobType.POMODORO_END, async (job) => {
+    await handlePomodoroTimeout(job.payload.sessionId);
+  });
+  schedulerService.registerHandler(ScheduledJobType.POMODORO_RESUME, async (job) => {
+    await handlePomodoroAutoResume(job.payload.sessionId);
+  });
+  schedulerService.registerHandler(ScheduledJobType.POMODORO_PROGRESS, async (job) => {
+    await handleSessionProgress(job.payload.sessionId);
+  });
+  schedulerService.registerHandler(ScheduledJobType.TASK_REMINDER, async (job) => {
+    await handleTaskReminder(job.payload.taskId, job.payload.offsetMinutes);
+  });
+
   // Устанавливаем команды
   bot.api.setMyCommands([
     { name: 'start', description: 'Главное меню' },
     { name: 'tasks', description: 'Мои задачи' },
+    { name: 'find', description: 'Поиск задач' },
+    { name: 'matrix', description: 'Матрица Эйзенхауэра' },
     { name: 'focus', description: 'Запустить Pomodoro 25 минут' },
     { name: 'pod', description: 'Создать фокус-Pod' },
     { name: 'join', description: 'Присоединиться к Pod по коду' },
@@ -79,6 +135,22 @@ export function createBot(token: string): Bot {
     }
   });
   
+  bot.command('find', async (ctx) => {
+    try {
+      await handleFindCommand(ctx);
+    } catch (error) {
+      await ctx.reply(messages.error);
+    }
+  });
+
+  bot.command('matrix', async (ctx) => {
+    try {
+      await handleTaskMatrix(ctx);
+    } catch (error) {
+      await ctx.reply(messages.error);
+    }
+  });
+
   bot.command('focus', async (ctx) => {
     try {
       await handleFocusDurationSelect(ctx);
@@ -130,10 +202,17 @@ export function createBot(token: string): Bot {
 
   // Задачи
   bot.action('action:add_task', handleAddTask);
-  bot.action('action:my_tasks', handleMyTasks);
-  bot.action(/^task_page:(\d+)$/, async (ctx) => {
+  bot.action('action:my_tasks', (ctx) => handleMyTasks(ctx));
+  bot.action('action:task_matrix', handleTaskMatrix);
+  bot.action('action:task_filters', handleTaskFilters);
+  bot.action('action:task_search', handleTaskSearch);
+  bot.action(/^task_filter:(.+)$/, async (ctx) => {
+    const filter = ctx.match?.[1];
+    if (filter) await handleMyTasks(ctx, filter);
+  });
+  bot.action(/^task_page:(\d+)(?::(.+))?$/, async (ctx) => {
     const page = parseInt(ctx.match?.[1] || '0');
-    await handleTaskPage(ctx, page);
+    await handleTaskPage(ctx, page, ctx.match?.[2]);
   });
   bot.action(/^task_view:(.+)$/, async (ctx) => {
     const taskId = ctx.match?.[1];
@@ -149,17 +228,85 @@ export function createBot(token: string): Bot {
     const count = parseInt(ctx.match?.[2] || '2');
     if (taskId) await handleTaskSplitCount(ctx, taskId, count);
   });
+  bot.action(/^task_repeat:(.+)$/, async (ctx) => {
+    const taskId = ctx.match?.[1];
+    if (taskId) await handleTaskRepeat(ctx, taskId);
+  });
+  bot.action(/^task_repeat_set:(.+):(\w+)$/, async (ctx) => {
+    const taskId = ctx.match?.[1];
+    const preset = ctx.match?.[2];
+    if (taskId && preset) await handleTaskRepeatSet(ctx, taskId, preset);
+  });
+  bot.action(/^task_priority:(.+):([0-3])$/, async (ctx) => {
+    const taskId = ctx.match?.[1];
+    const priority = parseInt(ctx.match?.[2] || '0', 10);
+    if (taskId) await handleTaskPriority(ctx, taskId, priority);
+  });
+  bot.action(/^task_repeat_stop:(.+)$/, async (ctx) => {
+    const taskId = ctx.match?.[1];
+    if (taskId) await handleTaskRepeatStop(ctx, taskId);
+  });
+  bot.action(/^task_edit:(.+)$/, async (ctx) => {
+    const taskId = ctx.match?.[1];
+    if (taskId) await handleTaskEdit(ctx, taskId);
+  });
+  bot.action(/^task_edit_field:(.+):(title|deadline)$/, async (ctx) => {
+    const taskId = ctx.match?.[1];
+    const field = ctx.match?.[2] as 'title' | 'deadline' | undefined;
+    if (taskId && field) await handleTaskEditField(ctx, taskId, field);
+  });
+  bot.action(/^task_edit_clear_deadline:(.+)$/, async (ctx) => {
+    const taskId = ctx.match?.[1];
+    if (taskId) await handleTaskEditClearDeadline(ctx, taskId);
+  });
+  bot.action(/^task_edit_confirm:(.+)$/, async (ctx) => {
+    const taskId = ctx.match?.[1];
+    if (taskId) await handleTaskEditConfirm(ctx, taskId);
+  });
 
   // Pomodoro
-  bot.action('action:focus_duration', handleFocusDurationSelect);
+  bot.action('action:focus_duration', (ctx) => handleFocusDurationSelect(ctx));
+  bot.action(/^task_focus:(.+)$/, async (ctx) => {
+    const taskId = ctx.match?.[1];
+    if (taskId) await handleFocusDurationSelect(ctx, taskId);
+  });
+  bot.action('focus_custom', (ctx) => handleFocusCustom(ctx));
+  bot.action(/^focus_custom:(.+)$/, async (ctx) => {
+    const taskId = ctx.match?.[1];
+    if (taskId) await handleFocusCustom(ctx, taskId);
+  });
   bot.action(/^focus_duration:(\d+)$/, async (ctx) => {
     const duration = parseInt(ctx.match?.[1] || '25');
-    await handleFocusStart(ctx, duration);
+    await handleFocusTaskSelect(ctx, duration);
+  });
+  // Задача выбрана (или явно "none" — без задачи)
+  bot.action(/^focus_duration:(\d+):(.+)$/, async (ctx) => {
+    const duration = parseInt(ctx.match?.[1] || '25');
+    const taskId = ctx.match?.[2];
+    await handleFocusStart(ctx, duration, taskId === 'none' ? undefined : taskId);
   });
   bot.action(/^session_cancel:(.+)$/, async (ctx) => {
     const sessionId = ctx.match?.[1];
     if (sessionId) await handleSessionCancel(ctx, sessionId);
   });
+  bot.action(/^session_pause:(.+)$/, async (ctx) => {
+    const sessionId = ctx.match?.[1];
+    if (sessionId) await handleSessionPause(ctx, sessionId);
+  });
+  bot.action(/^session_resume:(.+)$/, async (ctx) => {
+    const sessionId = ctx.match?.[1];
+    if (sessionId) await handleSessionResume(ctx, sessionId);
+  });
+  bot.action(/^session_extend:(.+):(\d+)$/, async (ctx) => {
+    const sessionId = ctx.match?.[1];
+    const minutes = parseInt(ctx.match?.[2] || '0', 10);
+    if (sessionId && minutes) await handleSessionExtend(ctx, sessionId, minutes);
+  });
+  bot.action('break_start', handleBreakStart);
+  bot.action(/^break_skip:(.+)$/, async (ctx) => {
+    const sessionId = ctx.match?.[1];
+    if (sessionId) await handleBreakSkip(ctx, sessionId);
+  });
   bot.action(/^session_status:(.+)$/, async (ctx) => {
     const sessionId = ctx.match?.[1];
     if (sessionId) await handleSessionStatus(ctx, sessionId);
@@ -201,8 +348,28 @@ export function createBot(token: string): Bot {
   // Профиль
   bot.action('action:profile', handleProfile);
   bot.action('action:achievements', handleAchievements);
+  bot.action('action:coin_history', handleCoinHistory);
+  bot.action('action:estimate_accuracy', handleEstimateAccuracy);
+  bot.action('action:timezone', handleTimezone);
+  bot.action(/^set_timezone:(.+)$/, async (ctx) => {
+    const timezone = ctx.match?.[1];
+    if (timezone) await handleSetTimezone(ctx, timezone);
+  });
   bot.action('action:stats', handleStats);
 
+  // Настройки уведомлений
+  bot.action('action:notification_settings', handleNotificationSettings);
+  bot.action('notif_mute', handleNotificationMute);
+  bot.action(/^notif_toggle:(.+)$/, async (ctx) => {
+    const type = ctx.match?.[1];
+    if (type) await handleNotificationToggle(ctx, type);
+  });
+  bot.action(/^notif_time:(.+)$/, async (ctx) => {
+    const type = ctx.match?.[1];
+    if (type) await handleNotificationTime(ctx, type);
+  });
+  bot.action('notif_quiet', handleQuietHours);
+
   // === ОБРАБОТКА ТЕКСТОВЫХ СООБЩЕНИЙ ===
 
   bot.on('message_created', async (ctx) => {
@@ -232,9 +399,34 @@ export function createBot(token: string): Bot {
             await handlePodCodeInput(ctx, text);
             return;
           
+          case 'awaiting_task_search':
+            await handleTaskSearchInput(ctx, text);
+            return;
+
+          case 'editing_task_title':
+          case 'editing_task_deadline':
+            await handleTaskEditInput(ctx, text);
+            return;
+
           case 'naming_subtasks':
             await handleSubtaskNameInput(ctx, text);
             return;
+
+          case 'awaiting_timezone':
+            await handleTimezoneInput(ctx, text);
+            return;
+
+          case 'awaiting_focus_duration':
+            await handleFocusDurationInput(ctx, text);
+            return;
+
+          case 'awaiting_notification_time':
+            await handleNotificationTimeInput(ctx, text);
+            return;
+
+          case 'awaiting_quiet_hours':
+            await handleQuietHoursInput(ctx, text);
+            return;
         }
       }
     } catch (error) {
@@ -3,6 +3,11 @@
  */
 
 import { Keyboard } from '@maxhub/max-bot-api';
+import { NotificationSettings, NotificationType, Task, TaskPriority, Project, Tag } from '../types';
+import { notificationTypeLabels } from './messages';
+import { formatDuration } from '../utils/duration';
+import { EXTENSION_STEPS } from '../services/pomodoro';
+import { PRIORITY_MARKERS } from '../services/tasks';
 
 /**
  * Главное меню
@@ -45,30 +50,94 @@ export function getPodDurationKeyboard() {
 /**
  * Клавиатура выбора длительности Pomodoro
  */
-export function getFocusDurationKeyboard() {
+export function getFocusDurationKeyboard(recentDurations: number[] = [], taskId?: string, devMode = false) {
+  const presets = [1, 2, 25, 50];
+  const recent = recentDurations.filter(duration => !presets.includes(duration));
+  // Для фокуса на задаче задача едет в payload, и выбор задачи пропускается
+  const suffix = taskId ? `:${taskId}` : '';
+
   return Keyboard.inlineKeyboard([
+    // Тестовые сессии идут в песочнице и к задаче не привязываются
+    ...(devMode && !taskId
+      ? [[
+        Keyboard.button.callback('⚡ 1 мин (тест)', 'focus_duration:1'),
+        Keyboard.button.callback('🔥 2 мин (тест)', 'focus_duration:2')
+      ]]
+      : []),
     [
-      Keyboard.button.callback('⚡ 1 мин (тест)', 'focus_duration:1'),
-      Keyboard.button.callback('🔥 2 мин (тест)', 'focus_duration:2')
-    ],
-    [
-      Keyboard.button.callback('💪 25 мин', 'focus_duration:25'),
-      Keyboard.button.callback('🚀 50 мин', 'focus_duration:50')
+      Keyboard.button.callback('💪 25 мин', `focus_duration:25${suffix}`),
+      Keyboard.button.callback('🚀 50 мин', `focus_duration:50${suffix}`)
     ],
-    [Keyboard.button.callback('⬅️ Назад', 'action:back_to_menu')]
+    ...(recent.length > 0
+      ? [recent.map(duration => Keyboard.button.callback(`🕘 ${formatDuration(duration)}`, `focus_duration:${duration}${suffix}`))]
+      : []),
+    [Keyboard.button.callback('✏️ Своё время', `focus_custom${suffix}`)],
+    [Keyboard.button.callback('⬅️ Назад', taskId ? `task_view:${taskId}` : 'action:back_to_menu')]
+  ]);
+}
+
+/**
+ * Выбор задачи для фокуса после выбора длительности
+ */
+export function getFocusTaskKeyboard(duration: number, tasks: Task[]) {
+  return Keyboard.inlineKeyboard([
+    ...tasks.slice(0, 5).map(task => [
+      Keyboard.button.callback(
+        `📌 ${task.title.length > 35 ? task.title.substring(0, 32) + '...' : task.title}`,
+        `focus_duration:${duration}:${task.id}`
+      )
+    ]),
+    [Keyboard.button.callback('🚀 Без задачи', `focus_duration:${duration}:none`)],
+    [Keyboard.button.callback('⬅️ Назад', 'action:focus_duration')]
   ]);
 }
 
 /**
  * Клавиатура Pomodoro сессии
  */
-export function getPomodoroKeyboard(sessionId: string) {
+export function getPomodoroKeyboard(sessionId: string, paused = false) {
   return Keyboard.inlineKeyboard([
     [
       Keyboard.button.callback('⏱️ Статус', `session_status:${sessionId}`),
       Keyboard.button.callback('✅ Завершить', `session_complete:${sessionId}:completed`)
     ],
-    [Keyboard.button.callback('❌ Отменить', `session_cancel:${sessionId}`)],
+    [
+      paused
+        ? Keyboard.button.callback('▶️ Продолжить', `session_resume:${sessionId}`)
+        : Keyboard.button.callback('⏸️ Пауза', `session_pause:${sessionId}`),
+      Keyboard.button.callback('❌ Отменить', `session_cancel:${sessionId}`)
+    ],
+    getExtensionRow(sessionId),
+    [Keyboard.button.callback('⬅️ В меню', 'action:back_to_menu')]
+  ]);
+}
+
+/**
+ * Кнопки продления сессии "+N мин"
+ */
+function getExtensionRow(sessionId: string) {
+  return EXTENSION_STEPS.map(minutes =>
+    Keyboard.button.callback(`+${minutes} мин`, `session_extend:${sessionId}:${minutes}`)
+  );
+}
+
+/**
+ * Клавиатура идущего перерыва
+ */
+export function getBreakKeyboard(sessionId: string) {
+  return Keyboard.inlineKeyboard([
+    [Keyboard.button.callback('⏭️ Пропустить перерыв', `break_skip:${sessionId}`)],
+    [Keyboard.button.callback('⬅️ В меню', 'action:back_to_menu')]
+  ]);
+}
+
+/**
+ * Предложение перерыва после фокус-блока
+ */
+export function getBreakOfferKeyboard(isLong: boolean, duration: number) {
+  return Keyboard.inlineKeyboard([
+    [Keyboard.button.callback(`${isLong ? '🌴' : '☕'} Перерыв ${duration} мин`, 'break_start')],
+    [Keyboard.button.callback('⏱️ Ещё фокус', 'action:focus_duration')],
     [Keyboard.button.callback('⬅️ В меню', 'action:back_to_menu')]
   ]);
 }
@@ -78,6 +147,7 @@ export function getPomodoroKeyboard(sessionId: string) {
  */
 export function getPomodoroCompleteKeyboard(sessionId: string) {
   return Keyboard.inlineKeyboard([
+    getExtensionRow(sessionId),
     [
       Keyboard.button.callback('✅ Выполнил', `session_complete:${sessionId}:completed`),
       Keyboard.button.callback('✂️ Распилил', `session_complete:${sessionId}:split`)
@@ -125,7 +195,15 @@ export function getActivePodKeyboard(podId: string) {
 /**
  * Клавиатура выбора действия после задачи
  */
-export function getTaskActionKeyboard(taskId: string) {
+export function getTaskActionKeyboard(task: Task) {
+  const MAX_SUBTASK_BUTTONS = 5;
+  const taskId = task.id;
+  const priority = task.priority || TaskPriority.NONE;
+  const priorityButton = (level: TaskPriority, label: string) => Keyboard.button.callback(
+    `${level === priority ? '✓ ' : ''}${label}`,
+    `task_priority:${taskId}:${level}`
+  );
+
   return Keyboard.inlineKeyboard([
     [
       Keyboard.button.callback('✅ Выполнить', `task_action:${taskId}:complete`),
@@ -135,15 +213,131 @@ export function getTaskActionKeyboard(taskId: string) {
       Keyboard.button.callback('⏸️ Отложить', `task_action:${taskId}:postpone`),
       Keyboard.button.callback('🗑️ Удалить', `task_action:${taskId}:delete`)
     ],
+    [
+      priorityButton(TaskPriority.NONE, '⚪'),
+      priorityButton(TaskPriority.LOW, `${PRIORITY_MARKERS[TaskPriority.LOW]} !`),
+      priorityButton(TaskPriority.MEDIUM, `${PRIORITY_MARKERS[TaskPriority.MEDIUM]} !!`),
+      priorityButton(TaskPriority.HIGH, `${PRIORITY_MARKERS[TaskPriority.HIGH]} !!!`)
+    ],
+    [Keyboard.button.callback('🍅 Фокус на задаче', `task_focus:${taskId}`)],
+    [
+      Keyboard.button.callback('✏️ Изменить', `task_edit:${taskId}`),
+      task.recurrence
+        ? Keyboard.button.callback('⏹ Остановить повтор', `task_repeat_stop:${taskId}`)
+        : Keyboard.button.callback('🔁 Повторять', `task_repeat:${taskId}`)
+    ],
+    // Переход по дереву: открытые подзадачи можно разбить дальше
+    ...(task.subtasks || [])
+      .filter(subtask => !subtask.completed)
+      .slice(0, MAX_SUBTASK_BUTTONS)
+      .map(subtask => [Keyboard.button.callback(
+        `↳ ${subtask.title}${subtask.progress ? ` ${subtask.progress.completed}/${subtask.progress.total}` : ''}`,
+        `task_view:${subtask.id}`
+      )]),
+    ...(task.parentTaskId
+      ? [[Keyboard.button.callback('⬆️ К родительской', `task_view:${task.parentTaskId}`)]]
+      : []),
     [Keyboard.button.callback('⬅️ Назад', 'action:my_tasks')]
   ]);
 }
 
+/**
+ * Что изменить в задаче: название или дедлайн
+ */
+export function getTaskEditKeyboard(task: Task) {
+  const buttons: any[] = [[
+    Keyboard.button.callback('📝 Название', `task_edit_field:${task.id}:title`),
+    Keyboard.button.callback('📅 Дедлайн', `task_edit_field:${task.id}:deadline`)
+  ]];
+
+  // У повторяющейся задачи дедлайн обязателен: от него считается следующее вхождение
+  if (task.deadline && !task.recurrence) {
+    buttons.push([Keyboard.button.callback('🚫 Убрать дедлайн', `task_edit_clear_deadline:${task.id}`)]);
+  }
+
+  buttons.push([Keyboard.button.callback('⬅️ К задаче', `task_view:${task.id}`)]);
+
+  return Keyboard.inlineKeyboard(buttons);
+}
+
+/**
+ * Подтверждение изменения задачи; отмена возвращает к выбору поля
+ */
+export function getTaskEditConfirmKeyboard(taskId: string) {
+  return Keyboard.inlineKeyboard([[
+    Keyboard.button.callback('✅ Сохранить', `task_edit_confirm:${taskId}`),
+    Keyboard.button.callback('✖️ Отмена', `task_edit:${taskId}`)
+  ]]);
+}
+
+/**
+ * Отмена ввода нового значения
+ */
+export function getTaskEditCancelKeyboard(taskId: string) {
+  return Keyboard.inlineKeyboard([
+    [Keyboard.button.callback('✖️ Отмена', `task_edit:${taskId}`)]
+  ]);
+}
+
+/**
+ * Выбор правила повтора задачи
+ */
+export function getTaskRepeatKeyboard(taskId: string) {
+  return Keyboard.inlineKeyboard([
+    [
+      Keyboard.button.callback('Каждый день', `task_repeat_set:${taskId}:daily`),
+      Keyboard.button.callback('Через день', `task_repeat_set:${taskId}:every_other_day`)
+    ],
+    [
+      Keyboard.button.callback('По будням', `task_repeat_set:${taskId}:weekdays`),
+      Keyboard.button.callback('Каждую неделю', `task_repeat_set:${taskId}:weekly`)
+    ],
+    [Keyboard.button.callback('Каждый месяц', `task_repeat_set:${taskId}:monthly`)],
+    [Keyboard.button.callback('⬅️ Назад', `task_view:${taskId}`)]
+  ]);
+}
+
+/**
+ * Выбор количества подзадач при декомпозиции
+ */
+export function getTaskSplitCountKeyboard(taskId: string) {
+  return Keyboard.inlineKeyboard([
+    [
+      Keyboard.button.callback('2', `task_split_count:${taskId}:2`),
+      Keyboard.button.callback('3', `task_split_count:${taskId}:3`),
+      Keyboard.button.callback('4', `task_split_count:${taskId}:4`),
+      Keyboard.button.callback('5', `task_split_count:${taskId}:5`)
+    ],
+    [Keyboard.button.callback('❌ Отмена', 'action:my_tasks')]
+  ]);
+}
+
+/**
+ * Клавиатура напоминания о дедлайне
+ */
+export function getTaskReminderKeyboard(taskId: string) {
+  return Keyboard.inlineKeyboard([
+    [
+      Keyboard.button.callback('✅ Выполнить', `task_action:${taskId}:complete`),
+      Keyboard.button.callback('⏸️ Отложить', `task_action:${taskId}:postpone`)
+    ],
+    [Keyboard.button.callback('🍅 Начать фокус', `task_focus:${taskId}`)],
+    [Keyboard.button.callback('📋 Открыть задачу', `task_view:${taskId}`)]
+  ]);
+}
+
 /**
  * Клавиатура списка задач с названиями на кнопках
  */
-export function getTaskListKeyboard(tasks: any[], currentPage: number = 0, totalPages: number = 1) {
+export function getTaskListKeyboard(
+  tasks: any[],
+  currentPage: number = 0,
+  totalPages: number = 1,
+  filterPayload?: string
+) {
   const buttons: any[] = [];
+  // Фильтр едет в payload пагинации, чтобы листать отфильтрованный список
+  const filterSuffix = filterPayload ? `:${filterPayload}` : '';
 
   // Кнопки для каждой задачи (максимум 5 на страницу)
   const TASKS_PER_PAGE = 5;
@@ -152,18 +346,24 @@ export function getTaskListKeyboard(tasks: any[], currentPage: number = 0, total
   const pageTasks = tasks.slice(startIdx, endIdx);
   
   pageTasks.forEach(task => {
+    // Прогресс подзадач "2/5" не должен обрезаться вместе с названием
+    const progress = task.progress ? ` ${task.progress.completed}/${task.progress.total}` : '';
+    const maxLength = 35 - progress.length;
+
     // Обрезаем длинные названия до 35 символов (лимит MAX кнопок)
-    let taskName = task.title.length > 35
-      ? task.title.substring(0, 32) + '...'
+    let taskName = task.title.length > maxLength
+      ? task.title.substring(0, maxLength - 3) + '...'
       : task.title;
+    taskName += progress;
     
     // Добавляем эмодзи в зависимости от статуса
-    const emoji = task.completed ? '✅' : (task.deadline ? '⏰' : '📌');
+    const emoji = task.completed ? '✅' : task.recurrence ? '🔁' : (task.deadline ? '⏰' : '📌');
     const prefix = task.parentTaskId ? '↳ ' : '';
+    const marker = task.priority ? `${PRIORITY_MARKERS[task.priority as TaskPriority]} ` : '';
     
     buttons.push([
       Keyboard.button.callback(
-        `${emoji} ${prefix}${taskName}`,
+        `${emoji} ${marker}${prefix}${taskName}`,
         `task_view:${task.id}`
       )
     ]);
@@ -173,23 +373,69 @@ export function getTaskListKeyboard(tasks: any[], currentPage: number = 0, total
   if (totalPages > 1) {
     const paginationRow = [];
     if (currentPage > 0) {
-      paginationRow.push(Keyboard.button.callback('◀️ Назад', `task_page:${currentPage - 1}`));
+      paginationRow.push(Keyboard.button.callback('◀️ Назад', `task_page:${currentPage - 1}${filterSuffix}`));
     }
-    paginationRow.push(Keyboard.button.callback(`📄 ${currentPage + 1}/${totalPages}`, `task_page:${currentPage}`));
+    paginationRow.push(Keyboard.button.callback(
+      `📄 ${currentPage + 1}/${totalPages}`,
+      `task_page:${currentPage}${filterSuffix}`
+    ));
     if (currentPage < totalPages - 1) {
-      paginationRow.push(Keyboard.button.callback('Вперёд ▶️', `task_page:${currentPage + 1}`));
+      paginationRow.push(Keyboard.button.callback('Вперёд ▶️', `task_page:${currentPage + 1}${filterSuffix}`));
     }
     buttons.push(paginationRow);
   }
 
   buttons.push([
     Keyboard.button.callback('➕ Задача', 'action:add_task'),
-    Keyboard.button.callback('⬅️ Меню', 'action:back_to_menu')
+    Keyboard.button.callback('🔍 Поиск', 'action:task_search')
   ]);
+  buttons.push([
+    Keyboard.button.callback('🧭 Матрица', 'action:task_matrix'),
+    filterPayload
+      ? Keyboard.button.callback('✖️ Сбросить фильтр', 'action:my_tasks')
+      : Keyboard.button.callback('🏷 Фильтр', 'action:task_filters')
+  ]);
+  buttons.push([Keyboard.button.callback('⬅️ Меню', 'action:back_to_menu')]);
 
   return Keyboard.inlineKeyboard(buttons);
 }
 
+/**
+ * Выбор проекта или тега для фильтра списка задач
+ */
+export function getTaskFilterKeyboard(projects: Project[], tags: Tag[]) {
+  const MAX_OPTIONS = 10;
+  const buttons: any[] = [];
+
+  const options = [
+    ...projects.slice(0, MAX_OPTIONS).map(project =>
+      Keyboard.button.callback(`📁 ${project.name}`, `task_filter:project:${project.id}`)),
+    ...tags.slice(0, MAX_OPTIONS).map(tag =>
+      Keyboard.button.callback(`#${tag.name}`, `task_filter:tag:${tag.name}`))
+  ];
+
+  for (let i = 0; i < options.length; i += 2) {
+    buttons.push(options.slice(i, i + 2));
+  }
+
+  buttons.push([Keyboard.button.callback('⬅️ Все задачи', 'action:my_tasks')]);
+
+  return Keyboard.inlineKeyboard(buttons);
+}
+
+/**
+ * Клавиатура экрана матрицы Эйзенхауэра
+ */
+export function getTaskMatrixKeyboard() {
+  return Keyboard.inlineKeyboard([
+    [
+      Keyboard.button.callback('📋 Список', 'action:my_tasks'),
+      Keyboard.button.callback('➕ Задача', 'action:add_task')
+    ],
+    [Keyboard.button.callback('⬅️ Меню', 'action:back_to_menu')]
+  ]);
+}
+
 /**
  * Клавиатура профиля
  */
@@ -199,6 +445,14 @@ export function getProfileKeyboard() {
       Keyboard.button.callback('🏆 Достижения', 'action:achievements'),
       Keyboard.button.callback('📊 Статистика', 'action:stats')
     ],
+    [
+      Keyboard.button.callback('🪙 История монет', 'action:coin_history'),
+      Keyboard.button.callback('🌍 Часовой пояс', 'action:timezone')
+    ],
+    [
+      Keyboard.button.callback('🎯 Точность оценок', 'action:estimate_accuracy'),
+      Keyboard.button.callback('🔔 Уведомления', 'action:notification_settings')
+    ],
     [Keyboard.button.callback('⬅️ В меню', 'action:back_to_menu')]
   ]);
 }
@@ -212,6 +466,88 @@ export function getAchievementsKeyboard() {
   ]);
 }
 
+/**
+ * Клавиатура выбора часового пояса (популярные пояса России)
+ */
+export function getTimezoneKeyboard() {
+  const zones = [
+    ['Калининград', 'Europe/Kaliningrad'],
+    ['Москва', 'Europe/Moscow'],
+    ['Самара', 'Europe/Samara'],
+    ['Екатеринбург', 'Asia/Yekaterinburg'],
+    ['Омск', 'Asia/Omsk'],
+    ['Новосибирск', 'Asia/Novosibirsk'],
+    ['Иркутск', 'Asia/Irkutsk'],
+    ['Владивосток', 'Asia/Vladivostok']
+  ];
+
+  const buttons: any[] = [];
+  for (let i = 0; i < zones.length; i += 2) {
+    buttons.push(zones.slice(i, i + 2).map(([label, timezone]) =>
+      Keyboard.button.callback(label, `set_timezone:${timezone}`)
+    ));
+  }
+
+  buttons.push([Keyboard.button.callback('⬅️ Назад', 'action:profile')]);
+
+  return Keyboard.inlineKeyboard(buttons);
+}
+
+/**
+ * Клавиатура настроек уведомлений
+ */
+export function getNotificationSettingsKeyboard(settings: NotificationSettings) {
+  // Типы, у которых настраивается время доставки
+  const times: Partial<Record<NotificationType, string>> = {
+    [NotificationType.DAILY_REMINDER]: settings.dailyReminderTime,
+    [NotificationType.STREAK_WARNING]: settings.streakWarningTime,
+    [NotificationType.WEEKLY_STATS]: settings.weeklyStatsTime
+  };
+
+  const buttons: any[] = [[
+    settings.muted
+      ? Keyboard.button.callback('🔔 Включить уведомления', 'notif_mute')
+      : Keyboard.button.callback('🔕 Выключить все', 'notif_mute')
+  ]];
+
+  for (const type of Object.values(NotificationType)) {
+    const enabled = !settings.disabledTypes.includes(type);
+    const row = [
+      Keyboard.button.callback(`${enabled ? '✅' : '🚫'} ${notificationTypeLabels[type]}`, `notif_toggle:${type}`)
+    ];
+
+    const time = times[type];
+    if (time) {
+      row.push(Keyboard.button.callback(`⏰ ${time}`, `notif_time:${type}`));
+    }
+
+    buttons.push(row);
+  }
+
+  buttons.push([Keyboard.button.callback('🌙 Тихие часы', 'notif_quiet')]);
+  buttons.push([Keyboard.button.callback('⬅️ Назад', 'action:profile')]);
+
+  return Keyboard.inlineKeyboard(buttons);
+}
+
+/**
+ * Кнопка возврата в профиль для его подэкранов
+ */
+export function getBackToProfileKeyboard() {
+  return Keyboard.inlineKeyboard([
+    [Keyboard.button.callback('⬅️ Назад', 'action:profile')]
+  ]);
+}
+
+/**
+ * Клавиатура истории FocusCoins
+ */
+export function getCoinHistoryKeyboard() {
+  return Keyboard.inlineKeyboard([
+    [Keyboard.button.callback('⬅️ Назад', 'action:profile')]
+  ]);
+}
+
 /**
  * Простая кнопка "Назад в меню"
  */
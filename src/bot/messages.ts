@@ -2,6 +2,26 @@
  * Шаблоны сообщений бота
  */
 
+import { NotificationSettings, NotificationType, Task, TaskPriority } from '../types';
+import { EstimateAccuracy, EisenhowerQuadrant, TaskMatrix, PRIORITY_MARKERS, ProjectStats } from '../services/tasks';
+import { formatDuration } from '../utils/duration';
+import { RewardDecision, RewardReason } from '../services/rewardPolicy';
+
+/**
+ * Названия типов уведомлений для экрана настроек
+ */
+export const notificationTypeLabels: Record<NotificationType, string> = {
+  [NotificationType.DAILY_REMINDER]: 'Утреннее напоминание',
+  [NotificationType.STREAK_WARNING]: 'Серия в опасности',
+  [NotificationType.WEEKLY_STATS]: 'Итоги недели',
+  [NotificationType.TASK_REMINDER]: 'Дедлайны задач',
+  [NotificationType.SESSION_PROGRESS]: 'Прогресс сессии',
+  [NotificationType.ACHIEVEMENT_UNLOCKED]: 'Достижения',
+  [NotificationType.POD_INVITE]: 'Участники Pod',
+  [NotificationType.POD_STARTED]: 'Старт Pod',
+  [NotificationType.POD_COMPLETED]: 'Завершение Pod'
+};
+
 export const messages = {
   start: `⚡ *MAX Focus Pods*
 
@@ -19,7 +39,9 @@ export const messages = {
 *Доступные команды:*
 
 \`/start\` — Главное меню
-\`/tasks\` — Мои задачи
+\`/tasks\` — Мои задачи (\`/tasks #тег\`, \`/tasks @проект\` — с фильтром)
+\`/find\` — Поиск задач по названию
+\`/matrix\` — Матрица: задачи по важности и срочности
 \`/focus\` — Запустить Pomodoro 25 минут
 \`/pod\` — Создать фокус-Pod
 \`/join <код>\` — Присоединиться к Pod
@@ -63,17 +85,85 @@ Pomodoro таймер на 25/50/90 минут
 • Подготовить презентацию до завтра 15:00
 • Позвонить клиенту через 2 часа
 • Купить продукты сегодня
-
-Я автоматически распознаю дедлайны 📅`,
-
-  taskAdded: (title: string, deadline?: string) => {
+• Сдать отчёт в пятницу 🍅3
+• Планёрка каждый понедельник в 10:00
+
+Я автоматически распознаю дедлайны 📅
+Оценку в помидорах можно указать как \`🍅3\` или \`[3p]\`, приоритет — \`!\`, \`!!\` или \`!!!\`,
+проект — \`@Клиент_А\`, теги — \`#курс\``,
+
+  taskAdded: (
+    title: string,
+    deadline?: string,
+    estimate?: number,
+    recurrence?: string,
+    priority?: TaskPriority,
+    project?: string,
+    tags: string[] = []
+  ) => {
     let msg = `✅ *Задача добавлена!*\n\n📌 ${title}`;
+    if (priority) {
+      msg += ` ${PRIORITY_MARKERS[priority]}`;
+    }
     if (deadline) {
       msg += `\n📅 Дедлайн: ${deadline}`;
     }
+    if (recurrence) {
+      msg += `\n🔁 Повтор: ${recurrence}`;
+    }
+    if (estimate) {
+      msg += `\n🍅 Оценка: ${estimate}`;
+    }
+    if (project) {
+      msg += `\n📁 Проект: ${project}`;
+    }
+    if (tags.length > 0) {
+      msg += `\n🏷 Теги: ${tags.map(tag => `#${tag}`).join(' ')}`;
+    }
     return msg;
   },
 
+  taskListTitle: (count: number, filterLabel?: string) => {
+    if (filterLabel && count === 0) {
+      return `📋 *Мои задачи* · ${filterLabel}\n\nАктивных задач с этим фильтром нет.`;
+    }
+    const filter = filterLabel ? ` · ${filterLabel}` : '';
+    return `📋 *Мои задачи*${filter} (${count})\n↳ Подзадачи отмечены стрелкой\n\nВыбери задачу:`;
+  },
+
+  taskFiltersPrompt: `🏷 *Фильтр задач*\n\nВыбери проект или тег:`,
+
+  taskSearchPrompt: `🔍 *Поиск задач*
+
+Отправь слово или фразу из названия — найду и активные, и выполненные задачи, и подзадачи.
+Можно сразу командой: \`/find отчёт\``,
+
+  taskSearchInvalid: (min: number, max: number) =>
+    `🔍 Запрос должен быть длиной от ${min} до ${max} символов. Попробуй ещё раз.`,
+
+  taskSearchResults: (query: string, count: number) => {
+    if (count === 0) {
+      return `🔍 *Поиск:* «${query}»\n\nНичего не нашлось. Попробуй другое слово или начало слова.`;
+    }
+    return `🔍 *Поиск:* «${query}» (${count})\n✅ — выполненные, ↳ — подзадачи\n\nВыбери задачу:`;
+  },
+
+  taskFiltersEmpty: `🏷 *Фильтр задач*
+
+Пока нет ни проектов, ни тегов. Добавь их в текст задачи:
+• \`@Клиент_А\` — проект
+• \`#курс\`, \`#срочно\` — теги`,
+
+  projectStats: (projects: ProjectStats[]) => {
+    if (projects.length === 0) return '';
+
+    let msg = `\n\n📁 *По проектам* (за всё время):\n`;
+    for (const project of projects) {
+      msg += `• ${project.name}: ${formatDuration(project.focusMinutes)} фокуса, ✅ ${project.completedTasks}\n`;
+    }
+    return msg.trimEnd();
+  },
+
   noTasks: `У тебя пока нет задач.\n\nДобавь новую через кнопку "➕ Задача" 📝`,
 
   focusStart: (duration: number) => `⏱️ Запускаем ${duration} минут фокуса!
@@ -93,6 +183,80 @@ Pomodoro таймер на 25/50/90 минут
 
 Ничего страшного! Попробуй снова, когда будешь готов 💪`,
 
+  focusCustomPrompt: (min: number, max: number) => `✏️ *Своё время*
+
+Напиши, сколько будешь работать: например \`40\`, \`1ч 15м\` или \`1:30\`.
+Можно от ${min} до ${max} минут.`,
+
+  focusDurationInvalid: `Не понял длительность 🤔
+
+Примеры: \`40\`, \`45 мин\`, \`1ч 15м\`, \`1:30\`.`,
+
+  focusTaskPrompt: (duration: string) => `📌 *Над чем работаем?*
+
+Выбери задачу на ${duration} фокуса — ответ в конце сессии применится к ней.`,
+
+  focusTaskTitle: (title: string) => `🍅 *Фокус на задаче*
+
+*${title}*
+
+Сколько минут будешь работать без отвлечений?`,
+
+  sessionTaskCompleted: (title: string, reward: number) => `\n\n✅ Задача *${title}* выполнена! +${reward} FocusCoins 🪙`,
+
+  sessionTaskHasOpenSubtasks: (title: string) =>
+    `\n\n📌 У задачи *${title}* есть открытые подзадачи — она закроется сама вместе с последней.`,
+
+  sessionTaskKept: (title: string) => `\n\n📌 Задача *${title}* остаётся в списке — отметь её, когда закончишь.`,
+
+  sessionTaskPostponed: (title: string, newDeadline: string) => `\n\n📅 Дедлайн задачи *${title}* перенесён на ${newDeadline}.`,
+
+  sessionTaskSplit: (title: string) => `\n\n✂️ Разобьём *${title}* на подзадачи. На сколько частей?`,
+
+  breakStarted: (isLong: boolean, duration: number, finishTime: string) => `${isLong ? '🌴 *Длинный перерыв*' : '☕ *Перерыв*'}
+
+${duration} минут — до ${finishTime}.
+Встань, разомнись, попей воды. Я напомню, когда пора возвращаться.`,
+
+  breakFinished: `⏰ *Перерыв окончен!*
+
+Готов к следующему фокус-блоку?`,
+
+  breakOffer: (isLong: boolean, duration: number) => isLong
+    ? `\n\n🌴 Ты сделал серию фокус-блоков — самое время для длинного перерыва (${duration} мин).`
+    : `\n\n☕ Не забудь про короткий перерыв (${duration} мин).`,
+
+  sessionProgress: (percent: number, timeLeft: string) => `⏳ *Пройдено ${percent}%*
+
+Осталось: *${timeLeft}*. Держи темп!`,
+
+  sessionFinalStretch: (minutesLeft: number) => `🔔 *Осталось ${minutesLeft} мин — финишная прямая!*
+
+Не отвлекайся, ты почти у цели 💪`,
+
+  sessionExtended: (minutes: number, timeLeft: string, finishTime: string) => `➕ *Сессия продлена на ${minutes} мин*
+
+Осталось: *${timeLeft}*
+Новое окончание: ${finishTime}
+
+Оставайся в потоке! 🌊`,
+
+  sessionPaused: (timeLeft: string, pauseLeftMinutes: number) => `⏸️ *Сессия на паузе*
+
+Осталось фокуса: *${timeLeft}*
+Пауза продлится не дольше ${pauseLeftMinutes} мин — потом таймер продолжится сам.`,
+
+  sessionResumed: (timeLeft: string, finishTime: string) => `▶️ *Сессия продолжена*
+
+Осталось: *${timeLeft}*
+Новое окончание: ${finishTime}`,
+
+  sessionAutoResumed: (maxPauseMinutes: number, timeLeft: string, finishTime: string) => `▶️ *Пауза закончилась*
+
+Лимит пауз за сессию — ${maxPauseMinutes} мин, таймер продолжен.
+Осталось: *${timeLeft}*
+Окончание: ${finishTime}`,
+
   podCreated: (title: string, duration: number, link: string) => `🎯 Pod создан!
 
 *${title}*
@@ -195,6 +359,153 @@ ${streak} дней 🔥
     return msg;
   },
 
+  timezoneSettings: (timezone: string, offset: string, localTime: string) => `🌍 *Часовой пояс*
+
+Сейчас: *${timezone}* (${offset})
+Местное время: ${localTime}
+
+По нему считаются серия, сброс статистики и время напоминаний.
+
+Выбери пояс кнопкой или отправь его текстом: \`Asia/Omsk\`, \`UTC+5\`.`,
+
+  timezoneUpdated: (timezone: string, offset: string, localTime: string) => `✅ Часовой пояс сохранён
+
+*${timezone}* (${offset}), у тебя сейчас ${localTime}`,
+
+  timezoneInvalid: `❌ Не понял часовой пояс.
+
+Отправь название вроде \`Europe/Moscow\` или смещение \`UTC+3\`.`,
+
+  notificationSettings: (settings: NotificationSettings, timezone: string) => {
+    let msg = `🔔 *Уведомления*\n\n`;
+    msg += settings.muted ? `Статус: 🔕 выключены все\n` : `Статус: 🔔 включены\n`;
+    msg += settings.quietHoursStart && settings.quietHoursEnd
+      ? `🌙 Тихие часы: ${settings.quietHoursStart}–${settings.quietHoursEnd}\n`
+      : `🌙 Тихие часы: нет\n`;
+    msg += `\nВремя указано по твоему поясу (${timezone}).\n`;
+    msg += `Нажми на тип, чтобы включить или выключить его, или на ⏰, чтобы сменить время.`;
+    return msg;
+  },
+
+  notificationTimePrompt: (label: string, current: string) => `⏰ *${label}*
+
+Сейчас: ${current}
+
+Отправь новое время в формате \`ЧЧ:ММ\`, например \`08:30\`.`,
+
+  quietHoursPrompt: `🌙 *Тихие часы*
+
+В это время уведомления не приходят, а доставляются после окончания.
+
+Отправь интервал, например \`23:00-08:00\`, или \`выкл\`, чтобы отключить.`,
+
+  notificationTimeInvalid: `❌ Не понял время. Формат: \`ЧЧ:ММ\`, например \`08:30\`.`,
+
+  quietHoursInvalid: `❌ Не понял интервал. Пример: \`23:00-08:00\` или \`выкл\`.`,
+
+  coinHistory: (balance: number, transactions: any[]) => {
+    let msg = `🪙 История монет\n\n`;
+    msg += `Баланс: ${balance} FocusCoins\n\n`;
+
+    if (transactions.length === 0) {
+      msg += `Пока нет операций. Заверши фокус-сессию или задачу, чтобы заработать первые монеты! 🚀`;
+      return msg;
+    }
+
+    transactions.forEach(t => {
+      const sign = t.amount > 0 ? '+' : '';
+      const date = new Date(t.createdAt).toLocaleString('ru-RU', {
+        day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit'
+      });
+      msg += `${sign}${t.amount} 🪙 ${t.reason}\n`;
+      msg += `   ${date}\n`;
+    });
+
+    return msg;
+  },
+
+  estimateAccuracy: (report: EstimateAccuracy) => {
+    let msg = `🎯 *Точность оценок*\n\n`;
+
+    if (report.tasks === 0) {
+      msg += `Пока не с чем сравнить. Добавь к задаче оценку — \`🍅3\` или \`[3p]\` — `;
+      msg += `и фокусируйся на ней через «🍅 Фокус на задаче».`;
+      return msg;
+    }
+
+    msg += `Выполнено задач с оценкой: ${report.tasks}\n`;
+    msg += `Запланировано: ${report.estimated} 🍅 • Фактически: ${report.actual} 🍅\n\n`;
+    msg += `✅ Точно в оценку: ${report.exact}\n`;
+    msg += `📈 Недооценено: ${report.under}\n`;
+    msg += `📉 Переоценено: ${report.over}\n\n`;
+
+    if (report.ratio > 1) {
+      msg += `В среднем задачи занимают в *${report.ratio.toFixed(1)}×* больше помидоров, чем планировалось. Закладывай запас!`;
+    } else if (report.ratio < 1) {
+      msg += `В среднем уходит *${Math.round(report.ratio * 100)}%* от оценки — можно планировать смелее.`;
+    } else {
+      msg += `Оценки в среднем совпадают с фактом — отличное планирование! 🎯`;
+    }
+
+    return msg;
+  },
+
+  taskMatrix: (matrix: TaskMatrix, urgentHours: number) => {
+    const quadrants: [EisenhowerQuadrant, string][] = [
+      [EisenhowerQuadrant.DO, '🔥 *Сделать сейчас* — важно и срочно'],
+      [EisenhowerQuadrant.PLAN, '📅 *Запланировать* — важно, не срочно'],
+      [EisenhowerQuadrant.DELEGATE, '🤝 *Делегировать* — срочно, не важно'],
+      [EisenhowerQuadrant.ELIMINATE, '🗑 *Отложить или убрать* — не важно и не срочно']
+    ];
+    const shown = 5;
+
+    let msg = `🧭 *Матрица Эйзенхауэра*\n`;
+
+    for (const [quadrant, title] of quadrants) {
+      const tasks = matrix[quadrant];
+      msg += `\n${title} (${tasks.length})\n`;
+
+      if (tasks.length === 0) {
+        msg += `  —\n`;
+        continue;
+      }
+
+      tasks.slice(0, shown).forEach(task => {
+        const marker = task.priority ? ` ${PRIORITY_MARKERS[task.priority]}` : '';
+        msg += `  • ${task.title}${marker}\n`;
+      });
+      if (tasks.length > shown) {
+        msg += `  _…и ещё ${tasks.length - shown}_\n`;
+      }
+    }
+
+    msg += `\n_Важные — с приоритетом !! и выше, срочные — с дедлайном в ближайшие ${urgentHours} ч._`;
+    return msg;
+  },
+
+  sandboxSessionNote: `\n\n🧪 _Тестовая сессия: статистика, серия и монеты не изменятся._`,
+
+  sandboxSessionFinished: (actualMinutes: number, duration: number) => `🧪 *Тестовая сессия завершена*
+
+Проработано: ${actualMinutes} мин из ${duration}
+Статистика, серия и FocusCoins не изменились.`,
+
+  rewardReduced: (decision: RewardDecision, fullThreshold: number, minMinutes: number) => {
+    const percent = Math.floor(decision.completionRate * 100);
+    const threshold = Math.round(fullThreshold * 100);
+
+    switch (decision.reason) {
+      case RewardReason.TOO_SHORT:
+        return `ℹ️ Сессии короче ${minMinutes} мин не награждаются.`;
+      case RewardReason.PROPORTIONAL:
+        return `ℹ️ Отработано ${percent}% времени — награда уменьшена пропорционально. Полная награда — от ${threshold}%.`;
+      case RewardReason.BELOW_THRESHOLD:
+        return `ℹ️ Отработано ${percent}% времени — награда начисляется от ${threshold}%.`;
+      default:
+        return '';
+    }
+  },
+
   taskNotFound: `❌ Задача не найдена.`,
 
   taskCompleted: (title: string, reward: number) => `✅ Задача выполнена!
@@ -211,12 +522,121 @@ ${title}
 
 Теперь их легче выполнить! 💪`,
 
+  taskNextOccurrence: (deadline: string) => `\n\n🔁 Следующее повторение: ${deadline}`,
+
+  taskHasOpenSubtasks: 'Сначала выполни подзадачи — задача закроется сама вместе с последней',
+
+  taskParentsCompleted: (titles: string[]) =>
+    `\n\n🎉 Все подзадачи готовы — закрыто и выше по дереву:\n${titles.map(title => `✅ ${title}`).join('\n')}`,
+
+  taskPath: (titles: string[]) => `\n\n🔗 Путь: ${titles.map(title => `*${title}*`).join(' › ')}`,
+
+  // Дерево подзадач с отступом по глубине; длинное дерево обрезается
+  taskSubtaskTree: (task: Task, maxLines: number = 30) => {
+    if (!task.subtasks?.length || !task.progress) return '';
+
+    const lines: string[] = [];
+    let hidden = 0;
+    const walk = (nodes: Task[], depth: number) => {
+      for (const node of nodes) {
+        if (lines.length < maxLines) {
+          const indent = depth > 0 ? `${'   '.repeat(depth - 1)}└ ` : '';
+          const progress = node.progress ? ` (${node.progress.completed}/${node.progress.total})` : '';
+          lines.push(`${indent}${node.completed ? '✅' : '🔹'} ${node.title}${progress}`);
+        } else {
+          hidden++;
+        }
+        walk(node.subtasks || [], depth + 1);
+      }
+    };
+    walk(task.subtasks, 0);
+
+    let msg = `\n\n🧩 *Подзадачи* (${task.progress.completed}/${task.progress.total} ✅):\n${lines.join('\n')}`;
+    if (hidden > 0) {
+      msg += `\n…и ещё ${hidden}`;
+    }
+    return msg;
+  },
+
+  taskRepeatPrompt: (title: string) => `🔁 *Повтор задачи*
+
+*${title}*
+
+Как часто повторять? После выполнения я создам следующую задачу со сдвинутым дедлайном.
+
+Правило можно указать и в тексте задачи: «каждый понедельник», «по будням», «каждые 3 дня», «каждое 15 число».`,
+
+  taskRepeatSet: (title: string, recurrence: string, deadline: string) => `🔁 *Задача будет повторяться*
+
+*${title}*
+
+Повтор: ${recurrence}
+Ближайший дедлайн: ${deadline}`,
+
+  taskRepeatStopped: (title: string) => `⏹ *Повтор остановлен*
+
+*${title}*
+
+Задача останется в списке, но после выполнения новая уже не появится.`,
+
+  taskEditMenu: (title: string, deadline?: string) => `✏️ *Изменить задачу*
+
+📌 ${title}
+📅 ${deadline ? `Дедлайн: ${deadline}` : 'Без дедлайна'}
+
+Что меняем?`,
+
+  taskEditTitlePrompt: (title: string) => `📝 *Новое название*
+
+Сейчас: ${title}
+
+Отправь название целиком — оно заменит текущее.`,
+
+  taskEditDeadlinePrompt: (deadline?: string) => `📅 *Новый дедлайн*
+
+Сейчас: ${deadline || 'без дедлайна'}
+
+Напиши срок так же, как при добавлении задачи: \`завтра 15:00\`, \`в пятницу\`, \`через 2 часа\`, \`до 25.12 18:00\`.`,
+
+  taskTitleInvalid: (min: number, max: number) =>
+    `📝 Название должно быть длиной от ${min} до ${max} символов. Попробуй ещё раз.`,
+
+  taskEditDeadlineNotRecognized: `🤔 Не удалось разобрать срок. Попробуй, например: \`завтра 18:00\` или \`до 25.12\`.`,
+
+  taskEditConfirm: (field: string, before: string, after: string) => `✏️ *Проверь изменение*
+
+${field}
+Было: ${before}
+Станет: ${after}
+
+Сохранить?`,
+
+  taskEditDeadlineRequired: 'У повторяющейся задачи должен быть дедлайн — сначала останови повтор',
+
+  taskEditExpired: 'Изменение устарело — начни заново через «✏️ Изменить»',
+
   taskPostponed: (title: string, newDeadline: string) => `⏸️ Задача отложена
 
 ${title}
 
 Новый дедлайн: ${newDeadline}`,
 
+  taskReminder: (title: string, minutesLeft: number) => {
+    const days = Math.floor(minutesLeft / 1440);
+    const hours = Math.floor((minutesLeft % 1440) / 60);
+    const minutes = minutesLeft % 60;
+    const parts = [];
+    if (days > 0) parts.push(`${days} д`);
+    if (hours > 0) parts.push(`${hours} ч`);
+    if (minutes > 0 || parts.length === 0) parts.push(`${minutes} мин`);
+
+    return `⏰ *Напоминание о дедлайне*
+
+*${title}*
+
+До дедлайна: ${parts.join(' ')}`;
+  },
+
   taskDeleted: `🗑️ Задача удалена`,
 
   error: `❌ Произошла ошибка. Попробуй ещё раз.`,
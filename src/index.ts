@@ -2,12 +2,14 @@
  * Точка входа приложения MAX Focus Pods
  */
 
-import * as dotenv from 'dotenv';
+import 'dotenv/config';
 import { createBot, startBot } from './bot';
 import { startApiServer } from './api/server';
 import { initializeDatabase } from './storage';
-
-dotenv.config();
+import { schedulerService } from './services/scheduler';
+import { pomodoroService } from './services/pomodoro';
+import { podService } from './services/pods';
+import { taskService } from './services/tasks';
 
 // Проверяем обязательные переменные
 const BOT_TOKEN = process.env.BOT_TOKEN;
@@ -29,6 +31,15 @@ async function main() {
     const bot = createBot(BOT_TOKEN);
     startBot(bot);
   }
+
+  // Поднимаем таймеры, пережившие перезапуск
+  await schedulerService.start();
+  const recovered = await pomodoroService.recoverSessionTimers();
+  if (recovered > 0) {
+    console.log(`⏰ Восстановлено таймеров сессий: ${recovered}`);
+  }
+  await podService.recoverPods();
+  await taskService.scheduleMissingReminders();
   
   startApiServer(PORT);
   
@@ -0,0 +1,80 @@
+/**
+ * CLI миграций схемы PostgreSQL
+ *
+ *   npm run migrate -- status
+ *   npm run migrate -- up [версия]
+ *   npm run migrate -- down [количество]
+ */
+
+import 'dotenv/config';
+import { createPool } from './storage/postgres';
+import { Migrator, formatMigration } from './storage/migrator';
+
+/**
+ * Целое неотрицательное число из аргумента CLI; иначе undefined
+ */
+function parseCount(arg: string): number | undefined {
+  return /^\d+$/.test(arg) ? parseInt(arg, 10) : undefined;
+}
+
+async function main() {
+  const [command = 'status', arg] = process.argv.slice(2);
+
+  // Аргументы проверяем до подключения к БД: "up 3abc" не должен применить миграции до 3
+  const count = arg !== undefined ? parseCount(arg) : undefined;
+  const takesCount = command === 'up' || command === 'down';
+  if (takesCount && arg !== undefined && (count === undefined || (command === 'down' && count < 1))) {
+    console.error(command === 'down'
+      ? `Количество миграций для отката должно быть целым числом от 1, получено: ${arg}`
+      : `Версия должна быть целым неотрицательным числом, получено: ${arg}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const pool = createPool();
+  const migrator = new Migrator(pool);
+
+  try {
+    switch (command) {
+      case 'up': {
+        const applied = await migrator.up(count);
+        console.log(applied.length > 0
+          ? `✅ Применено миграций: ${applied.length}`
+          : '✅ Схема актуальна, применять нечего');
+        break;
+      }
+
+      case 'down': {
+        const reverted = await migrator.down(count ?? 1);
+        console.log(`✅ Откачено миграций: ${reverted.length}`);
+        break;
+      }
+
+      case 'status': {
+        const statuses = await migrator.status();
+        for (const status of statuses) {
+          const mark = status.applied ? '✅' : '⏳';
+          const appliedAt = status.appliedAt ? ` (${status.appliedAt.toISOString()})` : '';
+          console.log(`${mark} ${formatMigration(status)}${appliedAt}`);
+        }
+
+        const unknown = await migrator.unknown();
+        if (unknown.length > 0) {
+          console.log(`⚠️  Неизвестные коду версии в БД: ${unknown.join(', ')}`);
+        }
+        break;
+      }
+
+      default:
+        console.error(`Неизвестная команда: ${command}. Используйте up, down или status`);
+        process.exitCode = 1;
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch(err => {
+  console.error('❌ Ошибка миграции:', err);
+  process.exit(1);
+});
@@ -3,21 +3,106 @@
  */
 
 import * as crypto from 'crypto';
-import { db } from '../storage';
-import { User, Achievement, ACHIEVEMENTS, NotificationType } from '../types';
+import { db, Storage } from '../storage';
+import {
+  User, Achievement, ACHIEVEMENTS, NotificationType, CoinTransaction, CoinSourceType
+} from '../types';
+import { getDateKey, shiftDateKey } from '../utils/timezone';
+
+export interface CoinSource {
+  type: CoinSourceType;
+  id?: string;
+}
 
 export class GamificationService {
   /**
-   * Награждает пользователя FocusCoins
+   * Награждает пользователя FocusCoins (или списывает при отрицательном amount).
+   * Каждое изменение баланса записывается в журнал coin_transactions,
+   * баланс меняется атомарным инкрементом в той же транзакции.
+   * store позволяет выполнить начисление внутри уже открытой транзакции.
+   */
+  async awardFocusCoins(
+    userId: string,
+    amount: number,
+    reason: string,
+    source?: CoinSource,
+    store: Storage = db
+  ): Promise<number> {
+    if (amount === 0) {
+      const user = await store.getUser(userId);
+      if (!user) throw new Error('User not found');
+      return user.focusCoins;
+    }
+
+    return store.runInTransaction(async tx => {
+      const user = await tx.incrementUserCounters(userId, { focusCoins: amount });
+      if (!user) throw new Error('User not found');
+
+      await tx.createCoinTransaction({
+        id: crypto.randomUUID(),
+        userId,
+        amount,
+        reason,
+        sourceType: source?.type,
+        sourceId: source?.id,
+        createdAt: new Date()
+      });
+
+      return user.focusCoins;
+    });
+  }
+
+  /**
+   * История операций с FocusCoins (новые сверху)
    */
-  async awardFocusCoins(userId: string, amount: number, reason?: string): Promise<number> {
+  async getCoinHistory(
+    userId: string,
+    limit: number = 20
+  ): Promise<{ balance: number; transactions: CoinTransaction[] }> {
     const user = await db.getUser(userId);
     if (!user) throw new Error('User not found');
 
-    const newBalance = user.focusCoins + amount;
-    await db.updateUser(userId, { focusCoins: newBalance });
+    const balance = await db.getUserCoinBalance(userId);
+    const transactions = await db.getUserCoinTransactions(userId, limit);
+
+    return { balance, transactions };
+  }
+
+  /**
+   * Сверяет users.focus_coins с суммой журнала. Журнал — источник истины,
+   * при расхождении баланс пользователя перезаписывается.
+   * Строка пользователя заблокирована до записи: начисление awardFocusCoins
+   * дождётся сверки и не потеряется.
+   */
+  async reconcileBalance(userId: string): Promise<{ balance: number; drift: number }> {
+    return db.runInTransaction(async tx => {
+      const user = await tx.getUserForUpdate(userId);
+      if (!user) throw new Error('User not found');
+
+      const balance = await tx.getUserCoinBalance(userId);
+      const drift = user.focusCoins - balance;
+
+      if (drift !== 0) {
+        console.warn(`FocusCoins drift for user ${userId}: ${drift}, fixing balance to ${balance}`);
+        await tx.updateUser(userId, { focusCoins: balance });
+      }
+
+      return { balance, drift };
+    });
+  }
 
-    return newBalance;
+  /**
+   * Сверяет балансы всех пользователей. Ошибка у одного не останавливает остальных.
+   */
+  async reconcileAllBalances(): Promise<void> {
+    const users = await db.getAllUsers();
+    for (const user of users) {
+      try {
+        await this.reconcileBalance(user.id);
+      } catch (error) {
+        console.error(`Balance reconciliation failed for user ${user.id}:`, error);
+      }
+    }
   }
 
   /**
@@ -27,14 +112,16 @@ export class GamificationService {
     const user = await db.getUser(userId);
     if (!user) throw new Error('User not found');
 
-    const today = new Date().toDateString();
-    const lastActive = new Date(user.lastActiveDate).toDateString();
-    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toDateString();
+    // Дни считаем в часовом поясе пользователя
+    const today = getDateKey(new Date(), user.timezone);
+    const lastActive = getDateKey(new Date(user.lastActiveDate), user.timezone);
+    const yesterday = shiftDateKey(today, -1);
 
     let currentStreak = user.currentStreak;
     let bestStreak = user.bestStreak;
 
-    if (lastActive === today) {
+    // lastActiveDate ставится при регистрации, поэтому серия 0 ещё не начата
+    if (lastActive === today && currentStreak > 0) {
       // Уже активен сегодня
       return { current: currentStreak, best: bestStreak };
     }
@@ -91,24 +178,29 @@ export class GamificationService {
     const achievement = ACHIEVEMENTS.find(a => a.id === achievementId);
     if (!achievement) return false;
 
-    // Добавляем достижение
-    user.achievements.push(achievementId);
-    await db.updateUser(userId, { achievements: user.achievements });
-
-    // Награждаем FocusCoins
-    await this.awardFocusCoins(userId, achievement.reward, `Achievement: ${achievement.name}`);
-
-    // Отправляем уведомление
-    await db.createNotification({
-      id: crypto.randomUUID(),
-      userId,
-      type: NotificationType.ACHIEVEMENT_UNLOCKED,
-      message: `🏆 Разблокировано: ${achievement.icon} ${achievement.name}! +${achievement.reward} FocusCoins`,
-      sentAt: new Date(),
-      read: false
-    });
+    return db.runInTransaction(async tx => {
+      // Атомарно добавляем достижение: при гонке награду получит только один вызов
+      const added = await tx.addUserAchievement(userId, achievementId);
+      if (!added) return false;
+
+      // Награждаем FocusCoins
+      await this.awardFocusCoins(userId, achievement.reward, `Достижение: ${achievement.name}`, {
+        type: CoinSourceType.ACHIEVEMENT,
+        id: achievement.id
+      }, tx);
+
+      // Отправляем уведомление
+      await tx.createNotification({
+        id: crypto.randomUUID(),
+        userId,
+        type: NotificationType.ACHIEVEMENT_UNLOCKED,
+        message: `🏆 Разблокировано: ${achievement.icon} ${achievement.name}! +${achievement.reward} FocusCoins`,
+        sentAt: new Date(),
+        read: false
+      });
 
-    return true;
+      return true;
+    });
   }
 
   /**
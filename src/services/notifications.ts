@@ -5,8 +5,37 @@
 import * as cron from 'node-cron';
 import * as crypto from 'crypto';
 import { db } from '../storage';
-import { NotificationType } from '../types';
+import { NotificationType, NotificationSettings, ScheduledJobType, User } from '../types';
 import { Bot } from '@maxhub/max-bot-api';
+import {
+  getDateKey, getLocalTime, getLocalMinutesOfDay, getNextLocalTime,
+  parseTimeOfDay, formatTimeOfDay
+} from '../utils/timezone';
+import { schedulerService } from './scheduler';
+
+const LOCAL_TICK_MINUTES = 15;
+
+export type NotificationSettingsUpdate = Partial<Omit<NotificationSettings, 'userId' | 'updatedAt'>>;
+
+type MessageExtra = { attachments?: any[]; format?: 'markdown' };
+
+/**
+ * Некорректные настройки уведомлений (ошибка ввода, а не сервера)
+ */
+export class NotificationSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotificationSettingsError';
+  }
+}
+
+const DEFAULT_SETTINGS: Omit<NotificationSettings, 'userId' | 'updatedAt'> = {
+  muted: false,
+  disabledTypes: [],
+  dailyReminderTime: '09:00',
+  streakWarningTime: '20:00',
+  weeklyStatsTime: '19:00'
+};
 
 export class NotificationService {
   private bot: Bot | null = null;
@@ -18,121 +47,138 @@ export class NotificationService {
   initialize(bot: Bot): void {
     this.bot = bot;
     this.setupScheduledNotifications();
+
+    // Уведомления, отложенные из-за тихих часов
+    schedulerService.registerHandler(ScheduledJobType.NOTIFICATION_DELIVERY, async (job) => {
+      await this.deliverDeferred(job.payload.userId, job.payload.type, job.payload.message, job.payload.extra);
+    });
   }
 
   /**
    * Настройка запланированных уведомлений
    */
   private setupScheduledNotifications(): void {
-    // Ежедневное напоминание в 9:00
-    const dailyReminder = cron.schedule('0 9 * * *', async () => {
-      await this.sendDailyReminders();
-    });
-    this.scheduledTasks.set('daily_reminder', dailyReminder);
-
-    // Проверка серий в 20:00
-    const streakWarning = cron.schedule('0 20 * * *', async () => {
-      await this.sendStreakWarnings();
-    });
-    this.scheduledTasks.set('streak_warning', streakWarning);
-
-    // Еженедельная статистика в понедельник в 9:00
-    const weeklyStats = cron.schedule('0 9 * * 1', async () => {
-      await this.sendWeeklyStats();
+    // Напоминания и сбросы статистики идут по локальному времени
+    // пользователей, поэтому проверяем его каждые LOCAL_TICK_MINUTES минут
+    const localTimeTick = cron.schedule(`*/${LOCAL_TICK_MINUTES} * * * *`, async () => {
+      await this.runLocalTimeTick();
     });
-    this.scheduledTasks.set('weekly_stats', weeklyStats);
+    this.scheduledTasks.set('local_time_tick', localTimeTick);
 
-    // Сброс дневной статистики в 00:00
-    const resetDaily = cron.schedule('0 0 * * *', async () => {
-      const { pomodoroService } = await import('./pomodoro');
-      await pomodoroService.resetDailyStats();
+    // Сверка балансов FocusCoins с журналом в 03:00
+    const reconcileCoins = cron.schedule('0 3 * * *', async () => {
+      const { gamificationService } = await import('./gamification');
+      await gamificationService.reconcileAllBalances();
     });
-    this.scheduledTasks.set('reset_daily', resetDaily);
-
-    // Сброс недельной статистики в понедельник в 00:00
-    const resetWeekly = cron.schedule('0 0 * * 1', async () => {
-      const { pomodoroService } = await import('./pomodoro');
-      await pomodoroService.resetWeeklyStats();
-    });
-    this.scheduledTasks.set('reset_weekly', resetWeekly);
+    this.scheduledTasks.set('reconcile_coins', reconcileCoins);
 
     console.log('✅ Scheduled notifications initialized');
   }
 
   /**
-   * Отправляет ежедневные напоминания
+   * Обходит пользователей и делает то, что положено по их локальному времени:
+   * переводит статистику на новые сутки/неделю и рассылает напоминания.
+   * Событие "в 9:00" срабатывает на тике, попавшем в 9:00–9:14.
    */
-  private async sendDailyReminders(): Promise<void> {
+  private async runLocalTimeTick(now: Date = new Date()): Promise<void> {
+    const { pomodoroService } = await import('./pomodoro');
     const users = await db.getAllUsers();
-    
+
     for (const user of users) {
-      const stats = await db.getUserStats(user.id);
-      
-      if (!stats || stats.todayPomodoros === 0) {
-        const message = `Привет! У тебя ${stats?.todayPomodoros || 0} Pomodoro сегодня. Может, начнёшь? 🚀`;
-        
-        await this.sendNotification(user.id, NotificationType.DAILY_REMINDER, message);
+      try {
+        await pomodoroService.rollOverStats(user, now);
+
+        const settings = await this.getSettings(user.id);
+        const isDue = (time: string) => this.isTickDue(now, user.timezone, time);
+
+        if (isDue(settings.dailyReminderTime)) {
+          await this.sendDailyReminder(user);
+        }
+        if (isDue(settings.streakWarningTime)) {
+          await this.sendStreakWarning(user, now);
+        }
+        // Итоги недели — вечером в воскресенье, пока недельная статистика не сброшена
+        if (getLocalTime(now, user.timezone).weekday === 7 && isDue(settings.weeklyStatsTime)) {
+          await this.sendWeeklyStats(user);
+        }
+      } catch (error) {
+        console.error(`Local time tick failed for user ${user.id}:`, error);
       }
     }
   }
 
   /**
-   * Отправляет предупреждения о серии
+   * Отправляет ежедневное напоминание
    */
-  private async sendStreakWarnings(): Promise<void> {
-    const users = await db.getAllUsers();
-    const now = new Date();
+  private async sendDailyReminder(user: User): Promise<void> {
+    const stats = await db.getUserStats(user.id);
     
-    for (const user of users) {
-      if (user.currentStreak > 0) {
-        const lastActive = new Date(user.lastActiveDate);
-        const today = new Date().toDateString();
-        
-        // Если сегодня еще не было активности
-        if (lastActive.toDateString() !== today) {
-          const stats = await db.getUserStats(user.id);
-          
-          if (!stats || stats.todayPomodoros === 0) {
-            const message = `⚠️ Твоя серия в опасности! ${user.currentStreak} дней 🔥 Осталось ${24 - now.getHours()} часов до конца дня.`;
-            
-            await this.sendNotification(user.id, NotificationType.STREAK_WARNING, message);
-          }
-        }
-      }
+    if (!stats || stats.todayPomodoros === 0) {
+      const message = `Привет! У тебя ${stats?.todayPomodoros || 0} Pomodoro сегодня. Может, начнёшь? 🚀`;
+      
+      await this.sendNotification(user.id, NotificationType.DAILY_REMINDER, message);
     }
   }
 
   /**
-   * Отправляет еженедельную статистику
+   * Отправляет предупреждение о серии
    */
-  private async sendWeeklyStats(): Promise<void> {
-    const users = await db.getAllUsers();
-    
-    for (const user of users) {
+  private async sendStreakWarning(user: User, now: Date): Promise<void> {
+    if (user.currentStreak <= 0) return;
+
+    const today = getDateKey(now, user.timezone);
+    const lastActive = getDateKey(new Date(user.lastActiveDate), user.timezone);
+
+    // Если сегодня еще не было активности
+    if (lastActive !== today) {
       const stats = await db.getUserStats(user.id);
       
-      if (stats && stats.weekPomodoros > 0) {
-        const hours = Math.floor(stats.weekFocusMinutes / 60);
-        const minutes = stats.weekFocusMinutes % 60;
-        
-        const message = `📊 Статистика за неделю:\n` +
-          `🎯 Pomodoro: ${stats.weekPomodoros}\n` +
-          `⏱️ Фокуса: ${hours}ч ${minutes}мин\n` +
-          `✅ Задач: ${stats.weekTasksCompleted}\n` +
-          `🪙 FocusCoins: +${stats.weekFocusCoins}\n\n` +
-          `Отличная работа! Так держать! 💪`;
+      if (!stats || stats.todayPomodoros === 0) {
+        const hoursLeft = 24 - getLocalTime(now, user.timezone).hour;
+        const message = `⚠️ Твоя серия в опасности! ${user.currentStreak} дней 🔥 Осталось ${hoursLeft} часов до конца дня.`;
         
-        await this.sendNotification(user.id, NotificationType.WEEKLY_STATS, message);
+        await this.sendNotification(user.id, NotificationType.STREAK_WARNING, message);
       }
     }
   }
 
   /**
-   * Отправляет уведомление пользователю
+   * Отправляет статистику за неделю
+   */
+  private async sendWeeklyStats(user: User): Promise<void> {
+    const stats = await db.getUserStats(user.id);
+    
+    if (stats && stats.weekPomodoros > 0) {
+      const hours = Math.floor(stats.weekFocusMinutes / 60);
+      const minutes = stats.weekFocusMinutes % 60;
+      
+      const message = `📊 Статистика за неделю:\n` +
+        `🎯 Pomodoro: ${stats.weekPomodoros}\n` +
+        `⏱️ Фокуса: ${hours}ч ${minutes}мин\n` +
+        `✅ Задач: ${stats.weekTasksCompleted}\n` +
+        `🪙 FocusCoins: +${stats.weekFocusCoins}\n\n` +
+        `Отличная работа! Так держать! 💪`;
+      
+      await this.sendNotification(user.id, NotificationType.WEEKLY_STATS, message);
+    }
+  }
+
+  /**
+   * Отправляет уведомление пользователю с учётом его настроек:
+   * выключенный тип не отправляется, при mute уведомление только сохраняется,
+   * в тихие часы доставка откладывается до их окончания.
    */
-  async sendNotification(userId: string, type: NotificationType, message: string): Promise<void> {
+  async sendNotification(
+    userId: string,
+    type: NotificationType,
+    message: string,
+    extra?: MessageExtra
+  ): Promise<void> {
+    const settings = await this.getSettings(userId);
+    if (settings.disabledTypes.includes(type)) return;
+
     // Сохраняем в базу
-    await db.createNotification({
+    const notification = await db.createNotification({
       id: crypto.randomUUID(),
       userId,
       type,
@@ -141,20 +187,174 @@ export class NotificationService {
       read: false
     });
 
-    // Отправляем через бота, если доступен
-    if (this.bot) {
-      const user = await db.getUser(userId);
-      if (user?.maxUserId) {
-        try {
-          await this.bot.api.sendMessageToUser(
-            parseInt(user.maxUserId),
-            message
-          );
-        } catch (error) {
-          console.error(`Failed to send notification to user ${userId}:`, error);
+    if (settings.muted) return;
+
+    const user = await db.getUser(userId);
+    if (!user) return;
+
+    const quietHoursEnd = this.getQuietHoursEnd(settings, user.timezone, new Date());
+    if (quietHoursEnd) {
+      await schedulerService.schedule(
+        ScheduledJobType.NOTIFICATION_DELIVERY,
+        `${ScheduledJobType.NOTIFICATION_DELIVERY}:${notification.id}`,
+        quietHoursEnd,
+        { userId, type, message, extra }
+      );
+      return;
+    }
+
+    await this.deliver(user, message, extra);
+  }
+
+  /**
+   * Включён ли тип уведомлений у пользователя (без учёта тихих часов)
+   */
+  async isEnabled(userId: string, type: NotificationType): Promise<boolean> {
+    const settings = await this.getSettings(userId);
+    return !settings.muted && !settings.disabledTypes.includes(type);
+  }
+
+  /**
+   * Настройки уведомлений пользователя (значения по умолчанию, если не менялись)
+   */
+  async getSettings(userId: string): Promise<NotificationSettings> {
+    const settings = await db.getNotificationSettings(userId);
+    return settings || { userId, ...DEFAULT_SETTINGS, updatedAt: new Date() };
+  }
+
+  /**
+   * Проверяет и сохраняет изменения настроек
+   */
+  async updateSettings(userId: string, updates: NotificationSettingsUpdate): Promise<NotificationSettings> {
+    const current = await this.getSettings(userId);
+    const next: NotificationSettings = { ...current, updatedAt: new Date() };
+
+    if (updates.muted !== undefined) {
+      if (typeof updates.muted !== 'boolean') {
+        throw new NotificationSettingsError('muted must be a boolean');
+      }
+      next.muted = updates.muted;
+    }
+
+    if (updates.disabledTypes !== undefined) {
+      const known = Object.values(NotificationType) as string[];
+      if (!Array.isArray(updates.disabledTypes) ||
+          updates.disabledTypes.some(type => !known.includes(type))) {
+        throw new NotificationSettingsError(`disabledTypes must contain only: ${known.join(', ')}`);
+      }
+      next.disabledTypes = Array.from(new Set(updates.disabledTypes));
+    }
+
+    for (const field of ['dailyReminderTime', 'streakWarningTime', 'weeklyStatsTime'] as const) {
+      if (updates[field] !== undefined) {
+        next[field] = this.normalizeTime(field, updates[field]);
+      }
+    }
+
+    // Тихие часы задаются парой, null или пустая строка выключают их
+    if (updates.quietHoursStart !== undefined || updates.quietHoursEnd !== undefined) {
+      const start = updates.quietHoursStart;
+      const end = updates.quietHoursEnd;
+
+      if (!start && !end) {
+        next.quietHoursStart = undefined;
+        next.quietHoursEnd = undefined;
+      } else {
+        if (!start || !end) {
+          throw new NotificationSettingsError('quietHoursStart and quietHoursEnd must be set together');
+        }
+        next.quietHoursStart = this.normalizeTime('quietHoursStart', start);
+        next.quietHoursEnd = this.normalizeTime('quietHoursEnd', end);
+        if (next.quietHoursStart === next.quietHoursEnd) {
+          throw new NotificationSettingsError('Quiet hours must not be empty');
         }
       }
     }
+
+    return db.saveNotificationSettings(next);
+  }
+
+  /**
+   * Включает или выключает тип уведомлений
+   */
+  async toggleType(userId: string, type: NotificationType): Promise<NotificationSettings> {
+    const settings = await this.getSettings(userId);
+    const disabledTypes = settings.disabledTypes.includes(type)
+      ? settings.disabledTypes.filter(t => t !== type)
+      : [...settings.disabledTypes, type];
+
+    return this.updateSettings(userId, { disabledTypes });
+  }
+
+  /**
+   * Если сейчас тихие часы — момент их окончания, иначе undefined
+   */
+  getQuietHoursEnd(settings: NotificationSettings, timezone: string, now: Date): Date | undefined {
+    if (!settings.quietHoursStart || !settings.quietHoursEnd) return undefined;
+
+    const start = parseTimeOfDay(settings.quietHoursStart);
+    const end = parseTimeOfDay(settings.quietHoursEnd);
+    if (start === undefined || end === undefined) return undefined;
+
+    const current = getLocalMinutesOfDay(now, timezone);
+    const inQuietHours = start < end
+      ? current >= start && current < end
+      : current >= start || current < end; // через полночь, например 23:00–08:00
+
+    return inQuietHours ? getNextLocalTime(now, timezone, end) : undefined;
+  }
+
+  private async deliver(user: User, message: string, extra?: MessageExtra): Promise<void> {
+    // Отправляем через бота, если доступен
+    if (!this.bot || !user.maxUserId) return;
+
+    try {
+      await this.bot.api.sendMessageToUser(
+        parseInt(user.maxUserId),
+        message,
+        extra
+      );
+    } catch (error) {
+      console.error(`Failed to send notification to user ${user.id}:`, error);
+    }
+  }
+
+  /**
+   * type может не быть у задач, отложенных до того, как его начали сохранять
+   */
+  private async deliverDeferred(
+    userId: string,
+    type: NotificationType | undefined,
+    message: string,
+    extra?: MessageExtra
+  ): Promise<void> {
+    const user = await db.getUser(userId);
+    if (!user) return;
+
+    // За время тихих часов пользователь мог выключить все уведомления или этот тип
+    const settings = await this.getSettings(userId);
+    if (settings.muted || (type && settings.disabledTypes.includes(type))) return;
+
+    await this.deliver(user, message, extra);
+  }
+
+  /**
+   * Попадает ли текущий тик в окно [time, time + LOCAL_TICK_MINUTES)
+   */
+  private isTickDue(now: Date, timezone: string, time: string): boolean {
+    const target = parseTimeOfDay(time);
+    if (target === undefined) return false;
+
+    const elapsed = (getLocalMinutesOfDay(now, timezone) - target + 1440) % 1440;
+    return elapsed < LOCAL_TICK_MINUTES;
+  }
+
+  private normalizeTime(field: string, value: unknown): string {
+    const minutes = typeof value === 'string' ? parseTimeOfDay(value) : undefined;
+    if (minutes === undefined) {
+      throw new NotificationSettingsError(`${field} must be a time in HH:MM format`);
+    }
+    return formatTimeOfDay(minutes);
   }
 
   /**
@@ -184,25 +384,6 @@ export class NotificationService {
     }
   }
 
-  /**
-   * Напоминание о задаче
-   */
-  async scheduleTaskReminder(
-    userId: string, 
-    taskTitle: string, 
-    reminderTime: Date
-  ): Promise<void> {
-    const now = new Date();
-    const delay = reminderTime.getTime() - now.getTime();
-    
-    if (delay > 0) {
-      setTimeout(async () => {
-        const message = `⏰ Напоминание: ${taskTitle}`;
-        await this.sendNotification(userId, NotificationType.DAILY_REMINDER, message);
-      }, delay);
-    }
-  }
-
   /**
    * Уведомление о завершении Pod
    */
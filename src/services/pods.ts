@@ -5,15 +5,56 @@
 import * as crypto from 'crypto';
 import * as QRCode from 'qrcode';
 import { db } from '../storage';
-import { Pod, PodStatus, PodParticipant, TaskAction, NotificationType } from '../types';
+import { Pod, PodStatus, PodParticipant, TaskAction, NotificationType, ScheduledJobType } from '../types';
 import { pomodoroService } from './pomodoro';
 import { gamificationService } from './gamification';
+import { schedulerService } from './scheduler';
+
+/**
+ * Допустимые переходы статусов Pod'а
+ */
+const POD_TRANSITIONS: Record<PodStatus, PodStatus[]> = {
+  [PodStatus.WAITING]: [PodStatus.ACTIVE, PodStatus.CANCELLED],
+  [PodStatus.ACTIVE]: [PodStatus.COMPLETED, PodStatus.CANCELLED],
+  [PodStatus.COMPLETED]: [],
+  [PodStatus.CANCELLED]: []
+};
+
+export class PodNotFoundError extends Error {
+  constructor(public readonly podId: string) {
+    super('Pod not found');
+    this.name = 'PodNotFoundError';
+  }
+}
+
+/**
+ * Недопустимый переход статуса (например, запуск уже завершённого Pod'а)
+ */
+export class PodTransitionError extends Error {
+  constructor(
+    public readonly podId: string,
+    public readonly from: PodStatus,
+    public readonly to: PodStatus
+  ) {
+    super(`Pod cannot move from ${from} to ${to}`);
+    this.name = 'PodTransitionError';
+  }
+}
 
 export class PodService {
   private botUsername: string;
+  private waitingTtlMinutes: number;
 
   constructor() {
     this.botUsername = process.env.BOT_USERNAME || 't257_hakaton_bot';
+    this.waitingTtlMinutes = parseInt(process.env.POD_WAITING_TTL_MINUTES || '60', 10);
+
+    schedulerService.registerHandler(ScheduledJobType.POD_END, async (job) => {
+      await this.runLifecycleJob(() => this.completePod(job.payload.podId));
+    });
+    schedulerService.registerHandler(ScheduledJobType.POD_EXPIRE, async (job) => {
+      await this.runLifecycleJob(() => this.expirePod(job.payload.podId));
+    });
   }
 
   /**
@@ -53,6 +94,7 @@ export class PodService {
     };
 
     await db.createPod(pod);
+    await this.scheduleExpiry(pod);
 
     // Проверяем достижение "Pod Pioneer"
     await gamificationService.checkAchievements(creatorId);
@@ -132,22 +174,23 @@ export class PodService {
    * Запускает Pod сессию
    */
   async startPod(podId: string): Promise<Pod> {
-    const pod = await db.getPod(podId);
-    if (!pod) throw new Error('Pod not found');
-
-    if (pod.status !== PodStatus.WAITING) {
-      throw new Error('Pod already started');
-    }
-
     const startTime = new Date();
-    const endTime = new Date(startTime.getTime() + pod.duration * 60 * 1000);
+    const current = await db.getPod(podId);
+    if (!current) throw new PodNotFoundError(podId);
 
-    await db.updatePod(podId, {
-      status: PodStatus.ACTIVE,
+    const { pod } = await this.transition(podId, PodStatus.ACTIVE, {
       startTime,
-      endTime
+      endTime: new Date(startTime.getTime() + current.duration * 60 * 1000)
     });
 
+    await schedulerService.cancel(this.getJobId(ScheduledJobType.POD_EXPIRE, podId));
+    await schedulerService.schedule(
+      ScheduledJobType.POD_END,
+      this.getJobId(ScheduledJobType.POD_END, podId),
+      pod.endTime!,
+      { podId }
+    );
+
     // Создаем Pomodoro сессии для всех участников
     for (const participant of pod.participants) {
       await pomodoroService.startSession(participant.userId, pod.duration, podId);
@@ -174,19 +217,11 @@ export class PodService {
    * Завершает Pod сессию
    */
   async completePod(podId: string): Promise<Pod> {
-    const pod = await db.getPod(podId);
-    if (!pod) throw new Error('Pod not found');
-
-    if (pod.status !== PodStatus.ACTIVE) {
-      throw new Error('Pod is not active');
-    }
-
-    const updatedPod = await db.updatePod(podId, {
-      status: PodStatus.COMPLETED,
+    const { pod } = await this.transition(podId, PodStatus.COMPLETED, {
       endTime: new Date()
     });
 
-    if (!updatedPod) throw new Error('Failed to complete pod');
+    await schedulerService.cancel(this.getJobId(ScheduledJobType.POD_END, podId));
 
     // Уведомляем всех участников
     for (const participant of pod.participants) {
@@ -200,7 +235,7 @@ export class PodService {
       });
     }
 
-    return updatedPod;
+    return pod;
   }
 
   /**
@@ -321,15 +356,17 @@ export class PodService {
   }
 
   /**
-   * Отменяет Pod
+   * Отменяет Pod (до старта или во время сессии)
    */
   async cancelPod(podId: string): Promise<Pod> {
-    const pod = await db.getPod(podId);
-    if (!pod) throw new Error('Pod not found');
+    const { pod, previous } = await this.transition(podId, PodStatus.CANCELLED);
 
-    await db.updatePod(podId, {
-      status: PodStatus.CANCELLED
-    });
+    await this.cancelLifecycleJobs(podId);
+
+    // Сессии участников отменённого на ходу Pod'а больше не идут
+    if (previous === PodStatus.ACTIVE) {
+      await this.cancelParticipantSessions(pod);
+    }
 
     // Уведомляем участников
     for (const participant of pod.participants) {
@@ -348,6 +385,54 @@ export class PodService {
     return pod;
   }
 
+  /**
+   * Отменяет Pod, который так и не запустили (по истечении POD_WAITING_TTL_MINUTES)
+   */
+  async expirePod(podId: string): Promise<Pod> {
+    const { pod } = await this.transition(podId, PodStatus.CANCELLED);
+
+    for (const participant of pod.participants) {
+      await db.createNotification({
+        id: crypto.randomUUID(),
+        userId: participant.userId,
+        type: NotificationType.POD_INVITE,
+        message: `Pod "${pod.title}" отменён: его так и не запустили за ${this.waitingTtlMinutes} мин`,
+        sentAt: new Date(),
+        read: false
+      });
+    }
+
+    return pod;
+  }
+
+  /**
+   * Восстанавливает задачи жизненного цикла Pod'ов после перезапуска.
+   * Просроченные задачи планировщик выполнит сразу.
+   */
+  async recoverPods(): Promise<number> {
+    const pods = (await db.getAllPods()).filter(pod =>
+      pod.status === PodStatus.WAITING || pod.status === PodStatus.ACTIVE
+    );
+
+    for (const pod of pods) {
+      if (pod.status === PodStatus.ACTIVE) {
+        const endTime = pod.endTime ||
+          new Date((pod.startTime || pod.createdAt).getTime() + pod.duration * 60 * 1000);
+
+        await schedulerService.schedule(
+          ScheduledJobType.POD_END,
+          this.getJobId(ScheduledJobType.POD_END, pod.id),
+          endTime,
+          { podId: pod.id }
+        );
+      } else {
+        await this.scheduleExpiry(pod);
+      }
+    }
+
+    return pods.length;
+  }
+
   /**
    * Покинуть Pod
    */
@@ -365,6 +450,71 @@ export class PodService {
     return pod;
   }
 
+  /**
+   * Атомарно переводит Pod в новый статус, проверяя допустимость перехода
+   */
+  private async transition(
+    podId: string,
+    to: PodStatus,
+    updates: Partial<Pod> = {}
+  ): Promise<{ pod: Pod; previous: PodStatus }> {
+    return db.runInTransaction(async (tx) => {
+      const pod = await tx.getPodForUpdate(podId);
+      if (!pod) throw new PodNotFoundError(podId);
+
+      if (!POD_TRANSITIONS[pod.status].includes(to)) {
+        throw new PodTransitionError(podId, pod.status, to);
+      }
+
+      const updated = await tx.updatePod(podId, { ...updates, status: to });
+      if (!updated) throw new Error('Failed to update pod');
+
+      return { pod: updated, previous: pod.status };
+    });
+  }
+
+  /**
+   * Задача по таймеру: Pod могли уже завершить или отменить вручную
+   */
+  private async runLifecycleJob(action: () => Promise<Pod>): Promise<void> {
+    try {
+      await action();
+    } catch (error) {
+      if (error instanceof PodTransitionError || error instanceof PodNotFoundError) {
+        console.log(`Skipping pod lifecycle job: ${error.message}`);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private getJobId(type: ScheduledJobType, podId: string): string {
+    return `${type}:${podId}`;
+  }
+
+  private async scheduleExpiry(pod: Pod): Promise<void> {
+    await schedulerService.schedule(
+      ScheduledJobType.POD_EXPIRE,
+      this.getJobId(ScheduledJobType.POD_EXPIRE, pod.id),
+      new Date(pod.createdAt.getTime() + this.waitingTtlMinutes * 60 * 1000),
+      { podId: pod.id }
+    );
+  }
+
+  private async cancelLifecycleJobs(podId: string): Promise<void> {
+    await schedulerService.cancel(this.getJobId(ScheduledJobType.POD_END, podId));
+    await schedulerService.cancel(this.getJobId(ScheduledJobType.POD_EXPIRE, podId));
+  }
+
+  private async cancelParticipantSessions(pod: Pod): Promise<void> {
+    for (const participant of pod.participants) {
+      const session = await pomodoroService.getActiveSession(participant.userId);
+      if (session && session.podId === pod.id) {
+        await pomodoroService.cancelSession(session.id);
+      }
+    }
+  }
+
   /**
    * Получает статистику по Pod'ам пользователя
    */
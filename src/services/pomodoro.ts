@@ -3,136 +3,751 @@
  */
 
 import * as crypto from 'crypto';
-import { db } from '../storage';
-import { PomodoroSession, TaskAction } from '../types';
+import { db, Storage } from '../storage';
+import {
+  User, UserStats, PomodoroSession, SessionPause, SessionKind, TaskAction, CoinSourceType, ScheduledJobType
+} from '../types';
+import { getDateKey, getWeekKey } from '../utils/timezone';
 import { gamificationService } from './gamification';
+import { schedulerService } from './scheduler';
+import { rewardPolicy, RewardDecision, RewardReason } from './rewardPolicy';
+
+export interface SessionCompletionResult {
+  session: PomodoroSession;
+  reward: number;
+  achievements: string[];
+  actualMinutes: number;
+  alreadyCompleted: boolean; // true, если сессия была завершена раньше
+  rewardDecision?: RewardDecision; // почему награда полная, уменьшена или нулевая (только фокус)
+}
+
+/**
+ * Сессию нельзя поставить на паузу или продолжить в её текущем состоянии
+ */
+export class SessionPauseError extends Error {
+  constructor(public readonly sessionId: string, message: string) {
+    super(message);
+    this.name = 'SessionPauseError';
+  }
+}
+
+/**
+ * Длительность фокуса вне допустимых границ
+ */
+export class SessionDurationError extends Error {
+  constructor(public readonly duration: unknown, message: string) {
+    super(message);
+    this.name = 'SessionDurationError';
+  }
+}
+
+/**
+ * Сессию нельзя продлить (завершена, Pod, превышен лимит)
+ */
+export class SessionExtensionError extends Error {
+  constructor(public readonly sessionId: string, message: string) {
+    super(message);
+    this.name = 'SessionExtensionError';
+  }
+}
+
+// Шаги продления с кнопок "+N мин"
+export const EXTENSION_STEPS = [5, 10, 15];
+
+// Тестовые длительности, разрешены вне границ только в режиме разработчика
+export const TEST_DURATIONS = [1, 2];
+
+// Сколько своих длительностей помнить для быстрых кнопок
+const RECENT_DURATIONS_LIMIT = 3;
+
+/**
+ * Точка промежуточного сообщения: доля сессии или минуты до конца
+ */
+export type ProgressPoint = { percent: number } | { minutesLeft: number };
+
+/**
+ * Разбирает "50%,5": 50% сессии и за 5 минут до конца
+ */
+function parseProgressPoints(value: string): ProgressPoint[] {
+  const points: ProgressPoint[] = [];
+
+  for (const part of value.split(',').map(p => p.trim()).filter(Boolean)) {
+    const amount = parseFloat(part);
+    if (!Number.isFinite(amount) || amount <= 0) continue;
+
+    if (part.endsWith('%')) {
+      if (amount < 100) points.push({ percent: amount });
+    } else {
+      points.push({ minutesLeft: amount });
+    }
+  }
+
+  return points;
+}
 
 export class PomodoroService {
-  private activeSessions: Map<string, NodeJS.Timeout> = new Map();
+  readonly minFocusMinutes: number;
+  readonly maxFocusMinutes: number;
+  readonly maxPauseMinutes: number;
+  readonly maxExtensionMinutes: number;
+  readonly shortBreakMinutes: number;
+  readonly longBreakMinutes: number;
+  readonly longBreakInterval: number; // длинный перерыв после каждого N-го фокус-блока
+  readonly autoStartBreaks: boolean;
+  readonly progressPoints: ProgressPoint[];
+  readonly liveStatusMinutes: number; // с какой длительности прогресс обновляется в одном сообщении
+  readonly liveStatusInterval: number;
+  readonly devModeForAll: boolean; // DEV_MODE=true — режим разработчика у всех
+
+  constructor() {
+    this.minFocusMinutes = parseInt(process.env.POMODORO_MIN_DURATION || '5', 10);
+    this.maxFocusMinutes = parseInt(process.env.POMODORO_MAX_DURATION || '180', 10);
+    this.maxPauseMinutes = parseInt(process.env.POMODORO_MAX_PAUSE_MINUTES || '15', 10);
+    this.maxExtensionMinutes = parseInt(process.env.POMODORO_MAX_EXTENSION_MINUTES || '30', 10);
+    this.shortBreakMinutes = parseInt(process.env.POMODORO_SHORT_BREAK_MINUTES || '5', 10);
+    this.longBreakMinutes = Math.min(30, Math.max(15,
+      parseInt(process.env.POMODORO_LONG_BREAK_MINUTES || '15', 10) || 15));
+    this.longBreakInterval = Math.max(1, parseInt(process.env.POMODORO_LONG_BREAK_INTERVAL || '4', 10) || 4);
+    this.autoStartBreaks = process.env.POMODORO_AUTO_START_BREAKS === 'true';
+    this.progressPoints = parseProgressPoints(process.env.POMODORO_PROGRESS_POINTS || '50%,5');
+    this.liveStatusMinutes = parseInt(process.env.POMODORO_LIVE_STATUS_MINUTES || '60', 10);
+    this.liveStatusInterval = Math.max(1, parseInt(process.env.POMODORO_LIVE_STATUS_INTERVAL || '10', 10) || 10);
+    this.devModeForAll = process.env.DEV_MODE === 'true';
+  }
 
   /**
-   * Запускает Pomodoro сессию
+   * Запускает Pomodoro сессию (фокус-блок или перерыв).
+   * Новый фокус-блок досрочно завершает идущий перерыв.
+   * Фокус можно привязать к невыполненной задаче пользователя.
+   * Тестовые длительности в режиме разработчика идут в песочнице.
    */
-  async startSession(userId: string, duration: number = 25, podId?: string): Promise<PomodoroSession> {
+  async startSession(
+    userId: string,
+    duration: number = 25,
+    podId?: string,
+    kind: SessionKind = SessionKind.FOCUS,
+    taskId?: string
+  ): Promise<PomodoroSession> {
+    const user = await db.getUser(userId);
+    if (!user) throw new Error('User not found');
+
+    const devMode = this.isDevMode(user);
+    if (kind === SessionKind.FOCUS) {
+      this.validateDuration(duration, devMode);
+    }
+
+    // Песочница: статистика, серия, монеты и задачи не меняются
+    const sandbox = kind === SessionKind.FOCUS && devMode && TEST_DURATIONS.includes(duration);
+
+    if (taskId) {
+      if (kind !== SessionKind.FOCUS) throw new Error('К задаче привязывается только фокус');
+      if (sandbox) throw new Error('Тестовую сессию нельзя привязать к задаче');
+
+      const task = await db.getTask(taskId);
+      if (!task || task.userId !== userId) throw new Error('Task not found');
+      if (task.completed) throw new Error('Задача уже выполнена');
+    }
+
     // Проверяем, нет ли уже активной сессии
     const existingSessions = await db.getUserSessions(userId);
     const activeSession = existingSessions.find(s => !s.completed && !s.endTime);
     
     if (activeSession) {
-      throw new Error('У вас уже есть активная сессия');
+      if (activeSession.kind === SessionKind.FOCUS) {
+        throw new Error('У вас уже есть активная сессия');
+      }
+      if (kind !== SessionKind.FOCUS) {
+        throw new Error('Перерыв уже идёт');
+      }
+      await this.completeSession(activeSession.id);
     }
 
-    const user = await db.getUser(userId);
-    if (!user) throw new Error('User not found');
-
     // Создаем сессию
     const session: PomodoroSession = {
       id: crypto.randomUUID(),
       userId,
+      kind,
       duration,
       startTime: new Date(),
       completed: false,
       podId,
-      reward: 0
+      taskId,
+      reward: 0,
+      sandbox
     };
 
     await db.createSession(session);
+    await this.scheduleSessionEnd(session);
+    await this.scheduleProgress(session);
 
     // Обновляем серию пользователя
-    await gamificationService.updateStreak(userId);
+    if (kind === SessionKind.FOCUS && !sandbox) {
+      await gamificationService.updateStreak(userId);
+    }
 
     return session;
   }
 
   /**
-   * Завершает Pomodoro сессию
+   * Проверяет длительность фокуса (общая проверка для бота и API)
    */
-  async completeSession(
-    sessionId: string, 
-    taskAction?: TaskAction,
-    isEarlyCompletion = false
-  ): Promise<{ session: PomodoroSession; reward: number; achievements: string[]; actualMinutes: number }> {
-    const session = await db.getSession(sessionId);
-    if (!session) throw new Error('Session not found');
+  validateDuration(duration: unknown, devMode = false): number {
+    if (typeof duration !== 'number' || !Number.isInteger(duration)) {
+      throw new SessionDurationError(duration, 'Длительность должна быть целым числом минут');
+    }
 
-    if (session.completed) {
-      throw new Error('Session already completed');
+    if (devMode && TEST_DURATIONS.includes(duration)) return duration;
+
+    if (duration < this.minFocusMinutes || duration > this.maxFocusMinutes) {
+      throw new SessionDurationError(
+        duration,
+        `Длительность должна быть от ${this.minFocusMinutes} до ${this.maxFocusMinutes} минут`
+      );
     }
 
-    const user = await db.getUser(session.userId);
+    return duration;
+  }
+
+  /**
+   * Режим разработчика: включён у пользователя или для всего окружения
+   */
+  isDevMode(user: User): boolean {
+    return this.devModeForAll || Boolean(user.devMode);
+  }
+
+  /**
+   * Запоминает свою длительность пользователя для быстрых кнопок
+   */
+  async rememberCustomDuration(userId: string, duration: number): Promise<number[]> {
+    const user = await db.getUser(userId);
     if (!user) throw new Error('User not found');
 
-    const actualMinutes = Math.floor((Date.now() - session.startTime.getTime()) / 60000);
-    const completionRate = actualMinutes / session.duration;
-    
-    let reward = 0;
-    let achievements: string[] = [];
+    const recentDurations = [duration, ...(user.recentDurations || []).filter(d => d !== duration)]
+      .slice(0, RECENT_DURATIONS_LIMIT);
 
-    if (completionRate >= 0.9 || !isEarlyCompletion) {
-      const baseReward = 1;
-      const inPod = !!session.podId;
-      reward = gamificationService.calculatePomodoroReward(baseReward, user.currentStreak, inPod);
+    await db.updateUser(userId, { recentDurations });
+    return recentDurations;
+  }
+
+  /**
+   * Запускает перерыв: длинный после каждого longBreakInterval-го фокус-блока
+   */
+  async startBreak(userId: string): Promise<PomodoroSession> {
+    const kind = await this.getNextBreakKind(userId);
+    return this.startSession(userId, this.getBreakDuration(kind), undefined, kind);
+  }
 
-      await db.updateUser(session.userId, {
-        totalPomodoros: user.totalPomodoros + 1,
-        totalFocusMinutes: user.totalFocusMinutes + actualMinutes,
-        focusCoins: user.focusCoins + reward
+  /**
+   * Какой перерыв положен следующим: считаем завершённые фокус-блоки
+   * с последнего длинного перерыва
+   */
+  async getNextBreakKind(userId: string): Promise<SessionKind> {
+    const sessions = await db.getUserSessions(userId); // от новых к старым
+
+    let focusBlocks = 0;
+    for (const session of sessions) {
+      if (session.kind === SessionKind.LONG_BREAK) break;
+      if (session.kind === SessionKind.FOCUS && session.completed && !session.sandbox) focusBlocks++;
+    }
+
+    return focusBlocks >= this.longBreakInterval ? SessionKind.LONG_BREAK : SessionKind.SHORT_BREAK;
+  }
+
+  /**
+   * Длительность перерыва в минутах
+   */
+  getBreakDuration(kind: SessionKind): number {
+    return kind === SessionKind.LONG_BREAK ? this.longBreakMinutes : this.shortBreakMinutes;
+  }
+
+  /**
+   * Завершает Pomodoro сессию.
+   * Идемпотентно: повторный вызов (двойной тап, гонка с таймером) возвращает
+   * результат первого завершения и не начисляет награду повторно.
+   * Размер награды определяет rewardPolicy по отработанному времени.
+   */
+  async completeSession(
+    sessionId: string, 
+    taskAction?: TaskAction
+  ): Promise<SessionCompletionResult> {
+    const result = await db.runInTransaction(async (tx): Promise<SessionCompletionResult> => {
+      // Блокируем строку сессии до конца транзакции
+      const session = await tx.getSessionForUpdate(sessionId);
+      if (!session) throw new Error('Session not found');
+
+      if (session.completed) {
+        return {
+          session,
+          reward: session.reward,
+          achievements: [],
+          actualMinutes: this.getActualMinutes(session),
+          alreadyCompleted: true,
+          rewardDecision: session.kind === SessionKind.FOCUS && !session.sandbox
+            ? this.getRewardDecision(session)
+            : undefined
+        };
+      }
+
+      if (session.endTime) {
+        throw new Error('Session was cancelled');
+      }
+
+      // Перерыв и тестовую сессию просто закрываем: ни награды, ни статистики фокуса
+      if (session.kind !== SessionKind.FOCUS || session.sandbox) {
+        const now = new Date();
+        const updated = await tx.updateSession(sessionId, {
+          completed: true,
+          endTime: now,
+          pauses: this.closePause(session.pauses, now)
+        });
+        if (!updated) throw new Error('Failed to update session');
+
+        return {
+          session: updated,
+          reward: 0,
+          achievements: [],
+          actualMinutes: this.getActualMinutes(updated),
+          alreadyCompleted: false
+        };
+      }
+
+      const user = await tx.getUser(session.userId);
+      if (!user) throw new Error('User not found');
+
+      // Время на паузе не засчитывается
+      const now = new Date();
+      const focusedMs = this.getFocusedMs(session, now);
+      const actualMinutes = Math.floor(focusedMs / 60000);
+      // Порог считаем от исходной длительности, продление его не сдвигает
+      const rewardDecision = rewardPolicy.evaluate(focusedMs / 60000, session.duration);
+
+      const inPod = !!session.podId;
+      const fullReward = gamificationService.calculatePomodoroReward(1, user.currentStreak, inPod);
+      const reward = rewardPolicy.apply(fullReward, rewardDecision);
+      // Pomodoro засчитывается только за полную сессию, остальное — просто минуты фокуса
+      const counted = rewardDecision.reason === RewardReason.FULL;
+
+      await tx.incrementUserCounters(session.userId, {
+        totalPomodoros: counted ? 1 : 0,
+        totalFocusMinutes: actualMinutes
       });
 
-      await this.updateUserStats(session.userId, actualMinutes, reward);
-      achievements = await gamificationService.checkAchievements(session.userId);
-    } else {
-      await db.updateUser(session.userId, {
-        totalFocusMinutes: user.totalFocusMinutes + actualMinutes
+      if (session.taskId) {
+        await tx.incrementTaskCounters(session.taskId, {
+          focusSessions: counted ? 1 : 0,
+          focusMinutes: actualMinutes
+        });
+      }
+
+      if (reward > 0) {
+        await gamificationService.awardFocusCoins(session.userId, reward, 'Pomodoro-сессия', {
+          type: CoinSourceType.SESSION,
+          id: sessionId
+        }, tx);
+      }
+
+      if (counted || reward > 0) {
+        // Сначала переводим статистику на текущие локальные сутки
+        await this.rollOverStats(user, new Date(), tx);
+        await tx.incrementUserStats(session.userId, {
+          todayPomodoros: counted ? 1 : 0,
+          todayFocusMinutes: actualMinutes,
+          weekPomodoros: counted ? 1 : 0,
+          weekFocusMinutes: actualMinutes,
+          weekFocusCoins: reward
+        });
+      }
+
+      const updated = await tx.updateSession(sessionId, {
+        completed: true,
+        endTime: now,
+        taskAction,
+        reward,
+        pauses: this.closePause(session.pauses, now)
       });
-    }
 
-    const updated = await db.updateSession(sessionId, {
-      completed: true,
-      endTime: new Date(),
-      taskAction,
-      reward
+      if (!updated) throw new Error('Failed to update session');
+
+      return { session: updated, reward, achievements: [], actualMinutes, alreadyCompleted: false, rewardDecision };
     });
 
-    if (!updated) throw new Error('Failed to update session');
+    await this.cancelSessionEnd(sessionId);
+    await this.cancelAutoResume(sessionId);
+    await this.cancelProgress(sessionId);
 
-    const timer = this.activeSessions.get(sessionId);
-    if (timer) {
-      clearTimeout(timer);
-      this.activeSessions.delete(sessionId);
+    // Достижения проверяем после коммита: unlockAchievement сам атомарен
+    if (!result.alreadyCompleted && result.reward > 0) {
+      result.achievements = await gamificationService.checkAchievements(result.session.userId);
     }
 
-    return { session: updated, reward, achievements, actualMinutes };
+    return result;
   }
 
   /**
-   * Отменяет Pomodoro сессию
+   * Отменяет Pomodoro сессию. Уже завершённую не трогает и возвращает false.
    */
   async cancelSession(sessionId: string): Promise<boolean> {
-    const session = await db.getSession(sessionId);
-    if (!session) return false;
+    const now = new Date();
 
-    await db.updateSession(sessionId, {
-      completed: false,
-      endTime: new Date()
+    const cancelled = await db.runInTransaction(async (tx) => {
+      const session = await tx.getSessionForUpdate(sessionId);
+      if (!session || session.completed || session.endTime) return false;
+
+      await tx.updateSession(sessionId, {
+        completed: false,
+        endTime: now,
+        pauses: this.closePause(session.pauses, now)
+      });
+      return true;
     });
+    if (!cancelled) return false;
 
-    // Удаляем таймер
-    const timer = this.activeSessions.get(sessionId);
-    if (timer) {
-      clearTimeout(timer);
-      this.activeSessions.delete(sessionId);
-    }
+    await this.cancelSessionEnd(sessionId);
+    await this.cancelAutoResume(sessionId);
+    await this.cancelProgress(sessionId);
 
     return true;
   }
 
   /**
-   * Получает активную сессию пользователя
+   * Ставит сессию на паузу. Таймер окончания снимается, вместо него
+   * ставится автопродолжение, когда исчерпается лимит пауз.
+   */
+  async pauseSession(sessionId: string): Promise<PomodoroSession> {
+    const now = new Date();
+
+    const session = await db.runInTransaction(async (tx) => {
+      const session = await tx.getSessionForUpdate(sessionId);
+      if (!session) throw new Error('Session not found');
+
+      if (session.completed || session.endTime) {
+        throw new SessionPauseError(sessionId, 'Сессия уже завершена');
+      }
+      if (session.podId) {
+        throw new SessionPauseError(sessionId, 'В Pod-сессии пауза недоступна');
+      }
+      if (session.kind !== SessionKind.FOCUS) {
+        throw new SessionPauseError(sessionId, 'Перерыв нельзя поставить на паузу');
+      }
+      if (this.isPaused(session)) {
+        throw new SessionPauseError(sessionId, 'Сессия уже на паузе');
+      }
+      if (this.getSessionEndTime(session, now).getTime() <= now.getTime()) {
+        throw new SessionPauseError(sessionId, 'Время сессии уже вышло');
+      }
+      if (this.getPauseLeftMs(session, now) <= 0) {
+        throw new SessionPauseError(sessionId, `Лимит пауз (${this.maxPauseMinutes} мин) исчерпан`);
+      }
+
+      const pauses: SessionPause[] = [...(session.pauses || []), { startedAt: now }];
+      const updated = await tx.updateSession(sessionId, { pauses });
+      if (!updated) throw new Error('Failed to update session');
+
+      return updated;
+    });
+
+    await this.cancelSessionEnd(sessionId);
+    await this.cancelProgress(sessionId);
+    await this.scheduleAutoResume(session, now);
+
+    return session;
+  }
+
+  /**
+   * Снимает сессию с паузы и переносит таймер окончания на время паузы
+   */
+  async resumeSession(sessionId: string): Promise<PomodoroSession> {
+    const now = new Date();
+
+    const session = await db.runInTransaction(async (tx) => {
+      const session = await tx.getSessionForUpdate(sessionId);
+      if (!session) throw new Error('Session not found');
+
+      if (session.completed || session.endTime) {
+        throw new SessionPauseError(sessionId, 'Сессия уже завершена');
+      }
+      if (!this.isPaused(session)) {
+        throw new SessionPauseError(sessionId, 'Сессия не на паузе');
+      }
+
+      // Пауза сверх лимита не засчитывается (автопродолжение могло опоздать)
+      const open = session.pauses![session.pauses!.length - 1];
+      const limit = new Date(open.startedAt.getTime() + this.getPauseLeftMs(session, open.startedAt));
+      const endedAt = limit.getTime() < now.getTime() ? limit : now;
+
+      const updated = await tx.updateSession(sessionId, {
+        pauses: this.closePause(session.pauses, endedAt)
+      });
+      if (!updated) throw new Error('Failed to update session');
+
+      return updated;
+    });
+
+    await this.cancelAutoResume(sessionId);
+    await this.scheduleSessionEnd(session);
+    await this.scheduleProgress(session);
+
+    return session;
+  }
+
+  /**
+   * Продлевает сессию на minutes минут от max(окончание, сейчас).
+   * Если таймер уже вышел, время после него тоже засчитывается как продление:
+   * пользователь всё это время работал "в потоке".
+   */
+  async extendSession(sessionId: string, minutes: number): Promise<PomodoroSession> {
+    if (!EXTENSION_STEPS.includes(minutes)) {
+      throw new SessionExtensionError(sessionId, `Продлить можно на ${EXTENSION_STEPS.join(', ')} минут`);
+    }
+
+    const now = new Date();
+
+    const session = await db.runInTransaction(async (tx) => {
+      const session = await tx.getSessionForUpdate(sessionId);
+      if (!session) throw new Error('Session not found');
+
+      if (session.completed || session.endTime) {
+        throw new SessionExtensionError(sessionId, 'Сессия уже завершена');
+      }
+      if (session.kind !== SessionKind.FOCUS) {
+        throw new SessionExtensionError(sessionId, 'Перерыв продлить нельзя');
+      }
+      if (session.podId) {
+        throw new SessionExtensionError(sessionId, 'Pod-сессию продлить нельзя');
+      }
+
+      const overtimeMs = Math.max(0, now.getTime() - this.getSessionEndTime(session, now).getTime());
+      const extensionMinutes = (session.extensionMinutes || 0) + Math.ceil(overtimeMs / 60000) + minutes;
+
+      if (extensionMinutes > this.maxExtensionMinutes) {
+        throw new SessionExtensionError(
+          sessionId,
+          `Можно продлить не больше чем на ${this.maxExtensionMinutes} мин за сессию`
+        );
+      }
+
+      const updated = await tx.updateSession(sessionId, { extensionMinutes });
+      if (!updated) throw new Error('Failed to update session');
+
+      return updated;
+    });
+
+    // На паузе таймер поставит resumeSession
+    if (!this.isPaused(session)) {
+      await this.scheduleSessionEnd(session);
+      await this.scheduleProgress(session);
+    }
+
+    return session;
+  }
+
+  /**
+   * Полная длительность с продлениями, в минутах
+   */
+  getTotalDuration(session: PomodoroSession): number {
+    return session.duration + (session.extensionMinutes || 0);
+  }
+
+  /**
+   * Длинная сессия: прогресс обновляется в одном сообщении, а не новыми
+   */
+  isLiveStatus(session: PomodoroSession): boolean {
+    return session.duration >= this.liveStatusMinutes;
+  }
+
+  /**
+   * Ставит задачу на ближайшую точку прогресса (или снимает, если точек не осталось)
+   */
+  async scheduleProgress(session: PomodoroSession): Promise<void> {
+    const runAt = session.kind === SessionKind.FOCUS && !this.isPaused(session)
+      ? this.getNextProgressTime(session, new Date())
+      : undefined;
+
+    if (!runAt) {
+      await this.cancelProgress(session.id);
+      return;
+    }
+
+    await schedulerService.schedule(
+      ScheduledJobType.POMODORO_PROGRESS,
+      this.getProgressJobId(session.id),
+      runAt,
+      { sessionId: session.id }
+    );
+  }
+
+  /**
+   * Запоминает сообщение, в котором обновляется прогресс
+   */
+  async setStatusMessageId(sessionId: string, statusMessageId: string): Promise<void> {
+    await db.updateSession(sessionId, { statusMessageId });
+  }
+
+  /**
+   * Время следующей точки прогресса. Точки заданы во времени фокуса,
+   * поэтому паузы их сдвигают.
+   */
+  private getNextProgressTime(session: PomodoroSession, now: Date): Date | undefined {
+    const totalMs = this.getTotalDuration(session) * 60 * 1000;
+    const offsets: number[] = [];
+
+    for (const point of this.progressPoints) {
+      offsets.push('percent' in point
+        ? totalMs * point.percent / 100
+        : totalMs - point.minutesLeft * 60 * 1000);
+    }
+
+    if (this.isLiveStatus(session)) {
+      const step = this.liveStatusInterval * 60 * 1000;
+      for (let offset = step; offset < totalMs; offset += step) {
+        offsets.push(offset);
+      }
+    }
+
+    // Секундный зазор, чтобы только что сработавшая точка не повторилась
+    const focusedMs = this.getFocusedMs(session, now);
+    const next = offsets
+      .filter(offset => offset > focusedMs + 1000 && offset < totalMs)
+      .sort((a, b) => a - b)[0];
+
+    return next === undefined ? undefined : new Date(now.getTime() + next - focusedMs);
+  }
+
+  /**
+   * Стоит ли сессия на паузе
+   */
+  isPaused(session: PomodoroSession): boolean {
+    const last = session.pauses?.[session.pauses.length - 1];
+    return !!last && !last.endedAt;
+  }
+
+  /**
+   * Сколько ещё можно простоять на паузе, мс
+   */
+  getPauseLeftMs(session: PomodoroSession, now: Date = new Date()): number {
+    return Math.max(0, this.maxPauseMinutes * 60 * 1000 - this.getPausedMs(session, now));
+  }
+
+  /**
+   * Восстанавливает таймеры незавершённых сессий после перезапуска.
+   * Сохранённые задачи поднимает schedulerService.start(); здесь ставятся
+   * таймеры только тем идущим сессиям, у которых задачи почему-то нет.
+   * Истёкшая сессия без задачи уже получила уведомление — её не трогаем.
+   */
+  async recoverSessionTimers(): Promise<number> {
+    const sessions = await db.getUnfinishedSessions();
+    const jobIds = new Set((await db.getScheduledJobs()).map(job => job.id));
+
+    let recovered = 0;
+    for (const session of sessions) {
+      if (this.isPaused(session)) {
+        if (!jobIds.has(this.getAutoResumeJobId(session.id))) {
+          await this.scheduleAutoResume(session, new Date());
+          recovered++;
+        }
+        continue;
+      }
+
+      if (jobIds.has(this.getSessionEndJobId(session.id))) continue;
+      if (this.getSessionEndTime(session).getTime() <= Date.now()) continue;
+
+      await this.scheduleSessionEnd(session);
+      await this.scheduleProgress(session);
+      recovered++;
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Плановое время окончания сессии с учётом пауз.
+   * Для сессии на паузе — время окончания, если продолжить её сейчас.
+   */
+  getSessionEndTime(session: PomodoroSession, now: Date = new Date()): Date {
+    return new Date(
+      session.startTime.getTime() + this.getTotalDuration(session) * 60 * 1000 + this.getPausedMs(session, now)
+    );
+  }
+
+  /**
+   * Суммарное время на паузе к моменту now, мс
+   */
+  private getPausedMs(session: PomodoroSession, now: Date): number {
+    return (session.pauses || []).reduce((total, pause) => {
+      const end = pause.endedAt || now;
+      return total + Math.max(0, end.getTime() - pause.startedAt.getTime());
+    }, 0);
+  }
+
+  /**
+   * Время фокуса от старта до now без пауз, мс. Не больше плановой длительности
+   * с продлениями: время после окончания таймера фокусом не считается.
+   */
+  private getFocusedMs(session: PomodoroSession, now: Date): number {
+    const elapsedMs = now.getTime() - session.startTime.getTime() - this.getPausedMs(session, now);
+    return Math.min(Math.max(0, elapsedMs), this.getTotalDuration(session) * 60 * 1000);
+  }
+
+  private closePause(pauses: SessionPause[] | undefined, endedAt: Date): SessionPause[] {
+    return (pauses || []).map(pause => pause.endedAt ? pause : { ...pause, endedAt });
+  }
+
+  private getSessionEndJobId(sessionId: string): string {
+    return `${ScheduledJobType.POMODORO_END}:${sessionId}`;
+  }
+
+  private async scheduleSessionEnd(session: PomodoroSession): Promise<void> {
+    await schedulerService.schedule(
+      ScheduledJobType.POMODORO_END,
+      this.getSessionEndJobId(session.id),
+      this.getSessionEndTime(session),
+      { sessionId: session.id }
+    );
+  }
+
+  private async cancelSessionEnd(sessionId: string): Promise<void> {
+    await schedulerService.cancel(this.getSessionEndJobId(sessionId));
+  }
+
+  private getProgressJobId(sessionId: string): string {
+    return `${ScheduledJobType.POMODORO_PROGRESS}:${sessionId}`;
+  }
+
+  private async cancelProgress(sessionId: string): Promise<void> {
+    await schedulerService.cancel(this.getProgressJobId(sessionId));
+  }
+
+  private getAutoResumeJobId(sessionId: string): string {
+    return `${ScheduledJobType.POMODORO_RESUME}:${sessionId}`;
+  }
+
+  private async scheduleAutoResume(session: PomodoroSession, now: Date): Promise<void> {
+    await schedulerService.schedule(
+      ScheduledJobType.POMODORO_RESUME,
+      this.getAutoResumeJobId(session.id),
+      new Date(now.getTime() + this.getPauseLeftMs(session, now)),
+      { sessionId: session.id }
+    );
+  }
+
+  private async cancelAutoResume(sessionId: string): Promise<void> {
+    await schedulerService.cancel(this.getAutoResumeJobId(sessionId));
+  }
+
+  /**
+   * Получает активную фокус-сессию пользователя
    */
   async getActiveSession(userId: string): Promise<PomodoroSession | undefined> {
     const sessions = await db.getUserSessions(userId);
-    return sessions.find(s => !s.completed && !s.endTime);
+    return sessions.find(s => !s.completed && !s.endTime && s.kind === SessionKind.FOCUS);
+  }
+
+  /**
+   * Получает идущий перерыв пользователя
+   */
+  async getActiveBreak(userId: string): Promise<PomodoroSession | undefined> {
+    const sessions = await db.getUserSessions(userId);
+    return sessions.find(s => !s.completed && !s.endTime && s.kind !== SessionKind.FOCUS);
   }
 
   /**
@@ -142,12 +757,13 @@ export class PomodoroService {
     session: PomodoroSession;
     remainingMinutes: number;
     remainingSeconds: number;
+    paused: boolean;
   } | undefined> {
     const session = await db.getSession(sessionId);
     if (!session || session.completed) return undefined;
 
-    const elapsed = Date.now() - session.startTime.getTime();
-    const totalMs = session.duration * 60 * 1000;
+    const elapsed = this.getFocusedMs(session, new Date());
+    const totalMs = this.getTotalDuration(session) * 60 * 1000;
     const remaining = Math.max(0, totalMs - elapsed);
     
     const remainingMinutes = Math.floor(remaining / (60 * 1000));
@@ -156,7 +772,8 @@ export class PomodoroService {
     return {
       session,
       remainingMinutes,
-      remainingSeconds
+      remainingSeconds,
+      paused: this.isPaused(session)
     };
   }
 
@@ -170,79 +787,54 @@ export class PomodoroService {
   }
 
   /**
-   * Обновляет статистику пользователя
+   * Фактическая длительность завершённой сессии в минутах
    */
-  private async updateUserStats(userId: string, minutes: number, coins: number): Promise<void> {
-    let stats = await db.getUserStats(userId);
-    
-    const today = new Date().toDateString();
-    const monday = this.getMonday(new Date());
-
-    if (!stats) {
-      stats = {
-        userId,
-        weekPomodoros: 0,
-        weekFocusMinutes: 0,
-        weekTasksCompleted: 0,
-        weekFocusCoins: 0,
-        todayPomodoros: 0,
-        todayFocusMinutes: 0
-      };
-    }
-
-    // Обновляем дневную статистику
-    stats.todayPomodoros += 1;
-    stats.todayFocusMinutes += minutes;
-
-    // Обновляем недельную статистику
-    stats.weekPomodoros += 1;
-    stats.weekFocusMinutes += minutes;
-    stats.weekFocusCoins += coins;
-
-    await db.updateUserStats(userId, stats);
+  private getActualMinutes(session: PomodoroSession): number {
+    return Math.floor(this.getFocusedMs(session, session.endTime || new Date()) / 60000);
   }
 
-  /**
-   * Получает понедельник текущей недели
-   */
-  private getMonday(date: Date): Date {
-    const d = new Date(date);
-    const day = d.getDay();
-    const diff = d.getDate() - day + (day === 0 ? -6 : 1);
-    return new Date(d.setDate(diff));
+  private getRewardDecision(session: PomodoroSession): RewardDecision {
+    const focusedMs = this.getFocusedMs(session, session.endTime || new Date());
+    return rewardPolicy.evaluate(focusedMs / 60000, session.duration);
   }
 
   /**
-   * Сбрасывает дневную статистику (вызывается каждый день в 00:00)
+   * Сбрасывает дневную и недельную статистику, когда у пользователя
+   * наступили новые сутки или неделя по его часовому поясу
    */
-  async resetDailyStats(): Promise<void> {
-    const users = await db.getAllUsers();
-    
-    for (const user of users) {
-      const stats = await db.getUserStats(user.id);
-      if (stats) {
-        stats.todayPomodoros = 0;
-        stats.todayFocusMinutes = 0;
-        await db.updateUserStats(user.id, stats);
+  async rollOverStats(user: User, now: Date = new Date(), store: Storage = db): Promise<void> {
+    const dayKey = getDateKey(now, user.timezone);
+    const weekKey = getWeekKey(now, user.timezone);
+
+    const stats = await store.getUserStats(user.id);
+    if (!stats) {
+      await store.updateUserStats(user.id, { dayKey, weekKey });
+      return;
+    }
+
+    const updates: Partial<UserStats> = {};
+
+    // Строки без ключа (созданные до часовых поясов) не сбрасываем, только помечаем
+    if (stats.dayKey !== dayKey) {
+      if (stats.dayKey) {
+        updates.todayPomodoros = 0;
+        updates.todayFocusMinutes = 0;
       }
+      updates.dayKey = dayKey;
     }
-  }
 
-  /**
-   * Сбрасывает недельную статистику (вызывается каждый понедельник в 00:00)
-   */
-  async resetWeeklyStats(): Promise<void> {
-    const users = await db.getAllUsers();
-    
-    for (const user of users) {
-      const stats = await db.getUserStats(user.id);
-      if (stats) {
-        stats.weekPomodoros = 0;
-        stats.weekFocusMinutes = 0;
-        stats.weekTasksCompleted = 0;
-        stats.weekFocusCoins = 0;
-        await db.updateUserStats(user.id, stats);
+    if (stats.weekKey !== weekKey) {
+      if (stats.weekKey) {
+        updates.weekPomodoros = 0;
+        updates.weekFocusMinutes = 0;
+        updates.weekTasksCompleted = 0;
+        updates.weekFocusCoins = 0;
       }
+      updates.weekKey = weekKey;
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await store.updateUserStats(user.id, updates);
     }
   }
 
@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '../storage';
+import { pomodoroService } from './pomodoro';
+import { RewardPolicy, RewardReason } from './rewardPolicy';
+import { User } from '../types';
+
+const POLICY_ENV = ['REWARD_FULL_THRESHOLD', 'REWARD_MIN_MINUTES', 'REWARD_PARTIAL_MODE'];
+
+/** Политика из переменных окружения, как в рабочем процессе */
+function policyFromEnv(env: Record<string, string>): RewardPolicy {
+  const saved = POLICY_ENV.map(name => process.env[name]);
+  Object.assign(process.env, env);
+  try {
+    return new RewardPolicy();
+  } finally {
+    POLICY_ENV.forEach((name, i) => {
+      if (saved[i] === undefined) delete process.env[name];
+      else process.env[name] = saved[i];
+    });
+  }
+}
+
+const policy = policyFromEnv({ REWARD_FULL_THRESHOLD: '0.9', REWARD_MIN_MINUTES: '5', REWARD_PARTIAL_MODE: 'proportional' });
+
+test('FULL: на пороге и выше — полная награда', () => {
+  for (const focused of [22.5, 24, 25]) {
+    const decision = policy.evaluate(focused, 25);
+    assert.equal(decision.reason, RewardReason.FULL);
+    assert.equal(decision.multiplier, 1);
+    assert.equal(policy.apply(10, decision), 10);
+  }
+});
+
+test('FULL: продление не сдвигает порог, доля не больше 1', () => {
+  const decision = policy.evaluate(40, 25);
+  assert.equal(decision.reason, RewardReason.FULL);
+  assert.equal(decision.completionRate, 1);
+});
+
+test('PROPORTIONAL: ниже порога — доля от награды с округлением', () => {
+  const decision = policy.evaluate(15, 25);
+  assert.equal(decision.reason, RewardReason.PROPORTIONAL);
+  assert.equal(decision.multiplier, 0.6);
+
+  assert.equal(policy.apply(10, decision), 6);
+  assert.equal(policy.apply(3, decision), 2); // 1.8
+  assert.equal(policy.apply(1, policy.evaluate(12, 25)), 0); // 0.48
+  assert.equal(policy.apply(1, policy.evaluate(13, 25)), 1); // 0.52
+});
+
+test('BELOW_THRESHOLD: REWARD_PARTIAL_MODE=zero — ниже порога ничего', () => {
+  const zero = policyFromEnv({ REWARD_PARTIAL_MODE: 'zero' });
+  assert.equal(zero.partialMode, 'none');
+
+  const below = zero.evaluate(20, 25);
+  assert.equal(below.reason, RewardReason.BELOW_THRESHOLD);
+  assert.equal(zero.apply(10, below), 0);
+
+  assert.equal(zero.evaluate(23, 25).reason, RewardReason.FULL);
+});
+
+test('TOO_SHORT: короче REWARD_MIN_MINUTES — без награды даже у короткой сессии', () => {
+  const decision = policy.evaluate(4.9, 5);
+  assert.equal(decision.reason, RewardReason.TOO_SHORT);
+  assert.equal(policy.apply(10, decision), 0);
+
+  assert.equal(policy.evaluate(5, 5).reason, RewardReason.FULL);
+  assert.equal(policyFromEnv({ REWARD_MIN_MINUTES: '10' }).evaluate(9, 10).reason, RewardReason.TOO_SHORT);
+});
+
+test('сессия с паузой: в награду идёт только время фокуса', async () => {
+  const user = await db.createUser({
+    id: 'reward-user',
+    maxUserId: '1',
+    name: 'Test',
+    timezone: 'Europe/Moscow',
+    focusCoins: 0,
+    totalPomodoros: 0,
+    totalFocusMinutes: 0,
+    completedTasks: 0,
+    currentStreak: 0,
+    bestStreak: 0,
+    lastActiveDate: new Date().toISOString(),
+    achievements: [],
+    createdAt: new Date()
+  } as User);
+
+  // 25 минут по часам, из них 10 на паузе
+  const now = Date.now();
+  const session = await pomodoroService.startSession(user.id, 25);
+  await db.updateSession(session.id, {
+    startTime: new Date(now - 25 * 60000),
+    pauses: [{ startedAt: new Date(now - 20 * 60000), endedAt: new Date(now - 10 * 60000) }]
+  });
+
+  const result = await pomodoroService.completeSession(session.id);
+
+  assert.equal(result.actualMinutes, 15);
+  assert.equal(result.rewardDecision?.reason, RewardReason.PROPORTIONAL);
+  assert.ok(Math.abs((result.rewardDecision?.completionRate || 0) - 0.6) < 0.01);
+  assert.equal((await db.getUser(user.id))?.totalPomodoros, 0);
+});
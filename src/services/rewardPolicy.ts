@@ -0,0 +1,77 @@
+/**
+ * Политика награды за фокус-сессию: сколько от полной награды получает
+ * пользователь в зависимости от отработанного времени.
+ * Одна и та же для бота и API — решение принимается по данным сессии.
+ */
+
+export enum RewardReason {
+  FULL = 'full', // отработано не меньше порога
+  PROPORTIONAL = 'proportional', // ниже порога, награда пропорциональна времени
+  BELOW_THRESHOLD = 'below_threshold', // ниже порога, частичная награда выключена
+  TOO_SHORT = 'too_short' // короче минимальной длины — без награды
+}
+
+export type PartialRewardMode = 'proportional' | 'none';
+
+export interface RewardPolicyConfig {
+  fullThreshold: number; // доля времени для полной награды, 0..1
+  minMinutes: number; // короче — награды нет совсем
+  partialMode: PartialRewardMode; // что платить ниже порога
+}
+
+export interface RewardDecision {
+  reason: RewardReason;
+  multiplier: number; // доля полной награды, 0..1
+  completionRate: number; // отработанная доля исходной длительности, 0..1
+  focusedMinutes: number;
+}
+
+export class RewardPolicy {
+  readonly fullThreshold: number;
+  readonly minMinutes: number;
+  readonly partialMode: PartialRewardMode;
+
+  constructor(config: Partial<RewardPolicyConfig> = {}) {
+    this.fullThreshold = config.fullThreshold
+      ?? Math.min(1, Math.max(0, parseFloat(process.env.REWARD_FULL_THRESHOLD || '0.9') || 0.9));
+    this.minMinutes = config.minMinutes
+      ?? Math.max(0, parseInt(process.env.REWARD_MIN_MINUTES || '5', 10) || 0);
+    this.partialMode = config.partialMode
+      ?? (['none', 'zero'].includes(process.env.REWARD_PARTIAL_MODE || '') ? 'none' : 'proportional');
+  }
+
+  /**
+   * Решение по награде. focusedMinutes — время фокуса без пауз (может быть дробным),
+   * plannedMinutes — исходная длительность, продление порог не сдвигает.
+   */
+  evaluate(focusedMinutes: number, plannedMinutes: number): RewardDecision {
+    const completionRate = plannedMinutes > 0
+      ? Math.min(1, Math.max(0, focusedMinutes / plannedMinutes))
+      : 0;
+    const decision = (reason: RewardReason, multiplier: number): RewardDecision =>
+      ({ reason, multiplier, completionRate, focusedMinutes });
+
+    if (focusedMinutes < this.minMinutes) {
+      return decision(RewardReason.TOO_SHORT, 0);
+    }
+
+    if (completionRate >= this.fullThreshold) {
+      return decision(RewardReason.FULL, 1);
+    }
+
+    if (this.partialMode === 'none') {
+      return decision(RewardReason.BELOW_THRESHOLD, 0);
+    }
+
+    return decision(RewardReason.PROPORTIONAL, completionRate);
+  }
+
+  /**
+   * Итоговая награда в монетах из полной награды (с бонусами серии и Pod)
+   */
+  apply(fullReward: number, decision: RewardDecision): number {
+    return Math.round(fullReward * decision.multiplier);
+  }
+}
+
+export const rewardPolicy = new RewardPolicy();
@@ -0,0 +1,153 @@
+/**
+ * Планировщик отложенных задач.
+ * Задачи хранятся в БД и переживают перезапуск: при старте все сохранённые
+ * задачи заново ставятся на таймер, просроченные выполняются сразу.
+ * Строка удаляется только после успешного обработчика, поэтому задача
+ * выполняется хотя бы раз; обработчики должны быть идемпотентными.
+ */
+
+import { db } from '../storage';
+import { ScheduledJob, ScheduledJobType } from '../types';
+
+export type JobHandler = (job: ScheduledJob) => Promise<void>;
+
+// setTimeout не принимает задержку больше ~24.8 суток
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+// Упавшая задача повторяется с нарастающей паузой; после последней попытки
+// строка остаётся в БД и задача выполнится при следующем старте
+const RETRY_DELAY = 60 * 1000;
+const MAX_ATTEMPTS = 5;
+
+export class SchedulerService {
+  private handlers: Map<ScheduledJobType, JobHandler> = new Map();
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private started = false;
+
+  /**
+   * Регистрирует обработчик для типа задач
+   */
+  registerHandler(type: ScheduledJobType, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Сохраняет задачу и ставит её на таймер.
+   * Задача с тем же id перепланируется.
+   */
+  async schedule(type: ScheduledJobType, id: string, runAt: Date, payload?: any): Promise<ScheduledJob> {
+    const job: ScheduledJob = {
+      id,
+      type,
+      runAt,
+      payload,
+      createdAt: new Date()
+    };
+
+    await db.upsertScheduledJob(job);
+
+    if (this.started) {
+      this.arm(job);
+    }
+
+    return job;
+  }
+
+  /**
+   * Отменяет задачу и удаляет её из БД
+   */
+  async cancel(id: string): Promise<boolean> {
+    this.disarm(id);
+    return db.deleteScheduledJob(id);
+  }
+
+  /**
+   * Отменяет все задачи, id которых начинается с prefix
+   */
+  async cancelByPrefix(prefix: string): Promise<number> {
+    for (const id of Array.from(this.timers.keys())) {
+      if (id.startsWith(prefix)) {
+        this.disarm(id);
+      }
+    }
+    return db.deleteScheduledJobsByPrefix(prefix);
+  }
+
+  /**
+   * Поднимает сохранённые задачи (вызывается при старте приложения)
+   */
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    const jobs = await db.getScheduledJobs();
+    const overdue = jobs.filter(job => job.runAt.getTime() <= Date.now()).length;
+
+    for (const job of jobs) {
+      this.arm(job);
+    }
+
+    console.log(`⏰ Scheduler started: ${jobs.length} jobs (${overdue} overdue)`);
+  }
+
+  /**
+   * Снимает все таймеры, задачи в БД остаются
+   */
+  stop(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.started = false;
+  }
+
+  private arm(job: ScheduledJob): void {
+    this.disarm(job.id);
+
+    const delay = job.runAt.getTime() - Date.now();
+
+    // Дальние задачи досыпают по частям
+    const timer = delay > MAX_TIMER_DELAY
+      ? setTimeout(() => this.arm(job), MAX_TIMER_DELAY)
+      : setTimeout(() => this.run(job), Math.max(0, delay));
+
+    this.timers.set(job.id, timer);
+  }
+
+  private disarm(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
+  }
+
+  private async run(job: ScheduledJob, attempt: number = 1): Promise<void> {
+    this.timers.delete(job.id);
+
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      console.error(`No handler registered for job type ${job.type}, job ${job.id} kept`);
+      return;
+    }
+
+    try {
+      // Строки нет — задачу отменили; другое время — перепланировали, и у неё свой таймер
+      const current = await db.getScheduledJob(job.id);
+      if (!current || current.runAt.getTime() !== job.runAt.getTime()) return;
+
+      await handler(job);
+
+      // Обработчик мог сам перепланировать задачу с тем же id — такую строку не трогаем
+      await db.deleteScheduledJob(job.id, job.runAt);
+    } catch (error) {
+      console.error(`Error running scheduled job ${job.id} (attempt ${attempt}):`, error);
+
+      // Пока шла попытка, задачу могли перепланировать или отменить
+      if (attempt >= MAX_ATTEMPTS || this.timers.has(job.id)) return;
+      this.timers.set(job.id, setTimeout(() => this.run(job, attempt + 1), RETRY_DELAY * attempt));
+    }
+  }
+}
+
+export const schedulerService = new SchedulerService();
@@ -0,0 +1,110 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '../storage';
+import { taskService, TaskUpdateError, MAX_TITLE_LENGTH } from './tasks';
+import { RecurrenceType, User } from '../types';
+
+let users = 0;
+
+/** Новый пользователь на каждый тест: хранилище общее на весь файл */
+async function createUser(): Promise<User> {
+  users++;
+  return db.createUser({
+    id: `user-${users}`,
+    maxUserId: String(users),
+    name: 'Test',
+    timezone: 'Europe/Moscow',
+    focusCoins: 0,
+    totalPomodoros: 0,
+    totalFocusMinutes: 0,
+    completedTasks: 0,
+    currentStreak: 0,
+    bestStreak: 0,
+    lastActiveDate: new Date().toISOString(),
+    achievements: [],
+    createdAt: new Date()
+  } as User);
+}
+
+test('повторяющаяся подзадача не держит родителя открытым', async () => {
+  const user = await createUser();
+  const parent = await taskService.createTask(user.id, 'Родитель');
+  const [daily] = await taskService.createSubtasks(parent.id, ['Зарядка']);
+  await taskService.setRecurrence(daily.id, { type: RecurrenceType.DAILY });
+
+  const result = await taskService.completeTask(daily.id);
+
+  assert.ok(result?.next);
+  assert.equal(result.next.parentTaskId, undefined);
+  assert.deepEqual(result.completedParents.map(task => task.id), [parent.id]);
+  assert.equal((await taskService.getTask(parent.id))?.completed, true);
+});
+
+test('последняя подзадача закрывает родителей вверх по дереву', async () => {
+  const user = await createUser();
+  const root = await taskService.createTask(user.id, 'Проект');
+  const [stage, other] = await taskService.createSubtasks(root.id, ['Этап', 'Другое']);
+  const [step] = await taskService.createSubtasks(stage.id, ['Шаг']);
+
+  const first = await taskService.completeTask(step.id);
+  assert.deepEqual(first?.completedParents.map(task => task.id), [stage.id]);
+  assert.equal((await taskService.getTask(root.id))?.completed, false);
+
+  const last = await taskService.completeTask(other.id);
+  assert.deepEqual(last?.completedParents.map(task => task.id), [root.id]);
+  assert.equal((await taskService.getTask(root.id))?.completed, true);
+});
+
+test('родителя с открытыми подзадачами нельзя закрыть вручную', async () => {
+  const user = await createUser();
+  const parent = await taskService.createTask(user.id, 'Родитель');
+  const [done, open] = await taskService.createSubtasks(parent.id, ['Готово', 'Ещё нет']);
+  await taskService.completeTask(done.id);
+
+  await assert.rejects(taskService.completeTask(parent.id), TaskUpdateError);
+  assert.equal((await taskService.getTask(parent.id))?.completed, false);
+  assert.equal((await db.getUser(user.id))?.completedTasks, 1);
+
+  await taskService.completeTask(open.id);
+  assert.equal((await taskService.getTask(parent.id))?.completed, true);
+});
+
+test('удаление задачи удаляет подзадачи на всю глубину', async () => {
+  const user = await createUser();
+  const root = await taskService.createTask(user.id, 'Проект');
+  const [stage] = await taskService.createSubtasks(root.id, ['Этап']);
+  const [step] = await taskService.createSubtasks(stage.id, ['Шаг']);
+  const unrelated = await taskService.createTask(user.id, 'Другая задача');
+
+  assert.equal(await taskService.deleteTask(root.id), true);
+
+  for (const task of [root, stage, step]) {
+    assert.equal(await taskService.getTask(task.id), undefined);
+  }
+  assert.ok(await taskService.getTask(unrelated.id));
+});
+
+test('разбиение длинной задачи укладывает названия частей в MAX_TITLE_LENGTH', async () => {
+  const user = await createUser();
+  const task = await taskService.createTask(user.id, 'Я'.repeat(MAX_TITLE_LENGTH - 5));
+
+  const subtasks = await taskService.splitTask(task.id);
+
+  assert.equal(subtasks.length, 3);
+  for (const [i, subtask] of subtasks.entries()) {
+    assert.ok(subtask.title.length <= MAX_TITLE_LENGTH);
+    assert.ok(subtask.title.endsWith(` - Часть ${i + 1}`));
+  }
+});
+
+test('перенос задачи принимает только положительное число часов', async () => {
+  const user = await createUser();
+  const task = await taskService.createTask(user.id, 'Отчёт', new Date('2030-01-01T12:00:00Z'));
+
+  for (const hours of ['abc', 0, -5, NaN, Infinity]) {
+    await assert.rejects(taskService.postponeTask(task.id, hours as number), TaskUpdateError);
+  }
+
+  const postponed = await taskService.postponeTask(task.id, 2);
+  assert.equal(postponed?.deadline?.toISOString(), '2030-01-01T14:00:00.000Z');
+});
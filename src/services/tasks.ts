@@ -3,94 +3,530 @@
  */
 
 import * as crypto from 'crypto';
-import { db } from '../storage';
-import { Task, TaskAction } from '../types';
+import { db, Storage } from '../storage';
+import {
+  Task,
+  TaskAction,
+  CoinSourceType,
+  ScheduledJobType,
+  RecurrenceRule,
+  RecurrenceType,
+  TaskPriority,
+  TaskProgress,
+  Project,
+  Tag
+} from '../types';
 import { gamificationService } from './gamification';
+import { schedulerService } from './scheduler';
+import { formatDuration } from '../utils/duration';
+import { parseDeadline } from '../utils/deadline';
+import {
+  DEFAULT_TIMEZONE,
+  getLocalTime,
+  fromLocalTime,
+  formatLocalTime,
+  getDateKey,
+  shiftDateKey
+} from '../utils/timezone';
+import {
+  parseRecurrence,
+  completeRecurrence,
+  getNextOccurrence,
+  formatRecurrence,
+  MAX_RECURRENCE_INTERVAL
+} from '../utils/recurrence';
+
+// Допустимая оценка задачи в помидорах
+export const MAX_TASK_ESTIMATE = 20;
+
+// FocusCoins за выполненную задачу
+export const TASK_REWARD = 2;
+
+// Длина названия задачи. Колонка tasks.title — TEXT, предел задаёт приложение:
+// он проверяется при создании задачи, разбиении на подзадачи и правке
+export const MIN_TITLE_LENGTH = 2;
+export const MAX_TITLE_LENGTH = 255;
+
+// Поля, которые можно менять через PATCH /api/tasks/:taskId; остальные — служебные
+const EDITABLE_TASK_FIELDS = ['title', 'deadline', 'estimate', 'priority', 'recurrence', 'project', 'tags'];
+
+// "🍅3", "🍅 3", "[3p]", "[3п]"
+const ESTIMATE_PATTERNS = [/🍅\s*(\d{1,3})/u, /\[\s*(\d{1,3})\s*[pрп]\s*\]/i];
+
+// "!", "!!", "!!!" отдельным словом или "!!"/"!!!" в конце текста ("Сдать отчёт!!!");
+// одиночный "!" в конце слова — просто восклицание
+const PRIORITY_PATTERNS = [/(?<=^|\s)(!{1,3})(?=\s|$)/u, /(!{2,3})\s*$/u];
+
+// "#работа", "@Клиент_А": буквы, цифры, "_" и "-", хотя бы одна буква ("#1" — не тег)
+const TAG_PATTERN = /(?<=^|\s)#([\p{L}\d_-]*\p{L}[\p{L}\d_-]*)/gu;
+const PROJECT_PATTERN = /(?<=^|\s)@([\p{L}\d_-]*\p{L}[\p{L}\d_-]*)/u;
+export const MAX_LABEL_LENGTH = 50;
+
+// Поиск задач: короче — слишком много совпадений, длиннее — не влезает в payload кнопки
+export const MIN_SEARCH_LENGTH = 2;
+export const MAX_SEARCH_LENGTH = 64;
+const SEARCH_LIMIT = 50;
+
+export const PRIORITY_MARKERS: Record<TaskPriority, string> = {
+  [TaskPriority.NONE]: '',
+  [TaskPriority.LOW]: '🟢',
+  [TaskPriority.MEDIUM]: '🟡',
+  [TaskPriority.HIGH]: '🔴'
+};
+
+/**
+ * Квадранты матрицы Эйзенхауэра: важность — приоритет от "!!",
+ * срочность — дедлайн в ближайшие часы или уже просрочен
+ */
+export enum EisenhowerQuadrant {
+  DO = 'do', // важно и срочно
+  PLAN = 'plan', // важно, не срочно
+  DELEGATE = 'delegate', // срочно, не важно
+  ELIMINATE = 'eliminate' // не важно и не срочно
+}
+
+export type TaskMatrix = Record<EisenhowerQuadrant, Task[]>;
+
+/**
+ * Проект и теги задачи по именам: проект и теги создаются при первом упоминании
+ */
+export interface TaskLabels {
+  project?: string;
+  tags?: string[];
+}
+
+/**
+ * Фильтр списка задач: по тегу (без "#") и/или проекту
+ */
+export interface TaskFilter {
+  tag?: string;
+  projectId?: string;
+}
+
+/**
+ * Фокус и выполненные задачи по проекту
+ */
+export interface ProjectStats {
+  projectId?: string; // undefined — задачи без проекта
+  name: string;
+  focusMinutes: number;
+  focusSessions: number;
+  completedTasks: number;
+  activeTasks: number;
+}
+
+/**
+ * Оценка задачи вне допустимых границ
+ */
+export class TaskEstimateError extends Error {
+  constructor(public readonly estimate: unknown, message: string) {
+    super(message);
+    this.name = 'TaskEstimateError';
+  }
+}
+
+/**
+ * Приоритет вне допустимых уровней
+ */
+export class TaskPriorityError extends Error {
+  constructor(public readonly priority: unknown, message: string) {
+    super(message);
+    this.name = 'TaskPriorityError';
+  }
+}
+
+/**
+ * Недопустимое поле или значение при изменении задачи
+ */
+export class TaskUpdateError extends Error {
+  constructor(public readonly field: string, message: string) {
+    super(message);
+    this.name = 'TaskUpdateError';
+  }
+}
+
+/**
+ * Поисковый запрос слишком короткий или слишком длинный
+ */
+export class TaskSearchError extends Error {
+  constructor(public readonly query: unknown, message: string) {
+    super(message);
+    this.name = 'TaskSearchError';
+  }
+}
+
+/**
+ * Некорректное правило повтора
+ */
+export class TaskRecurrenceError extends Error {
+  constructor(public readonly recurrence: unknown, message: string) {
+    super(message);
+    this.name = 'TaskRecurrenceError';
+  }
+}
+
+/**
+ * Результат выполнения задачи. reward — FocusCoins за саму задачу (0, если она
+ * уже была выполнена), next — следующее вхождение повторяющейся задачи,
+ * completedParents — родители, закрытые вместе с последней подзадачей (снизу вверх)
+ */
+export interface TaskCompletionResult {
+  task: Task;
+  reward: number;
+  next?: Task;
+  completedParents: Task[];
+}
+
+// Задача, закрытая внутри транзакции completeTask
+interface CompletedTask {
+  task: Task;
+  next?: Task;
+  reward: number;
+}
+
+/**
+ * Сравнение оценок с фактом по выполненным задачам
+ */
+export interface EstimateAccuracy {
+  tasks: number; // выполненные задачи с оценкой
+  estimated: number; // запланировано помидоров
+  actual: number; // фактически завершено сессий
+  exact: number; // уложились ровно в оценку
+  under: number; // недооценены: сессий больше оценки
+  over: number; // переоценены: сессий меньше оценки
+  ratio: number; // факт / план, 1 — идеально
+}
 
 export class TaskService {
+  // За сколько минут до дедлайна напоминать, по убыванию
+  private reminderOffsets: number[];
+  // Дедлайн ближе этого порога делает задачу срочной
+  readonly urgentHours: number;
+
+  constructor() {
+    this.reminderOffsets = this.parseReminderOffsets(process.env.TASK_REMINDER_OFFSETS || '1440,120,15');
+    this.urgentHours = Math.max(1, parseInt(process.env.TASK_URGENT_HOURS || '48', 10) || 48);
+  }
+
   /**
    * Создает новую задачу
    */
-  async createTask(userId: string, title: string, deadline?: Date): Promise<Task> {
+  async createTask(
+    userId: string,
+    title: string,
+    deadline?: Date,
+    estimate?: number,
+    recurrence?: RecurrenceRule,
+    priority: TaskPriority = TaskPriority.NONE,
+    labels: TaskLabels = {}
+  ): Promise<Task> {
+    title = this.validateTitle(title);
+
+    if (estimate !== undefined) {
+      this.validateEstimate(estimate);
+    }
+
+    this.validatePriority(priority);
+
+    if (recurrence) {
+      // У повторяющейся задачи всегда есть дедлайн — от него считается следующее вхождение
+      const timezone = (await db.getUser(userId))?.timezone || DEFAULT_TIMEZONE;
+      ({ rule: recurrence, deadline } = completeRecurrence(
+        this.validateRecurrence(recurrence),
+        deadline || this.getEndOfToday(timezone),
+        timezone
+      ));
+    }
+
     const task: Task = {
       id: crypto.randomUUID(),
       userId,
       title,
       deadline,
       completed: false,
-      createdAt: new Date()
+      createdAt: new Date(),
+      estimate,
+      recurrence,
+      priority
     };
 
+    const project = labels.project
+      ? await db.getOrCreateProject(userId, this.normalizeProject(labels.project))
+      : undefined;
+    task.projectId = project?.id;
+
     await db.createTask(task);
+    task.projectName = project?.name;
+
+    if (labels.tags?.length) {
+      task.tags = await this.setTaskTags(task, labels.tags);
+    }
+
+    await this.syncReminders(task);
     return task;
   }
 
   /**
-   * Парсит задачу из текста (формат: "Название до дд.мм чч:мм")
-   */
-  parseTaskFromText(text: string): { title: string; deadline?: Date } {
-    // Паттерны для парсинга дедлайна
-    const patterns = [
-      // "до 20.11 12:00"
-      /до\s+(\d{1,2})\.(\d{1,2})\s+(\d{1,2}):(\d{2})/i,
-      // "до 20.11"
-      /до\s+(\d{1,2})\.(\d{1,2})/i,
-      // "завтра"
-      /завтра/i,
-      // "сегодня"
-      /сегодня/i
-    ];
-
-    let deadline: Date | undefined;
-    let title = text.trim();
-
-    // Проверяем паттерн с временем
-    const timeMatch = text.match(patterns[0]);
-    if (timeMatch) {
-      const day = parseInt(timeMatch[1]);
-      const month = parseInt(timeMatch[2]) - 1; // месяцы с 0
-      const hour = parseInt(timeMatch[3]);
-      const minute = parseInt(timeMatch[4]);
-      const year = new Date().getFullYear();
-      
-      deadline = new Date(year, month, day, hour, minute);
-      title = text.replace(patterns[0], '').trim();
-    } else {
-      // Проверяем паттерн только с датой
-      const dateMatch = text.match(patterns[1]);
-      if (dateMatch) {
-        const day = parseInt(dateMatch[1]);
-        const month = parseInt(dateMatch[2]) - 1;
-        const year = new Date().getFullYear();
-        
-        deadline = new Date(year, month, day, 23, 59);
-        title = text.replace(patterns[1], '').trim();
-      } else if (text.match(patterns[2])) {
-        // Завтра
-        deadline = new Date();
-        deadline.setDate(deadline.getDate() + 1);
-        deadline.setHours(23, 59, 0, 0);
-        title = text.replace(patterns[2], '').trim();
-      } else if (text.match(patterns[3])) {
-        // Сегодня
-        deadline = new Date();
-        deadline.setHours(23, 59, 0, 0);
-        title = text.replace(patterns[3], '').trim();
+   * Заменяет теги задачи. Возвращает итоговые имена тегов
+   */
+  async setTaskTags(task: Task, tags: string[]): Promise<string[]> {
+    const names = Array.from(new Set(tags.map(tag => this.normalizeTag(tag)).filter(Boolean)));
+    const created = await db.getOrCreateTags(task.userId, names);
+    await db.setTaskTags(task.id, created.map(tag => tag.id));
+    return created.map(tag => tag.name);
+  }
+
+  /**
+   * Привязывает задачу к проекту по имени; пустое имя отвязывает
+   */
+  async setTaskProject(taskId: string, name?: string): Promise<Task | undefined> {
+    const task = await db.getTask(taskId);
+    if (!task) return undefined;
+
+    const projectName = name ? this.normalizeProject(name) : '';
+    const project = projectName ? await db.getOrCreateProject(task.userId, projectName) : undefined;
+
+    const updated = await db.updateTask(taskId, { projectId: project?.id });
+    return updated && (await this.hydrateLabels(task.userId, [updated]))[0];
+  }
+
+  async getUserProjects(userId: string): Promise<Project[]> {
+    return db.getUserProjects(userId);
+  }
+
+  async getUserTags(userId: string): Promise<Tag[]> {
+    return db.getUserTags(userId);
+  }
+
+  /**
+   * Проверяет название задачи, возвращает его без лишних пробелов
+   */
+  validateTitle(title: unknown): string {
+    const text = typeof title === 'string' ? title.replace(/\s+/g, ' ').trim() : '';
+
+    if (text.length < MIN_TITLE_LENGTH || text.length > MAX_TITLE_LENGTH) {
+      throw new TaskUpdateError(
+        'title',
+        `Название должно быть длиной от ${MIN_TITLE_LENGTH} до ${MAX_TITLE_LENGTH} символов`
+      );
+    }
+
+    return text;
+  }
+
+  /**
+   * Разбирает изменения задачи, пришедшие извне (API): только разрешённые поля,
+   * null очищает дедлайн, оценку, повтор и проект
+   */
+  parseTaskUpdates(input: unknown): Partial<Task> {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      throw new TaskUpdateError('body', 'Изменения должны быть объектом');
+    }
+
+    const body = input as Record<string, unknown>;
+    const updates: Partial<Task> = {};
+
+    for (const [field, value] of Object.entries(body)) {
+      if (!EDITABLE_TASK_FIELDS.includes(field)) {
+        throw new TaskUpdateError(field, `Поле ${field} нельзя изменить, допустимы: ${EDITABLE_TASK_FIELDS.join(', ')}`);
       }
+
+      switch (field) {
+        case 'title':
+          updates.title = this.validateTitle(value);
+          break;
+
+        case 'deadline': {
+          if (value === null) {
+            updates.deadline = undefined;
+            break;
+          }
+          const deadline = typeof value === 'string' || typeof value === 'number' ? new Date(value) : undefined;
+          if (!deadline || isNaN(deadline.getTime())) {
+            throw new TaskUpdateError(field, 'Дедлайн должен быть датой в формате ISO 8601 или null');
+          }
+          updates.deadline = deadline;
+          break;
+        }
+
+        case 'estimate':
+          updates.estimate = value === null ? undefined : this.validateEstimate(value);
+          break;
+
+        case 'priority':
+          updates.priority = value === null ? TaskPriority.NONE : this.validatePriority(value);
+          break;
+
+        case 'recurrence':
+          updates.recurrence = value === null ? undefined : this.validateRecurrence(value);
+          break;
+
+        case 'project':
+          if (value !== null && typeof value !== 'string') {
+            throw new TaskUpdateError(field, 'Проект должен быть строкой или null');
+          }
+          updates.projectName = value || '';
+          break;
+
+        case 'tags':
+          if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) {
+            throw new TaskUpdateError(field, 'Теги должны быть массивом строк');
+          }
+          updates.tags = value;
+          break;
+      }
+    }
+
+    return updates;
+  }
+
+  /**
+   * Проверяет оценку задачи в помидорах
+   */
+  validateEstimate(estimate: unknown): number {
+    if (typeof estimate !== 'number' || !Number.isInteger(estimate) || estimate < 1 || estimate > MAX_TASK_ESTIMATE) {
+      throw new TaskEstimateError(estimate, `Оценка должна быть целым числом от 1 до ${MAX_TASK_ESTIMATE} помидоров`);
     }
 
-    return { title, deadline };
+    return estimate;
   }
 
   /**
-   * Получает список задач пользователя
+   * Проверяет уровень приоритета: 0 — без приоритета, 1-3 — "!", "!!", "!!!"
+   */
+  validatePriority(priority: unknown): TaskPriority {
+    if (typeof priority !== 'number' || !Number.isInteger(priority) ||
+      priority < TaskPriority.NONE || priority > TaskPriority.HIGH) {
+      throw new TaskPriorityError(priority, `Приоритет должен быть целым числом от ${TaskPriority.NONE} до ${TaskPriority.HIGH}`);
+    }
+
+    return priority;
+  }
+
+  /**
+   * Проверяет правило повтора, пришедшее извне (API)
+   */
+  validateRecurrence(recurrence: unknown): RecurrenceRule {
+    const rule = recurrence as RecurrenceRule;
+    const fail = (message: string): never => {
+      throw new TaskRecurrenceError(recurrence, message);
+    };
+    const isInRange = (value: unknown, min: number, max: number): boolean =>
+      typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+    if (!rule || typeof rule !== 'object' || !Object.values(RecurrenceType).includes(rule.type)) {
+      fail(`Тип повтора должен быть одним из: ${Object.values(RecurrenceType).join(', ')}`);
+    }
+
+    switch (rule.type) {
+      case RecurrenceType.INTERVAL:
+        if (!isInRange(rule.interval, 1, MAX_RECURRENCE_INTERVAL)) {
+          fail(`Интервал повтора должен быть от 1 до ${MAX_RECURRENCE_INTERVAL} дней`);
+        }
+        return { type: rule.type, interval: rule.interval };
+      case RecurrenceType.WEEKLY:
+        if (rule.weekdays !== undefined && (!Array.isArray(rule.weekdays) || rule.weekdays.length === 0 ||
+          !rule.weekdays.every(day => isInRange(day, 1, 7)))) {
+          fail('Дни недели задаются непустым списком чисел от 1 (понедельник) до 7 (воскресенье)');
+        }
+        return { type: rule.type, weekdays: rule.weekdays && Array.from(new Set(rule.weekdays)).sort((a, b) => a - b) };
+      case RecurrenceType.MONTHLY:
+        if (rule.dayOfMonth !== undefined && !isInRange(rule.dayOfMonth, 1, 31)) {
+          fail('Число месяца должно быть от 1 до 31');
+        }
+        return { type: rule.type, dayOfMonth: rule.dayOfMonth };
+      default:
+        return { type: rule.type };
+    }
+  }
+
+  /**
+   * Парсит задачу из текста: "Название завтра в 15:00 🍅3 !!".
+   * Дедлайн разбирается в часовом поясе пользователя, см. utils/deadline,
+   * повтор ("каждый понедельник") — см. utils/recurrence.
+   */
+  parseTaskFromText(
+    text: string,
+    timezone: string = DEFAULT_TIMEZONE,
+    now: Date = new Date()
+  ): {
+    title: string;
+    deadline?: Date;
+    estimate?: number;
+    recurrence?: RecurrenceRule;
+    priority: TaskPriority;
+    project?: string;
+    tags: string[];
+  } {
+    // Теги и проект первыми: "#пятница" не должен стать дедлайном
+    const tags: string[] = [];
+    for (const tagMatch of text.matchAll(TAG_PATTERN)) {
+      const tag = this.normalizeTag(tagMatch[1]);
+      if (tag && !tags.includes(tag)) tags.push(tag);
+    }
+    text = text.replace(TAG_PATTERN, ' ');
+
+    const projectMatch = text.match(PROJECT_PATTERN);
+    const project = projectMatch ? this.normalizeProject(projectMatch[1]) || undefined : undefined;
+    text = text.replace(PROJECT_PATTERN, ' ').replace(/\s{2,}/g, ' ');
+
+    // Оценку вырезаем заранее, чтобы она не мешала разбору дедлайна
+    let estimate: number | undefined;
+    for (const pattern of ESTIMATE_PATTERNS) {
+      const estimateMatch = text.match(pattern);
+      if (!estimateMatch) continue;
+
+      const value = parseInt(estimateMatch[1], 10);
+      if (value >= 1 && value <= MAX_TASK_ESTIMATE) estimate = value;
+      text = text.replace(pattern, ' ').replace(/\s{2,}/g, ' ');
+      break;
+    }
+
+    let priority = TaskPriority.NONE;
+    for (const pattern of PRIORITY_PATTERNS) {
+      const priorityMatch = text.match(pattern);
+      if (!priorityMatch) continue;
+
+      priority = priorityMatch[1].length as TaskPriority;
+      text = text.replace(pattern, ' ').replace(/\s{2,}/g, ' ');
+      break;
+    }
+
+    // Повтор раньше дедлайна: "каждый понедельник" не должен стать разовым "в понедельник"
+    const { rule, rest: withoutRecurrence } = parseRecurrence(text);
+    const { deadline, rest } = parseDeadline(withoutRecurrence, timezone, now);
+
+    if (!rule) {
+      return { title: rest, deadline, estimate, priority, project, tags };
+    }
+
+    const first = completeRecurrence(rule, deadline || this.getEndOfToday(timezone, now), timezone);
+    return { title: rest, deadline: first.deadline, estimate, recurrence: first.rule, priority, project, tags };
+  }
+
+  /**
+   * Получает список задач пользователя с проектами и тегами
    */
   async getUserTasks(
     userId: string,
     includeCompleted = false,
-    includeSubtasks = true
+    includeSubtasks = true,
+    filter: TaskFilter = {}
   ): Promise<Task[]> {
-    let tasks = await db.getUserTasks(userId, includeSubtasks);
+    let tasks = await this.hydrateLabels(userId, await db.getUserTasks(userId, includeSubtasks));
+
+    // Прогресс родителей считается по всем подзадачам, до фильтров
+    if (includeSubtasks) {
+      tasks = this.attachProgress(tasks);
+    }
+
+    if (filter.tag) {
+      const tag = this.normalizeTag(filter.tag);
+      tasks = tasks.filter(t => t.tags?.includes(tag));
+    }
+    if (filter.projectId) {
+      tasks = tasks.filter(t => t.projectId === filter.projectId);
+    }
     
     if (includeSubtasks) {
       const parentIds = Array.from(
@@ -121,48 +557,240 @@ export class TaskService {
     }
     
     if (!includeCompleted) {
-      return tasks.filter(t => !t.completed);
+      return this.sortTasks(tasks.filter(t => !t.completed));
     }
     
     return tasks;
   }
 
+  /**
+   * Прогресс по прямым подзадачам для задач, у которых они есть в списке
+   */
+  private attachProgress(tasks: Task[]): Task[] {
+    const progress = new Map<string, TaskProgress>();
+
+    for (const task of tasks) {
+      if (!task.parentTaskId) continue;
+
+      const entry = progress.get(task.parentTaskId) || { completed: 0, total: 0 };
+      entry.total++;
+      if (task.completed) entry.completed++;
+      progress.set(task.parentTaskId, entry);
+    }
+
+    return tasks.map(task => progress.has(task.id) ? { ...task, progress: progress.get(task.id) } : task);
+  }
+
+  /**
+   * Порядок списка: выше приоритет, затем ближе дедлайн, затем новее
+   */
+  sortTasks(tasks: Task[]): Task[] {
+    return [...tasks].sort((a, b) => {
+      const priorityDiff = (b.priority || 0) - (a.priority || 0);
+      if (priorityDiff !== 0) return priorityDiff;
+
+      if (a.deadline && b.deadline) {
+        const deadlineDiff = a.deadline.getTime() - b.deadline.getTime();
+        if (deadlineDiff !== 0) return deadlineDiff;
+      } else if (a.deadline || b.deadline) {
+        return a.deadline ? -1 : 1;
+      }
+
+      return b.createdAt.getTime() - a.createdAt.getTime();
+    });
+  }
+
+  /**
+   * Квадрант задачи в матрице Эйзенхауэра
+   */
+  getQuadrant(task: Task, now: Date = new Date()): EisenhowerQuadrant {
+    const important = (task.priority || 0) >= TaskPriority.MEDIUM;
+    const urgent = Boolean(task.deadline) &&
+      (task.deadline as Date).getTime() - now.getTime() <= this.urgentHours * 60 * 60 * 1000;
+
+    if (important) return urgent ? EisenhowerQuadrant.DO : EisenhowerQuadrant.PLAN;
+    return urgent ? EisenhowerQuadrant.DELEGATE : EisenhowerQuadrant.ELIMINATE;
+  }
+
+  /**
+   * Активные задачи пользователя по квадрантам матрицы Эйзенхауэра,
+   * внутри квадранта — в порядке списка задач
+   */
+  async getTaskMatrix(userId: string, now: Date = new Date()): Promise<TaskMatrix> {
+    const matrix: TaskMatrix = {
+      [EisenhowerQuadrant.DO]: [],
+      [EisenhowerQuadrant.PLAN]: [],
+      [EisenhowerQuadrant.DELEGATE]: [],
+      [EisenhowerQuadrant.ELIMINATE]: []
+    };
+
+    for (const task of await this.getUserTasks(userId, false)) {
+      matrix[this.getQuadrant(task, now)].push(task);
+    }
+
+    return matrix;
+  }
+
+  /**
+   * Поиск по названиям задач пользователя, включая выполненные и подзадачи.
+   * Сначала лучшие совпадения, не больше SEARCH_LIMIT результатов.
+   */
+  async searchTasks(userId: string, query: string): Promise<Task[]> {
+    const text = typeof query === 'string' ? query.replace(/\s+/g, ' ').trim() : '';
+
+    if (text.length < MIN_SEARCH_LENGTH || text.length > MAX_SEARCH_LENGTH) {
+      throw new TaskSearchError(
+        query,
+        `Запрос должен быть длиной от ${MIN_SEARCH_LENGTH} до ${MAX_SEARCH_LENGTH} символов`
+      );
+    }
+
+    return this.hydrateLabels(userId, await db.searchTasks(userId, text, SEARCH_LIMIT));
+  }
+
   /**
    * Получает задачу по ID
    */
   async getTask(taskId: string): Promise<Task | undefined> {
-    return db.getTask(taskId);
+    const task = await db.getTask(taskId);
+    return task && (await this.hydrateLabels(task.userId, [task]))[0];
   }
 
   /**
-   * Отмечает задачу как выполненную
+   * Отмечает задачу как выполненную. Повторный вызов для уже выполненной
+   * задачи возвращает её без повторного начисления наград.
+   * Для повторяющейся задачи в той же транзакции создаётся следующее вхождение;
+   * у подзадачи оно уже самостоятельное, иначе родитель никогда бы не закрылся.
+   * Последняя открытая подзадача закрывает родителя, и так вверх по дереву;
+   * родителя с открытыми подзадачами вручную закрыть нельзя.
    */
-  async completeTask(taskId: string): Promise<Task | undefined> {
-    const task = await db.getTask(taskId);
-    if (!task) return undefined;
+  async completeTask(taskId: string): Promise<TaskCompletionResult | undefined> {
+    const result = await db.runInTransaction(async tx => {
+      const task = await tx.getTaskForUpdate(taskId);
+      if (!task) return undefined;
+
+      if (task.completed) {
+        return { task, completed: [] as CompletedTask[] };
+      }
+
+      const subtasks = await tx.getSubtasks(task.id);
+      if (subtasks.some(subtask => !subtask.completed)) {
+        throw new TaskUpdateError('completed', 'Сначала выполни подзадачи — задача закроется вместе с последней');
+      }
+
+      const own = await this.completeInTransaction(tx, task);
+      if (!own) return undefined;
+
+      const completed = [own];
+      const visited = new Set([task.id]);
+      let parentId = task.parentTaskId;
+
+      // Родитель блокируется до проверки детей: из двух параллельно закрытых
+      // последних подзадач родителя закроет та, что дождётся блокировки второй
+      while (parentId && !visited.has(parentId)) {
+        visited.add(parentId);
+
+        const parent = await tx.getTaskForUpdate(parentId);
+        if (!parent || parent.completed) break;
+
+        const children = await tx.getSubtasks(parentId);
+        if (children.some(child => !child.completed)) break;
+
+        const closed = await this.completeInTransaction(tx, parent);
+        if (!closed) break;
+
+        completed.push(closed);
+        parentId = parent.parentTaskId;
+      }
+
+      return { task: own.task, completed };
+    });
+
+    if (!result) return undefined;
+
+    await this.cancelReminders(taskId);
+
+    for (const { task, next } of result.completed) {
+      if (task.id !== taskId) await this.cancelReminders(task.id);
+      if (next) await this.syncReminders(next);
+    }
+
+    if (result.completed.some(entry => entry.reward > 0)) {
+      // Проверяем достижения
+      await gamificationService.checkAchievements(result.task.userId);
+    }
+
+    const [own, ...parents] = result.completed;
+    const [task, ...completedParents] = await this.hydrateLabels(
+      result.task.userId,
+      [result.task, ...parents.map(entry => entry.task)]
+    );
+    const next = own?.next && (await this.hydrateLabels(own.next.userId, [own.next]))[0];
 
-    const updated = await db.updateTask(taskId, {
+    return { task, reward: own?.reward || 0, next, completedParents };
+  }
+
+  /**
+   * Закрывает одну задачу внутри транзакции: счётчики, награда
+   * и следующее вхождение повторяющейся задачи
+   */
+  private async completeInTransaction(tx: Storage, task: Task): Promise<CompletedTask | undefined> {
+    const updated = await tx.updateTask(task.id, {
       completed: true,
       completedAt: new Date()
     });
+    if (!updated) return undefined;
 
-    if (updated) {
-      // Обновляем статистику пользователя
-      const user = await db.getUser(task.userId);
-      if (user) {
-        await db.updateUser(task.userId, {
-          completedTasks: user.completedTasks + 1
-        });
+    // Обновляем статистику пользователя
+    const user = await tx.incrementUserCounters(task.userId, { completedTasks: 1 });
+    if (user) {
+      // Награждаем FocusCoins
+      await gamificationService.awardFocusCoins(task.userId, TASK_REWARD, 'Задача выполнена', {
+        type: CoinSourceType.TASK,
+        id: task.id
+      }, tx);
+    }
 
-        // Награждаем FocusCoins
-        await gamificationService.awardFocusCoins(task.userId, 2, 'Task completed');
+    let next: Task | undefined;
+    if (user && updated.recurrence && updated.deadline) {
+      next = {
+        id: crypto.randomUUID(),
+        userId: updated.userId,
+        title: updated.title,
+        deadline: getNextOccurrence(updated.recurrence, updated.deadline, user.timezone || DEFAULT_TIMEZONE),
+        completed: false,
+        createdAt: new Date(),
+        estimate: updated.estimate,
+        recurrence: updated.recurrence,
+        priority: updated.priority,
+        projectId: updated.projectId
+      };
+      await tx.createTask(next);
 
-        // Проверяем достижения
-        await gamificationService.checkAchievements(task.userId);
+      const tagNames = (await tx.getTaskTags([task.id])).map(link => link.name);
+      if (tagNames.length > 0) {
+        const tags = await tx.getOrCreateTags(updated.userId, tagNames);
+        await tx.setTaskTags(next.id, tags.map(tag => tag.id));
       }
     }
 
-    return updated;
+    return { task: updated, next, reward: user ? TASK_REWARD : 0 };
+  }
+
+  /**
+   * Делает задачу повторяющейся. Без дедлайна первое вхождение — сегодня
+   * в конце дня, дедлайн сдвигается на ближайший подходящий по правилу день.
+   */
+  async setRecurrence(taskId: string, recurrence: RecurrenceRule): Promise<Task | undefined> {
+    return this.updateTask(taskId, { recurrence: this.validateRecurrence(recurrence) });
+  }
+
+  /**
+   * Останавливает серию: текущая задача остаётся, но следующая
+   * после её выполнения уже не создаётся
+   */
+  async stopRecurrence(taskId: string): Promise<Task | undefined> {
+    return db.updateTask(taskId, { recurrence: undefined });
   }
 
   /**
@@ -171,13 +799,16 @@ export class TaskService {
   async splitTask(taskId: string, subtaskTitles?: string[]): Promise<Task[]> {
     const task = await db.getTask(taskId);
     if (!task) throw new Error('Task not found');
+    this.assertSplittable(task);
 
-    // Если подзадачи не указаны, создаем стандартные
-    const titles = subtaskTitles || [
-      `${task.title} - Часть 1`,
-      `${task.title} - Часть 2`,
-      `${task.title} - Часть 3`
-    ];
+    // Если подзадачи не указаны, создаем стандартные; длинное название
+    // укорачиваем, чтобы с суффиксом части оно уместилось в MAX_TITLE_LENGTH
+    const base = task.title.slice(0, MAX_TITLE_LENGTH - ' - Часть 3'.length).trim();
+    const titles = (subtaskTitles || [
+      `${base} - Часть 1`,
+      `${base} - Часть 2`,
+      `${base} - Часть 3`
+    ]).map(title => this.validateTitle(title));
 
     const subtasks: Task[] = [];
 
@@ -189,23 +820,22 @@ export class TaskService {
         deadline: task.deadline,
         completed: false,
         createdAt: new Date(),
-        parentTaskId: taskId
+        parentTaskId: taskId,
+        projectId: task.projectId
       };
 
       await db.createTask(subtask);
+      await this.syncReminders(subtask);
       subtasks.push(subtask);
     }
 
-    // Обновляем родительскую задачу
-    await db.updateTask(taskId, {
-      subtasks: subtasks.map(st => st.id) as any
-    });
-
+    // Связь с родителем хранится в parent_task_id подзадач
     return subtasks;
   }
 
   /**
-   * Создаёт подзадачи с кастомными названиями
+   * Создаёт подзадачи с кастомными названиями. Родитель остаётся открытым
+   * и закроется сам вместе с последней подзадачей.
    */
   async createSubtasks(
     parentTaskId: string,
@@ -214,10 +844,12 @@ export class TaskService {
   ): Promise<Task[]> {
     const parentTask = await db.getTask(parentTaskId);
     if (!parentTask) throw new Error('Parent task not found');
+    this.assertSplittable(parentTask);
 
+    const titles = subtaskTitles.map(title => this.validateTitle(title));
     const subtasks: Task[] = [];
 
-    for (const title of subtaskTitles) {
+    for (const title of titles) {
       const subtask: Task = {
         id: crypto.randomUUID(),
         userId: parentTask.userId,
@@ -225,23 +857,36 @@ export class TaskService {
         completed: false,
         deadline: parentDeadline || parentTask.deadline, // Наследуем дедлайн
         parentTaskId: parentTaskId,
+        projectId: parentTask.projectId,
         createdAt: new Date()
       };
 
       await db.createTask(subtask);
+      await this.syncReminders(subtask);
       subtasks.push(subtask);
     }
 
-    // Отмечаем родительскую задачу как завершённую
-    await db.updateTask(parentTaskId, { completed: true });
-
     return subtasks;
   }
 
   /**
-   * Откладывает задачу (переносит дедлайн)
+   * Выполненную задачу не разбиваем: открытые подзадачи у закрытого
+   * родителя сломали бы прогресс, а его повторное закрытие — награды
+   */
+  private assertSplittable(task: Task): void {
+    if (task.completed) {
+      throw new TaskUpdateError('completed', 'Нельзя разбить выполненную задачу');
+    }
+  }
+
+  /**
+   * Откладывает задачу (переносит дедлайн) на hours часов
    */
   async postponeTask(taskId: string, hours: number): Promise<Task | undefined> {
+    if (typeof hours !== 'number' || !Number.isFinite(hours) || hours <= 0) {
+      throw new TaskUpdateError('hours', 'Перенос задаётся положительным числом часов');
+    }
+
     const task = await db.getTask(taskId);
     if (!task) return undefined;
 
@@ -249,19 +894,26 @@ export class TaskService {
       ? new Date(task.deadline.getTime() + hours * 60 * 60 * 1000)
       : new Date(Date.now() + hours * 60 * 60 * 1000);
 
-    return db.updateTask(taskId, { deadline: newDeadline });
+    const updated = await db.updateTask(taskId, { deadline: newDeadline });
+    if (updated) {
+      await this.syncReminders(updated);
+    }
+
+    return updated;
   }
 
   /**
    * Удаляет задачу
    */
   async deleteTask(taskId: string): Promise<boolean> {
-    // Удаляем также подзадачи
-    const subtasks = await db.getSubtasks(taskId);
-    for (const subtask of subtasks) {
+    // Удаляем также подзадачи на всю глубину, начиная с листьев
+    const descendants = await this.getDescendants(taskId);
+    for (const subtask of descendants.reverse()) {
+      await this.cancelReminders(subtask.id);
       await db.deleteTask(subtask.id);
     }
 
+    await this.cancelReminders(taskId);
     return db.deleteTask(taskId);
   }
 
@@ -269,13 +921,200 @@ export class TaskService {
    * Обновляет задачу
    */
   async updateTask(taskId: string, updates: Partial<Task>): Promise<Task | undefined> {
-    return db.updateTask(taskId, updates);
+    // Теги и проект хранятся в своих таблицах, в tasks пишется только projectId
+    const { tags, projectName, ...columns } = updates;
+    updates = columns;
+
+    if (updates.title !== undefined) {
+      updates = { ...updates, title: this.validateTitle(updates.title) };
+    }
+
+    if (updates.estimate != null) {
+      this.validateEstimate(updates.estimate);
+    }
+
+    if (updates.priority != null) {
+      this.validatePriority(updates.priority);
+    }
+
+    if (updates.recurrence != null || ('deadline' in updates && !updates.deadline)) {
+      const current = await db.getTask(taskId);
+      if (!current) return undefined;
+      updates = await this.applyRecurrenceRules(current, updates);
+    }
+
+    let updated = await db.updateTask(taskId, updates);
+
+    if (updated && ('deadline' in updates || 'completed' in updates)) {
+      await this.syncReminders(updated);
+    }
+
+    if (updated && tags !== undefined) {
+      await this.setTaskTags(updated, tags);
+    }
+
+    if (updated && projectName !== undefined) {
+      updated = await this.setTaskProject(taskId, projectName);
+    }
+
+    return updated && (await this.hydrateLabels(updated.userId, [updated]))[0];
+  }
+
+  /**
+   * У повторяющейся задачи всегда есть дедлайн — от него считается следующее
+   * вхождение. Новое правило дополняется и выравнивает дедлайн, как в createTask;
+   * убрать дедлайн можно только вместе с повтором.
+   */
+  private async applyRecurrenceRules(task: Task, updates: Partial<Task>): Promise<Partial<Task>> {
+    const recurrence = 'recurrence' in updates ? updates.recurrence : task.recurrence;
+    if (!recurrence) return updates;
+
+    if ('deadline' in updates && !updates.deadline) {
+      throw new TaskRecurrenceError(recurrence, 'У повторяющейся задачи должен быть дедлайн — сначала останови повтор');
+    }
+
+    if (updates.recurrence == null) return updates;
+
+    const timezone = (await db.getUser(task.userId))?.timezone || DEFAULT_TIMEZONE;
+    const { rule, deadline } = completeRecurrence(
+      this.validateRecurrence(updates.recurrence),
+      updates.deadline || task.deadline || this.getEndOfToday(timezone),
+      timezone
+    );
+
+    return { ...updates, recurrence: rule, deadline };
+  }
+
+  /**
+   * Перепланирует напоминания о дедлайне: старые снимаются,
+   * на каждое смещение, которое ещё впереди, ставится новое
+   */
+  async syncReminders(task: Task): Promise<void> {
+    await this.cancelReminders(task.id);
+
+    if (!task.deadline || task.completed) return;
+
+    for (const offset of this.reminderOffsets) {
+      const runAt = this.getReminderTime(task.deadline, offset);
+      if (runAt.getTime() <= Date.now()) continue;
+
+      await this.scheduleReminder(task, offset, runAt);
+    }
   }
 
   /**
-   * Форматирует задачу для отображения
+   * Ставит напоминания задачам, у которых их нет (задачи, созданные до
+   * появления напоминаний). Уже сработавшие напоминания не повторяются.
    */
-  formatTask(task: Task, index?: number, parentTitle?: string): string {
+  async scheduleMissingReminders(): Promise<number> {
+    const jobIds = new Set((await db.getScheduledJobs()).map(job => job.id));
+    const users = await db.getAllUsers();
+
+    let scheduled = 0;
+    for (const user of users) {
+      const tasks = await db.getUserTasks(user.id);
+
+      for (const task of tasks) {
+        if (!task.deadline || task.completed) continue;
+
+        for (const offset of this.reminderOffsets) {
+          const runAt = this.getReminderTime(task.deadline, offset);
+          if (runAt.getTime() <= Date.now()) continue;
+          if (jobIds.has(this.getReminderJobId(task.id, offset))) continue;
+
+          await this.scheduleReminder(task, offset, runAt);
+          scheduled++;
+        }
+      }
+    }
+
+    return scheduled;
+  }
+
+  /**
+   * Нужно ли сейчас отправлять напоминание с этим смещением.
+   * Если бот лежал и сработало сразу несколько напоминаний,
+   * отправляется только самое актуальное; после дедлайна — ни одного.
+   */
+  isReminderDue(task: Task, offsetMinutes: number): boolean {
+    if (!task.deadline || task.completed) return false;
+
+    const minutesLeft = Math.floor((task.deadline.getTime() - Date.now()) / 60000);
+    if (minutesLeft < 0) return false;
+
+    const current = this.reminderOffsets
+      .filter(offset => offset >= minutesLeft)
+      .pop();
+
+    return current === offsetMinutes;
+  }
+
+  async cancelReminders(taskId: string): Promise<void> {
+    await schedulerService.cancelByPrefix(`${ScheduledJobType.TASK_REMINDER}:${taskId}:`);
+  }
+
+  private async scheduleReminder(task: Task, offsetMinutes: number, runAt: Date): Promise<void> {
+    await schedulerService.schedule(
+      ScheduledJobType.TASK_REMINDER,
+      this.getReminderJobId(task.id, offsetMinutes),
+      runAt,
+      { taskId: task.id, offsetMinutes }
+    );
+  }
+
+  private getReminderJobId(taskId: string, offsetMinutes: number): string {
+    return `${ScheduledJobType.TASK_REMINDER}:${taskId}:${offsetMinutes}`;
+  }
+
+  private getReminderTime(deadline: Date, offsetMinutes: number): Date {
+    return new Date(deadline.getTime() - offsetMinutes * 60 * 1000);
+  }
+
+  /**
+   * Подставляет задачам имена проектов и тегов
+   */
+  private async hydrateLabels(userId: string, tasks: Task[]): Promise<Task[]> {
+    if (tasks.length === 0) return tasks;
+
+    const [projects, links] = await Promise.all([
+      tasks.some(t => t.projectId) ? db.getUserProjects(userId) : Promise.resolve([]),
+      db.getTaskTags(tasks.map(t => t.id))
+    ]);
+    const projectNames = new Map(projects.map(p => [p.id, p.name]));
+
+    return tasks.map(task => ({
+      ...task,
+      projectName: task.projectId ? projectNames.get(task.projectId) : undefined,
+      tags: links.filter(link => link.taskId === task.id).map(link => link.name)
+    }));
+  }
+
+  private normalizeTag(name: string): string {
+    return name.replace(/^#/, '').trim().replace(/\s+/g, '_').toLowerCase().slice(0, MAX_LABEL_LENGTH);
+  }
+
+  private normalizeProject(name: string): string {
+    return name.replace(/^@/, '').trim().replace(/\s+/g, '_').slice(0, MAX_LABEL_LENGTH);
+  }
+
+  private getEndOfToday(timezone: string, now: Date = new Date()): Date {
+    const local = getLocalTime(now, timezone);
+    return fromLocalTime(local.year, local.month, local.day, 23, 59, timezone);
+  }
+
+  private parseReminderOffsets(value: string): number[] {
+    const offsets = value
+      .split(',')
+      .map(part => parseInt(part.trim(), 10))
+      .filter(offset => Number.isFinite(offset) && offset > 0);
+
+    return Array.from(new Set(offsets)).sort((a, b) => b - a);
+  }
+
+  /**
+   * Форматирует задачу для отображения. Дедлайн — в поясе пользователя.
+   */
+  formatTask(task: Task, index?: number, parentTitle?: string, timezone: string = DEFAULT_TIMEZONE): string {
     let text = '';
     
     if (index !== undefined) {
@@ -296,6 +1135,14 @@ export class TaskService {
     
     text += `*${task.title}*`;
 
+    if (task.priority) {
+      text += ` ${PRIORITY_MARKERS[task.priority]}`;
+    }
+
+    if (task.progress) {
+      text += ` (${task.progress.completed}/${task.progress.total} ✅)`;
+    }
+
     if (parentTitle) {
       text += `\n  └ _Из: ${parentTitle}_`;
     }
@@ -305,31 +1152,56 @@ export class TaskService {
       const now = new Date();
       const diffHours = Math.floor((deadline.getTime() - now.getTime()) / (1000 * 60 * 60));
       
+      // "Сегодня" и "Завтра" — по календарю пользователя, а не по 24 часам
+      const today = getDateKey(now, timezone);
+      const deadlineDay = getDateKey(deadline, timezone);
+
       let deadlineText = '';
       if (diffHours < 0) {
         deadlineText = ' ⚠️ Просрочено';
       } else if (diffHours < 2) {
         deadlineText = ' 🔥 Срочно (<2ч)';
-      } else if (diffHours < 24) {
-        deadlineText = ` ⏰ Сегодня ${deadline.getHours()}:${deadline.getMinutes().toString().padStart(2, '0')}`;
-      } else if (diffHours < 48) {
+      } else if (deadlineDay === today) {
+        deadlineText = ` ⏰ Сегодня ${formatLocalTime(deadline, timezone)}`;
+      } else if (deadlineDay === shiftDateKey(today, 1)) {
         deadlineText = ' 📅 Завтра';
       } else {
-        const day = deadline.getDate();
-        const month = deadline.getMonth() + 1;
-        deadlineText = ` 📅 ${day}.${month.toString().padStart(2, '0')}`;
+        const local = getLocalTime(deadline, timezone);
+        deadlineText = ` 📅 ${local.day}.${local.month.toString().padStart(2, '0')}`;
       }
       
       text += deadlineText;
     }
 
+    if (task.recurrence) {
+      text += `\n  🔁 ${formatRecurrence(task.recurrence)}`;
+    }
+
+    if (task.projectName || task.tags?.length) {
+      const labels = [
+        ...(task.projectName ? [`📁 @${task.projectName}`] : []),
+        ...(task.tags || []).map(tag => `#${tag}`)
+      ];
+      text += `\n  ${labels.join(' ')}`;
+    }
+
+    const sessions = task.focusSessions || 0;
+    if (task.estimate) {
+      // Оценка против факта: "🍅 2/3", перерасход помечаем
+      text += `\n  🍅 ${sessions}/${task.estimate}`;
+      if (task.focusMinutes) text += ` • ${formatDuration(task.focusMinutes)} фокуса`;
+      if (sessions > task.estimate) text += ' ⚠️ больше оценки';
+    } else if (sessions || task.focusMinutes) {
+      text += `\n  🍅 ${sessions} сесс. • ${formatDuration(task.focusMinutes || 0)} фокуса`;
+    }
+
     return text;
   }
 
   /**
    * Форматирует список задач
    */
-  formatTaskList(tasks: Task[]): string {
+  formatTaskList(tasks: Task[], timezone: string = DEFAULT_TIMEZONE): string {
     if (tasks.length === 0) {
       return 'У тебя пока нет задач. Добавь новую! 📝';
     }
@@ -340,7 +1212,7 @@ export class TaskService {
     let text = `📋 Твои задачи (${activeTasks.length}):\n\n`;
 
     activeTasks.forEach((task, idx) => {
-      text += this.formatTask(task, idx, task.parentTitle) + '\n';
+      text += this.formatTask(task, idx, task.parentTitle, timezone) + '\n';
     });
 
     if (completedTasks.length > 0 && completedTasks.length <= 5) {
@@ -361,6 +1233,71 @@ export class TaskService {
     return db.getSubtasks(parentTaskId);
   }
 
+  /**
+   * Задача с деревом подзадач любой глубины: subtasks и progress
+   * заполнены на каждом уровне
+   */
+  async getTaskTree(taskId: string): Promise<Task | undefined> {
+    const task = await this.getTask(taskId);
+    if (!task) return undefined;
+
+    const visited = new Set<string>();
+    const build = async (node: Task): Promise<Task> => {
+      visited.add(node.id);
+      const children = (await db.getSubtasks(node.id)).filter(child => !visited.has(child.id));
+      const subtasks = await Promise.all(children.map(child => build(child)));
+      return {
+        ...node,
+        subtasks,
+        progress: subtasks.length > 0
+          ? { completed: subtasks.filter(child => child.completed).length, total: subtasks.length }
+          : undefined
+      };
+    };
+
+    return build(task);
+  }
+
+  /**
+   * Цепочка родителей задачи от корня до непосредственного родителя
+   */
+  async getTaskPath(task: Task): Promise<Task[]> {
+    const path: Task[] = [];
+    const visited = new Set([task.id]);
+    let parentId = task.parentTaskId;
+
+    while (parentId && !visited.has(parentId)) {
+      visited.add(parentId);
+      const parent = await db.getTask(parentId);
+      if (!parent) break;
+
+      path.unshift(parent);
+      parentId = parent.parentTaskId;
+    }
+
+    return path;
+  }
+
+  /**
+   * Все подзадачи на любой глубине, родители раньше детей
+   */
+  private async getDescendants(taskId: string): Promise<Task[]> {
+    const result: Task[] = [];
+    const visited = new Set([taskId]);
+    const queue = [taskId];
+
+    while (queue.length > 0) {
+      for (const child of await db.getSubtasks(queue.shift() as string)) {
+        if (visited.has(child.id)) continue;
+        visited.add(child.id);
+        result.push(child);
+        queue.push(child.id);
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Получает статистику по задачам
    */
@@ -379,6 +1316,67 @@ export class TaskService {
       overdue: overdueTasks.length
     };
   }
+
+  /**
+   * Фокус и выполненные задачи по проектам за всё время, больше фокуса — выше.
+   * Задачи без проекта идут последней строкой, если по ним что-то есть.
+   */
+  async getProjectStats(userId: string): Promise<ProjectStats[]> {
+    const [projects, tasks] = await Promise.all([
+      db.getUserProjects(userId),
+      db.getUserTasks(userId, true)
+    ]);
+
+    const empty = (projectId: string | undefined, name: string): ProjectStats =>
+      ({ projectId, name, focusMinutes: 0, focusSessions: 0, completedTasks: 0, activeTasks: 0 });
+    const byProject = new Map(projects.map(p => [p.id, empty(p.id, p.name)]));
+    const withoutProject = empty(undefined, 'Без проекта');
+
+    for (const task of tasks) {
+      const stats = (task.projectId && byProject.get(task.projectId)) || withoutProject;
+      stats.focusMinutes += task.focusMinutes || 0;
+      stats.focusSessions += task.focusSessions || 0;
+      if (task.completed) stats.completedTasks++;
+      else stats.activeTasks++;
+    }
+
+    const result = Array.from(byProject.values())
+      .sort((a, b) => b.focusMinutes - a.focusMinutes || b.completedTasks - a.completedTasks);
+
+    if (projects.length > 0 && (withoutProject.focusMinutes > 0 || withoutProject.completedTasks > 0)) {
+      result.push(withoutProject);
+    }
+
+    return result;
+  }
+
+  /**
+   * Точность оценок: выполненные задачи с оценкой против фактических сессий
+   */
+  async getEstimateAccuracy(userId: string): Promise<EstimateAccuracy> {
+    const tasks = (await db.getUserTasks(userId, true))
+      .filter(t => t.completed && t.estimate);
+
+    const report: EstimateAccuracy = { tasks: tasks.length, estimated: 0, actual: 0, exact: 0, under: 0, over: 0, ratio: 0 };
+
+    for (const task of tasks) {
+      const estimate = task.estimate as number;
+      const actual = task.focusSessions || 0;
+
+      report.estimated += estimate;
+      report.actual += actual;
+
+      if (actual > estimate) report.under++;
+      else if (actual < estimate) report.over++;
+      else report.exact++;
+    }
+
+    report.ratio = report.estimated > 0
+      ? Math.round((report.actual / report.estimated) * 100) / 100
+      : 0;
+
+    return report;
+  }
 }
 
 export const taskService = new TaskService();
@@ -1,8 +1,20 @@
 import PostgresDatabase from './postgres';
+import MemoryDatabase from './memory';
+import { Storage } from './types';
 
-export const db = new PostgresDatabase();
+export { Storage } from './types';
+
+/**
+ * PostgreSQL используется по умолчанию.
+ * USE_POSTGRES=false включает in-memory хранилище (без Docker и БД).
+ */
+const usePostgres = process.env.USE_POSTGRES !== 'false';
+
+export const db: Storage = usePostgres ? new PostgresDatabase() : new MemoryDatabase();
 
 export async function initializeDatabase(): Promise<void> {
   await db.initialize();
-  console.log('✅ PostgreSQL connected');
+  console.log(usePostgres
+    ? '✅ PostgreSQL connected'
+    : '✅ In-memory storage initialized (данные не сохраняются между перезапусками)');
 }
@@ -0,0 +1,548 @@
+import * as crypto from 'crypto';
+import {
+  User, Task, Pod, PomodoroSession, BotState, UserStats, Notification, PodStatus,
+  CoinTransaction, ScheduledJob, NotificationSettings, Project, Tag
+} from '../types';
+import { Storage, UserCounters, TaskCounters, StatsCounters, TaskTagLink } from './types';
+
+interface MemoryTables {
+  users: Map<string, User>;
+  tasks: Map<string, Task>;
+  pods: Map<string, Pod>;
+  sessions: Map<string, PomodoroSession>;
+  botStates: Map<string, BotState>;
+  notifications: Map<string, Notification>;
+  userStats: Map<string, UserStats>;
+  coinTransactions: Map<string, CoinTransaction>;
+  scheduledJobs: Map<string, ScheduledJob>;
+  notificationSettings: Map<string, NotificationSettings>;
+  projects: Map<string, Project>;
+  tags: Map<string, Tag>;
+  taskTags: Map<string, string[]>; // taskId -> tagIds
+}
+
+interface MemoryState {
+  tables: MemoryTables;
+  transactionLock: Promise<void>;
+}
+
+/**
+ * In-memory хранилище для локальной разработки без PostgreSQL.
+ * Повторяет семантику PostgresDatabase: сортировки, upsert'ы и каскады.
+ * Данные живут только до перезапуска процесса.
+ */
+class MemoryDatabase implements Storage {
+  private state: MemoryState;
+  private inTransaction: boolean;
+
+  constructor(state?: MemoryState, inTransaction = false) {
+    this.state = state || { tables: createTables(), transactionLock: Promise.resolve() };
+    this.inTransaction = inTransaction;
+  }
+
+  private get users() { return this.state.tables.users; }
+  private get tasks() { return this.state.tables.tasks; }
+  private get pods() { return this.state.tables.pods; }
+  private get sessions() { return this.state.tables.sessions; }
+  private get botStates() { return this.state.tables.botStates; }
+  private get notifications() { return this.state.tables.notifications; }
+  private get userStats() { return this.state.tables.userStats; }
+  private get coinTransactions() { return this.state.tables.coinTransactions; }
+  private get scheduledJobs() { return this.state.tables.scheduledJobs; }
+  private get notificationSettings() { return this.state.tables.notificationSettings; }
+  private get projects() { return this.state.tables.projects; }
+  private get tags() { return this.state.tables.tags; }
+  private get taskTags() { return this.state.tables.taskTags; }
+
+  async initialize(): Promise<void> {
+    // Схема не нужна
+  }
+
+  /**
+   * Транзакции выполняются строго по очереди. При ошибке таблицы
+   * восстанавливаются из снимка (записи вне транзакций за это время
+   * тоже откатятся — для dev-хранилища это допустимо).
+   */
+  async runInTransaction<T>(fn: (tx: Storage) => Promise<T>): Promise<T> {
+    if (this.inTransaction) return fn(this);
+
+    const previous = this.state.transactionLock;
+    let release!: () => void;
+    this.state.transactionLock = new Promise<void>(resolve => { release = resolve; });
+    await previous;
+
+    const snapshot = structuredClone(this.state.tables);
+    try {
+      return await fn(new MemoryDatabase(this.state, true));
+    } catch (error) {
+      this.state.tables = snapshot;
+      throw error;
+    } finally {
+      release();
+    }
+  }
+
+  async getUser(userId: string): Promise<User | undefined> {
+    return clone(this.users.get(userId));
+  }
+
+  async getUserForUpdate(userId: string): Promise<User | undefined> {
+    // Блокировку строки заменяет очередь транзакций
+    return this.getUser(userId);
+  }
+
+  async getUserByMaxId(maxUserId: string): Promise<User | undefined> {
+    const user = Array.from(this.users.values()).find(u => u.maxUserId === maxUserId);
+    return clone(user);
+  }
+
+  async createUser(user: User): Promise<User> {
+    if (Array.from(this.users.values()).some(u => u.maxUserId === user.maxUserId)) {
+      throw new Error(`User with max_user_id ${user.maxUserId} already exists`);
+    }
+    this.users.set(user.id, clone(user));
+    return user;
+  }
+
+  async updateUser(userId: string, updates: Partial<User>): Promise<User | undefined> {
+    return this.patch(this.users, userId, updates);
+  }
+
+  async incrementUserCounters(userId: string, deltas: Partial<UserCounters>): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+
+    for (const [key, value] of Object.entries(deltas) as [keyof UserCounters, number][]) {
+      if (value) user[key] = (user[key] || 0) + value;
+    }
+
+    return clone(user);
+  }
+
+  async addUserAchievement(userId: string, achievementId: string): Promise<boolean> {
+    const user = this.users.get(userId);
+    if (!user || user.achievements.includes(achievementId)) return false;
+
+    user.achievements.push(achievementId);
+    return true;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).map(clone);
+  }
+
+  async getTask(taskId: string): Promise<Task | undefined> {
+    return clone(this.tasks.get(taskId));
+  }
+
+  async getTaskForUpdate(taskId: string): Promise<Task | undefined> {
+    // Блокировку строки заменяет очередь транзакций
+    return this.getTask(taskId);
+  }
+
+  async getUserTasks(userId: string, includeCompleted = false): Promise<Task[]> {
+    const tasks = Array.from(this.tasks.values()).filter(t => t.userId === userId);
+
+    if (includeCompleted) {
+      return tasks.sort(byDateDesc(t => t.createdAt)).map(clone);
+    }
+
+    return tasks
+      .filter(t => !t.completed)
+      .sort((a, b) => {
+        if (a.deadline && b.deadline) {
+          const diff = a.deadline.getTime() - b.deadline.getTime();
+          if (diff !== 0) return diff;
+        } else if (a.deadline || b.deadline) {
+          return a.deadline ? -1 : 1;
+        }
+        return b.createdAt.getTime() - a.createdAt.getTime();
+      })
+      .map(clone);
+  }
+
+  async createTask(task: Task): Promise<Task> {
+    this.tasks.set(task.id, clone(task));
+    return task;
+  }
+
+  async updateTask(taskId: string, updates: Partial<Task>): Promise<Task | undefined> {
+    return this.patch(this.tasks, taskId, updates);
+  }
+
+  async deleteTask(taskId: string): Promise<boolean> {
+    const deleted = this.tasks.delete(taskId);
+
+    // ON DELETE SET NULL для parent_task_id
+    if (deleted) {
+      // ON DELETE CASCADE для task_tags
+      this.taskTags.delete(taskId);
+
+      for (const task of this.tasks.values()) {
+        if (task.parentTaskId === taskId) {
+          task.parentTaskId = undefined;
+        }
+      }
+
+      // ON DELETE SET NULL для pomodoro_sessions.task_id
+      for (const session of this.sessions.values()) {
+        if (session.taskId === taskId) {
+          session.taskId = undefined;
+        }
+      }
+    }
+
+    return deleted;
+  }
+
+  async incrementTaskCounters(taskId: string, deltas: Partial<TaskCounters>): Promise<Task | undefined> {
+    const task = this.tasks.get(taskId);
+    if (!task) return undefined;
+
+    for (const [key, value] of Object.entries(deltas) as [keyof TaskCounters, number][]) {
+      if (value) task[key] = (task[key] || 0) + value;
+    }
+
+    return clone(task);
+  }
+
+  async getSubtasks(parentTaskId: string): Promise<Task[]> {
+    return Array.from(this.tasks.values())
+      .filter(t => t.parentTaskId === parentTaskId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(clone);
+  }
+
+  async searchTasks(userId: string, query: string, limit: number): Promise<Task[]> {
+    // Без морфологии Postgres: каждое слово запроса — начало слова в названии
+    const normalize = (text: string) => text.toLowerCase().replace(/ё/g, 'е');
+    const toWords = (text: string) => text.match(/[\p{L}\p{N}]+/gu) || [];
+    const phrase = normalize(query);
+    const words = toWords(phrase);
+
+    return Array.from(this.tasks.values())
+      .filter(t => {
+        if (t.userId !== userId) return false;
+        const title = normalize(t.title);
+        const titleWords = toWords(title);
+        return title.includes(phrase) ||
+          (words.length > 0 && words.every(word => titleWords.some(w => w.startsWith(word))));
+      })
+      .sort((a, b) => Number(a.completed) - Number(b.completed) || b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit)
+      .map(clone);
+  }
+
+  async getOrCreateProject(userId: string, name: string): Promise<Project> {
+    const existing = Array.from(this.projects.values())
+      .find(p => p.userId === userId && p.name.toLowerCase() === name.toLowerCase());
+    if (existing) return clone(existing);
+
+    const project: Project = { id: crypto.randomUUID(), userId, name, createdAt: new Date() };
+    this.projects.set(project.id, project);
+    return clone(project);
+  }
+
+  async getUserProjects(userId: string): Promise<Project[]> {
+    return Array.from(this.projects.values())
+      .filter(p => p.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(clone);
+  }
+
+  async getOrCreateTags(userId: string, names: string[]): Promise<Tag[]> {
+    const userTags = Array.from(this.tags.values()).filter(t => t.userId === userId);
+
+    for (const name of new Set(names)) {
+      if (userTags.some(t => t.name === name)) continue;
+
+      const tag: Tag = { id: crypto.randomUUID(), userId, name, createdAt: new Date() };
+      this.tags.set(tag.id, tag);
+      userTags.push(tag);
+    }
+
+    return userTags
+      .filter(t => names.includes(t.name))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(clone);
+  }
+
+  async getUserTags(userId: string): Promise<Tag[]> {
+    return Array.from(this.tags.values())
+      .filter(t => t.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(clone);
+  }
+
+  async setTaskTags(taskId: string, tagIds: string[]): Promise<void> {
+    if (tagIds.length === 0) {
+      this.taskTags.delete(taskId);
+      return;
+    }
+    this.taskTags.set(taskId, Array.from(new Set(tagIds)));
+  }
+
+  async getTaskTags(taskIds: string[]): Promise<TaskTagLink[]> {
+    const links: TaskTagLink[] = [];
+
+    for (const taskId of taskIds) {
+      for (const tagId of this.taskTags.get(taskId) || []) {
+        const tag = this.tags.get(tagId);
+        if (tag) links.push({ taskId, name: tag.name });
+      }
+    }
+
+    return links.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getPod(podId: string): Promise<Pod | undefined> {
+    return clone(this.pods.get(podId));
+  }
+
+  async getPodForUpdate(podId: string): Promise<Pod | undefined> {
+    return this.getPod(podId);
+  }
+
+  async createPod(pod: Pod): Promise<Pod> {
+    this.pods.set(pod.id, clone(pod));
+    return pod;
+  }
+
+  async updatePod(podId: string, updates: Partial<Pod>): Promise<Pod | undefined> {
+    return this.patch(this.pods, podId, updates);
+  }
+
+  async getUserPods(userId: string): Promise<Pod[]> {
+    return Array.from(this.pods.values())
+      .filter(p => p.participants.some(participant => participant.userId === userId))
+      .sort(byDateDesc(p => p.createdAt))
+      .map(clone);
+  }
+
+  async getActivePods(): Promise<Pod[]> {
+    return Array.from(this.pods.values())
+      .filter(p => p.status === PodStatus.ACTIVE || p.status === PodStatus.WAITING)
+      .map(clone);
+  }
+
+  async getAllPods(): Promise<Pod[]> {
+    return Array.from(this.pods.values()).map(clone);
+  }
+
+  async getPodByInviteCode(inviteCode: string): Promise<Pod | undefined> {
+    const pod = Array.from(this.pods.values()).find(p => p.inviteCode === inviteCode);
+    return clone(pod);
+  }
+
+  async getSession(sessionId: string): Promise<PomodoroSession | undefined> {
+    return clone(this.sessions.get(sessionId));
+  }
+
+  async getSessionForUpdate(sessionId: string): Promise<PomodoroSession | undefined> {
+    return this.getSession(sessionId);
+  }
+
+  async createSession(session: PomodoroSession): Promise<PomodoroSession> {
+    this.sessions.set(session.id, clone(session));
+    return session;
+  }
+
+  async updateSession(sessionId: string, updates: Partial<PomodoroSession>): Promise<PomodoroSession | undefined> {
+    return this.patch(this.sessions, sessionId, updates);
+  }
+
+  async getUserSessions(userId: string): Promise<PomodoroSession[]> {
+    return Array.from(this.sessions.values())
+      .filter(s => s.userId === userId)
+      .sort(byDateDesc(s => s.startTime))
+      .map(clone);
+  }
+
+  async getUnfinishedSessions(): Promise<PomodoroSession[]> {
+    return Array.from(this.sessions.values())
+      .filter(s => !s.completed && !s.endTime)
+      .map(clone);
+  }
+
+  async getBotState(userId: string): Promise<BotState | undefined> {
+    return clone(this.botStates.get(userId));
+  }
+
+  async setBotState(state: BotState): Promise<BotState> {
+    this.botStates.set(state.userId, clone(state));
+    return state;
+  }
+
+  async clearBotState(userId: string): Promise<boolean> {
+    return this.botStates.delete(userId);
+  }
+
+  async createNotification(notification: Notification): Promise<Notification> {
+    this.notifications.set(notification.id, clone(notification));
+    return notification;
+  }
+
+  async getUserNotifications(userId: string): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(n => n.userId === userId)
+      .sort(byDateDesc(n => n.sentAt))
+      .map(clone);
+  }
+
+  async markNotificationRead(notificationId: string): Promise<boolean> {
+    const notification = this.notifications.get(notificationId);
+    if (!notification) return false;
+
+    notification.read = true;
+    return true;
+  }
+
+  async getNotificationSettings(userId: string): Promise<NotificationSettings | undefined> {
+    const settings = this.notificationSettings.get(userId);
+    return settings ? clone(settings) : undefined;
+  }
+
+  async saveNotificationSettings(settings: NotificationSettings): Promise<NotificationSettings> {
+    this.notificationSettings.set(settings.userId, clone(settings));
+    return settings;
+  }
+
+  async getUserStats(userId: string): Promise<UserStats | undefined> {
+    return clone(this.userStats.get(userId));
+  }
+
+  async updateUserStats(userId: string, stats: Partial<UserStats>): Promise<UserStats> {
+    const updated: UserStats = { ...this.getOrCreateStats(userId), ...clone(stats), userId };
+    this.userStats.set(userId, updated);
+
+    return clone(updated);
+  }
+
+  async incrementUserStats(userId: string, deltas: Partial<StatsCounters>): Promise<UserStats> {
+    const stats = this.getOrCreateStats(userId);
+
+    for (const [key, value] of Object.entries(deltas) as [keyof StatsCounters, number][]) {
+      if (value) stats[key] = (stats[key] || 0) + value;
+    }
+    this.userStats.set(userId, stats);
+
+    return clone(stats);
+  }
+
+  async createCoinTransaction(transaction: CoinTransaction): Promise<CoinTransaction> {
+    this.coinTransactions.set(transaction.id, clone(transaction));
+    return transaction;
+  }
+
+  async getUserCoinTransactions(userId: string, limit?: number): Promise<CoinTransaction[]> {
+    const transactions = Array.from(this.coinTransactions.values())
+      .filter(t => t.userId === userId)
+      .sort(byDateDesc(t => t.createdAt));
+
+    return (limit !== undefined ? transactions.slice(0, limit) : transactions).map(clone);
+  }
+
+  async getUserCoinBalance(userId: string): Promise<number> {
+    return Array.from(this.coinTransactions.values())
+      .filter(t => t.userId === userId)
+      .reduce((sum, t) => sum + t.amount, 0);
+  }
+
+  async upsertScheduledJob(job: ScheduledJob): Promise<ScheduledJob> {
+    this.scheduledJobs.set(job.id, clone(job));
+    return job;
+  }
+
+  async getScheduledJob(jobId: string): Promise<ScheduledJob | undefined> {
+    const job = this.scheduledJobs.get(jobId);
+    return job ? clone(job) : undefined;
+  }
+
+  async deleteScheduledJob(jobId: string, runAt?: Date): Promise<boolean> {
+    const job = this.scheduledJobs.get(jobId);
+    if (!job || (runAt && job.runAt.getTime() !== runAt.getTime())) return false;
+    return this.scheduledJobs.delete(jobId);
+  }
+
+  async deleteScheduledJobsByPrefix(prefix: string): Promise<number> {
+    let deleted = 0;
+    for (const id of Array.from(this.scheduledJobs.keys())) {
+      if (id.startsWith(prefix)) {
+        this.scheduledJobs.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async getScheduledJobs(): Promise<ScheduledJob[]> {
+    return Array.from(this.scheduledJobs.values())
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+      .map(clone);
+  }
+
+  async close(): Promise<void> {
+    this.state.tables = createTables();
+  }
+
+  private getOrCreateStats(userId: string): UserStats {
+    return this.userStats.get(userId) || {
+      userId,
+      weekPomodoros: 0,
+      weekFocusMinutes: 0,
+      weekTasksCompleted: 0,
+      weekFocusCoins: 0,
+      todayPomodoros: 0,
+      todayFocusMinutes: 0
+    };
+  }
+
+  /**
+   * Частичное обновление записи, аналог UPDATE ... RETURNING *
+   */
+  private patch<T extends object>(
+    table: Map<string, T>,
+    id: string,
+    updates: Partial<T>
+  ): T | undefined {
+    const current = table.get(id);
+    if (!current) return undefined;
+
+    const updated = { ...current, ...clone(updates) };
+    table.set(id, updated);
+
+    return clone(updated);
+  }
+}
+
+function createTables(): MemoryTables {
+  return {
+    users: new Map(),
+    tasks: new Map(),
+    pods: new Map(),
+    sessions: new Map(),
+    botStates: new Map(),
+    notifications: new Map(),
+    userStats: new Map(),
+    coinTransactions: new Map(),
+    scheduledJobs: new Map(),
+    notificationSettings: new Map(),
+    projects: new Map(),
+    tags: new Map(),
+    taskTags: new Map()
+  };
+}
+
+/**
+ * Наружу отдаём только копии, чтобы мутации вне хранилища
+ * не меняли данные в обход update-методов (как и с PostgreSQL)
+ */
+function clone<T>(value: T): T {
+  return value === undefined ? value : structuredClone(value);
+}
+
+function byDateDesc<T>(getDate: (item: T) => Date) {
+  return (a: T, b: T) => getDate(b).getTime() - getDate(a).getTime();
+}
+
+export default MemoryDatabase;
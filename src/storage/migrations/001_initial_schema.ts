@@ -0,0 +1,114 @@
+import { Migration } from './types';
+
+/**
+ * Исходная схема. IF NOT EXISTS оставлен, чтобы базы, созданные
+ * до появления миграций, просто отметили её как применённую.
+ */
+const migration: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  up: `
+    CREATE TABLE IF NOT EXISTS users (
+      id VARCHAR(36) PRIMARY KEY,
+      max_user_id VARCHAR(50) UNIQUE NOT NULL,
+      name VARCHAR(255) NOT NULL,
+      focus_coins INTEGER DEFAULT 0,
+      total_pomodoros INTEGER DEFAULT 0,
+      total_focus_minutes INTEGER DEFAULT 0,
+      completed_tasks INTEGER DEFAULT 0,
+      current_streak INTEGER DEFAULT 0,
+      best_streak INTEGER DEFAULT 0,
+      last_active_date VARCHAR(50),
+      achievements TEXT[],
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_users_max_id ON users(max_user_id);
+
+    CREATE TABLE IF NOT EXISTS tasks (
+      id VARCHAR(36) PRIMARY KEY,
+      user_id VARCHAR(36) REFERENCES users(id) ON DELETE CASCADE,
+      title TEXT NOT NULL,
+      deadline TIMESTAMP,
+      completed BOOLEAN DEFAULT FALSE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      completed_at TIMESTAMP,
+      parent_task_id VARCHAR(36) REFERENCES tasks(id) ON DELETE SET NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_tasks_user ON tasks(user_id);
+    CREATE INDEX IF NOT EXISTS idx_tasks_parent ON tasks(parent_task_id);
+
+    CREATE TABLE IF NOT EXISTS pods (
+      id VARCHAR(36) PRIMARY KEY,
+      invite_code VARCHAR(20) UNIQUE NOT NULL,
+      creator_id VARCHAR(36) REFERENCES users(id) ON DELETE CASCADE,
+      title VARCHAR(255) NOT NULL,
+      duration INTEGER NOT NULL,
+      participants JSONB NOT NULL,
+      start_time TIMESTAMP,
+      end_time TIMESTAMP,
+      status VARCHAR(20) NOT NULL,
+      share_link TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_pods_invite ON pods(invite_code);
+    CREATE INDEX IF NOT EXISTS idx_pods_status ON pods(status);
+
+    CREATE TABLE IF NOT EXISTS pomodoro_sessions (
+      id VARCHAR(36) PRIMARY KEY,
+      user_id VARCHAR(36) REFERENCES users(id) ON DELETE CASCADE,
+      duration INTEGER NOT NULL,
+      start_time TIMESTAMP NOT NULL,
+      end_time TIMESTAMP,
+      completed BOOLEAN DEFAULT FALSE,
+      task_action VARCHAR(20),
+      pod_id VARCHAR(36) REFERENCES pods(id) ON DELETE SET NULL,
+      reward INTEGER DEFAULT 0
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_sessions_user ON pomodoro_sessions(user_id);
+
+    CREATE TABLE IF NOT EXISTS bot_states (
+      user_id VARCHAR(36) PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      chat_id VARCHAR(50) NOT NULL,
+      state VARCHAR(50) NOT NULL,
+      data JSONB,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS notifications (
+      id VARCHAR(36) PRIMARY KEY,
+      user_id VARCHAR(36) REFERENCES users(id) ON DELETE CASCADE,
+      type VARCHAR(50) NOT NULL,
+      message TEXT NOT NULL,
+      sent_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      read BOOLEAN DEFAULT FALSE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id);
+
+    CREATE TABLE IF NOT EXISTS user_stats (
+      user_id VARCHAR(36) PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      week_pomodoros INTEGER DEFAULT 0,
+      week_focus_minutes INTEGER DEFAULT 0,
+      week_tasks_completed INTEGER DEFAULT 0,
+      week_focus_coins INTEGER DEFAULT 0,
+      today_pomodoros INTEGER DEFAULT 0,
+      today_focus_minutes INTEGER DEFAULT 0,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS user_stats;
+    DROP TABLE IF EXISTS notifications;
+    DROP TABLE IF EXISTS bot_states;
+    DROP TABLE IF EXISTS pomodoro_sessions;
+    DROP TABLE IF EXISTS pods;
+    DROP TABLE IF EXISTS tasks;
+    DROP TABLE IF EXISTS users;
+  `
+};
+
+export default migration;
@@ -0,0 +1,33 @@
+import { Migration } from './types';
+
+/**
+ * Журнал FocusCoins. Текущие балансы переносятся как начальная запись,
+ * чтобы сумма журнала сразу совпадала с users.focus_coins.
+ */
+const migration: Migration = {
+  version: 2,
+  name: 'coin_transactions',
+  up: `
+    CREATE TABLE coin_transactions (
+      id VARCHAR(36) PRIMARY KEY,
+      user_id VARCHAR(36) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      amount INTEGER NOT NULL,
+      reason TEXT NOT NULL,
+      source_type VARCHAR(20),
+      source_id VARCHAR(64),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX idx_coin_transactions_user ON coin_transactions(user_id, created_at DESC);
+
+    INSERT INTO coin_transactions (id, user_id, amount, reason, source_type, created_at)
+    SELECT gen_random_uuid()::text, id, focus_coins, 'Начальный баланс', 'adjustment', CURRENT_TIMESTAMP
+    FROM users
+    WHERE COALESCE(focus_coins, 0) <> 0;
+  `,
+  down: `
+    DROP TABLE IF EXISTS coin_transactions;
+  `
+};
+
+export default migration;
@@ -0,0 +1,33 @@
+import { Migration } from './types';
+
+/**
+ * Персистентные таймеры. Для незавершённых сессий сразу создаются
+ * задачи окончания, чтобы они пережили деплой с этой миграцией.
+ */
+const migration: Migration = {
+  version: 3,
+  name: 'scheduled_jobs',
+  up: `
+    CREATE TABLE scheduled_jobs (
+      id VARCHAR(128) PRIMARY KEY,
+      type VARCHAR(50) NOT NULL,
+      run_at TIMESTAMP NOT NULL,
+      payload JSONB,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX idx_scheduled_jobs_run_at ON scheduled_jobs(run_at);
+
+    INSERT INTO scheduled_jobs (id, type, run_at, payload)
+    SELECT 'pomodoro_end:' || id, 'pomodoro_end',
+           start_time + duration * INTERVAL '1 minute',
+           jsonb_build_object('sessionId', id)
+    FROM pomodoro_sessions
+    WHERE completed = FALSE AND end_time IS NULL;
+  `,
+  down: `
+    DROP TABLE IF EXISTS scheduled_jobs;
+  `
+};
+
+export default migration;
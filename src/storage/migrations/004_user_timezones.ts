@@ -0,0 +1,24 @@
+import { Migration } from './types';
+
+/**
+ * Часовой пояс пользователя и ключи локального дня/недели,
+ * по которым сбрасывается статистика
+ */
+const migration: Migration = {
+  version: 4,
+  name: 'user_timezones',
+  up: `
+    ALTER TABLE users ADD COLUMN timezone VARCHAR(64) NOT NULL DEFAULT 'Europe/Moscow';
+
+    ALTER TABLE user_stats ADD COLUMN day_key VARCHAR(10);
+    ALTER TABLE user_stats ADD COLUMN week_key VARCHAR(10);
+  `,
+  down: `
+    ALTER TABLE user_stats DROP COLUMN IF EXISTS week_key;
+    ALTER TABLE user_stats DROP COLUMN IF EXISTS day_key;
+
+    ALTER TABLE users DROP COLUMN IF EXISTS timezone;
+  `
+};
+
+export default migration;
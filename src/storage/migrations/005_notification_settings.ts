@@ -0,0 +1,28 @@
+import { Migration } from './types';
+
+/**
+ * Настройки уведомлений. Строка создаётся при первом изменении,
+ * до этого действуют значения по умолчанию из NotificationService.
+ */
+const migration: Migration = {
+  version: 5,
+  name: 'notification_settings',
+  up: `
+    CREATE TABLE notification_settings (
+      user_id VARCHAR(36) PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      muted BOOLEAN NOT NULL DEFAULT FALSE,
+      disabled_types TEXT[] NOT NULL DEFAULT '{}',
+      daily_reminder_time VARCHAR(5) NOT NULL DEFAULT '09:00',
+      streak_warning_time VARCHAR(5) NOT NULL DEFAULT '20:00',
+      weekly_stats_time VARCHAR(5) NOT NULL DEFAULT '19:00',
+      quiet_hours_start VARCHAR(5),
+      quiet_hours_end VARCHAR(5),
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS notification_settings;
+  `
+};
+
+export default migration;
@@ -0,0 +1,17 @@
+import { Migration } from './types';
+
+/**
+ * Интервалы паузы Pomodoro-сессии: [{ startedAt, endedAt }]
+ */
+const migration: Migration = {
+  version: 6,
+  name: 'session_pauses',
+  up: `
+    ALTER TABLE pomodoro_sessions ADD COLUMN pauses JSONB NOT NULL DEFAULT '[]';
+  `,
+  down: `
+    ALTER TABLE pomodoro_sessions DROP COLUMN IF EXISTS pauses;
+  `
+};
+
+export default migration;
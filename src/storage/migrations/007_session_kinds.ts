@@ -0,0 +1,17 @@
+import { Migration } from './types';
+
+/**
+ * Вид сессии: фокус или перерыв. Перерывы не входят в статистику фокуса.
+ */
+const migration: Migration = {
+  version: 7,
+  name: 'session_kinds',
+  up: `
+    ALTER TABLE pomodoro_sessions ADD COLUMN kind VARCHAR(20) NOT NULL DEFAULT 'focus';
+  `,
+  down: `
+    ALTER TABLE pomodoro_sessions DROP COLUMN IF EXISTS kind;
+  `
+};
+
+export default migration;
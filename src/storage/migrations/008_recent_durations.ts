@@ -0,0 +1,17 @@
+import { Migration } from './types';
+
+/**
+ * Последние свои длительности фокуса пользователя (быстрые кнопки)
+ */
+const migration: Migration = {
+  version: 8,
+  name: 'recent_durations',
+  up: `
+    ALTER TABLE users ADD COLUMN recent_durations INTEGER[] NOT NULL DEFAULT '{}';
+  `,
+  down: `
+    ALTER TABLE users DROP COLUMN IF EXISTS recent_durations;
+  `
+};
+
+export default migration;
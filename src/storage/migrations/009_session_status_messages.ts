@@ -0,0 +1,17 @@
+import { Migration } from './types';
+
+/**
+ * Id сообщения, в котором бот обновляет прогресс длинной сессии
+ */
+const migration: Migration = {
+  version: 9,
+  name: 'session_status_messages',
+  up: `
+    ALTER TABLE pomodoro_sessions ADD COLUMN status_message_id VARCHAR(64);
+  `,
+  down: `
+    ALTER TABLE pomodoro_sessions DROP COLUMN IF EXISTS status_message_id;
+  `
+};
+
+export default migration;
@@ -0,0 +1,17 @@
+import { Migration } from './types';
+
+/**
+ * Минуты, на которые продлили сессию сверх исходной длительности
+ */
+const migration: Migration = {
+  version: 10,
+  name: 'session_extensions',
+  up: `
+    ALTER TABLE pomodoro_sessions ADD COLUMN extension_minutes INTEGER NOT NULL DEFAULT 0;
+  `,
+  down: `
+    ALTER TABLE pomodoro_sessions DROP COLUMN IF EXISTS extension_minutes;
+  `
+};
+
+export default migration;
@@ -0,0 +1,25 @@
+import { Migration } from './types';
+
+/**
+ * Привязка сессий фокуса к задачам и накопленный по задаче фокус
+ */
+const migration: Migration = {
+  version: 11,
+  name: 'session_tasks',
+  up: `
+    ALTER TABLE pomodoro_sessions ADD COLUMN task_id VARCHAR(36) REFERENCES tasks(id) ON DELETE SET NULL;
+    CREATE INDEX IF NOT EXISTS idx_sessions_task ON pomodoro_sessions(task_id);
+
+    ALTER TABLE tasks ADD COLUMN focus_minutes INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE tasks ADD COLUMN focus_sessions INTEGER NOT NULL DEFAULT 0;
+  `,
+  down: `
+    ALTER TABLE tasks DROP COLUMN IF EXISTS focus_sessions;
+    ALTER TABLE tasks DROP COLUMN IF EXISTS focus_minutes;
+
+    DROP INDEX IF EXISTS idx_sessions_task;
+    ALTER TABLE pomodoro_sessions DROP COLUMN IF EXISTS task_id;
+  `
+};
+
+export default migration;
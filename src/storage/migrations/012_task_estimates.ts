@@ -0,0 +1,17 @@
+import { Migration } from './types';
+
+/**
+ * Оценка задачи в помидорах
+ */
+const migration: Migration = {
+  version: 12,
+  name: 'task_estimates',
+  up: `
+    ALTER TABLE tasks ADD COLUMN estimate INTEGER CHECK (estimate > 0);
+  `,
+  down: `
+    ALTER TABLE tasks DROP COLUMN IF EXISTS estimate;
+  `
+};
+
+export default migration;
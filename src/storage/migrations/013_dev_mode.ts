@@ -0,0 +1,19 @@
+import { Migration } from './types';
+
+/**
+ * Режим разработчика у пользователя и тестовые сессии-песочницы
+ */
+const migration: Migration = {
+  version: 13,
+  name: 'dev_mode',
+  up: `
+    ALTER TABLE users ADD COLUMN dev_mode BOOLEAN NOT NULL DEFAULT false;
+    ALTER TABLE pomodoro_sessions ADD COLUMN sandbox BOOLEAN NOT NULL DEFAULT false;
+  `,
+  down: `
+    ALTER TABLE pomodoro_sessions DROP COLUMN IF EXISTS sandbox;
+    ALTER TABLE users DROP COLUMN IF EXISTS dev_mode;
+  `
+};
+
+export default migration;
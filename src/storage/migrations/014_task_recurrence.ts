@@ -0,0 +1,17 @@
+import { Migration } from './types';
+
+/**
+ * Правило повтора у задач: при выполнении создаётся следующее вхождение
+ */
+const migration: Migration = {
+  version: 14,
+  name: 'task_recurrence',
+  up: `
+    ALTER TABLE tasks ADD COLUMN recurrence JSONB;
+  `,
+  down: `
+    ALTER TABLE tasks DROP COLUMN IF EXISTS recurrence;
+  `
+};
+
+export default migration;
@@ -0,0 +1,17 @@
+import { Migration } from './types';
+
+/**
+ * Приоритет задач: 0 — без приоритета, 1-3 — "!", "!!", "!!!"
+ */
+const migration: Migration = {
+  version: 15,
+  name: 'task_priorities',
+  up: `
+    ALTER TABLE tasks ADD COLUMN priority SMALLINT NOT NULL DEFAULT 0 CHECK (priority BETWEEN 0 AND 3);
+  `,
+  down: `
+    ALTER TABLE tasks DROP COLUMN IF EXISTS priority;
+  `
+};
+
+export default migration;
@@ -0,0 +1,47 @@
+import { Migration } from './types';
+
+/**
+ * Проекты (@project) и теги (#tag) задач. Проект у задачи один,
+ * теги — через связующую таблицу.
+ */
+const migration: Migration = {
+  version: 16,
+  name: 'projects_and_tags',
+  up: `
+    CREATE TABLE projects (
+      id VARCHAR(36) PRIMARY KEY,
+      user_id VARCHAR(36) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name VARCHAR(100) NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE UNIQUE INDEX idx_projects_user_name ON projects(user_id, LOWER(name));
+
+    CREATE TABLE tags (
+      id VARCHAR(36) PRIMARY KEY,
+      user_id VARCHAR(36) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name VARCHAR(100) NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (user_id, name)
+    );
+
+    CREATE TABLE task_tags (
+      task_id VARCHAR(36) NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      tag_id VARCHAR(36) NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+      PRIMARY KEY (task_id, tag_id)
+    );
+
+    CREATE INDEX idx_task_tags_tag ON task_tags(tag_id);
+
+    ALTER TABLE tasks ADD COLUMN project_id VARCHAR(36) REFERENCES projects(id) ON DELETE SET NULL;
+    CREATE INDEX idx_tasks_project ON tasks(project_id);
+  `,
+  down: `
+    ALTER TABLE tasks DROP COLUMN IF EXISTS project_id;
+    DROP TABLE IF EXISTS task_tags;
+    DROP TABLE IF EXISTS tags;
+    DROP TABLE IF EXISTS projects;
+  `
+};
+
+export default migration;
@@ -0,0 +1,24 @@
+import { Migration } from './types';
+
+/**
+ * Полнотекстовый поиск по названию задачи. Вектор собирается из русской
+ * и английской конфигураций, чтобы работали обе морфологии.
+ */
+const migration: Migration = {
+  version: 17,
+  name: 'task_search',
+  up: `
+    ALTER TABLE tasks ADD COLUMN search_vector TSVECTOR
+      GENERATED ALWAYS AS (
+        to_tsvector('russian', COALESCE(title, '')) || to_tsvector('english', COALESCE(title, ''))
+      ) STORED;
+
+    CREATE INDEX idx_tasks_search ON tasks USING GIN (search_vector);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_tasks_search;
+    ALTER TABLE tasks DROP COLUMN IF EXISTS search_vector;
+  `
+};
+
+export default migration;
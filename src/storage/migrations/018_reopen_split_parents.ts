@@ -0,0 +1,29 @@
+import { Migration } from './types';
+
+/**
+ * Раньше при разбиении родитель сразу отмечался выполненным (без completed_at).
+ * Теперь он открыт, пока не готовы все подзадачи, — возвращаем такие задачи в работу.
+ */
+const migration: Migration = {
+  version: 18,
+  name: 'reopen_split_parents',
+  up: `
+    UPDATE tasks AS parent
+    SET completed = FALSE
+    WHERE parent.completed = TRUE
+      AND parent.completed_at IS NULL
+      AND EXISTS (
+        SELECT 1 FROM tasks AS child
+        WHERE child.parent_task_id = parent.id AND child.completed = FALSE
+      );
+  `,
+  down: `
+    UPDATE tasks AS parent
+    SET completed = TRUE
+    WHERE parent.completed = FALSE
+      AND parent.completed_at IS NULL
+      AND EXISTS (SELECT 1 FROM tasks AS child WHERE child.parent_task_id = parent.id);
+  `
+};
+
+export default migration;
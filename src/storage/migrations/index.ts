@@ -0,0 +1,46 @@
+/**
+ * Реестр миграций. Новая миграция: файл NNN_name.ts + строка здесь.
+ */
+
+import { Migration } from './types';
+import initialSchema from './001_initial_schema';
+import coinTransactions from './002_coin_transactions';
+import scheduledJobs from './003_scheduled_jobs';
+import userTimezones from './004_user_timezones';
+import notificationSettings from './005_notification_settings';
+import sessionPauses from './006_session_pauses';
+import sessionKinds from './007_session_kinds';
+import recentDurations from './008_recent_durations';
+import sessionStatusMessages from './009_session_status_messages';
+import sessionExtensions from './010_session_extensions';
+import sessionTasks from './011_session_tasks';
+import taskEstimates from './012_task_estimates';
+import devMode from './013_dev_mode';
+import taskRecurrence from './014_task_recurrence';
+import taskPriorities from './015_task_priorities';
+import projectsAndTags from './016_projects_and_tags';
+import taskSearch from './017_task_search';
+import reopenSplitParents from './018_reopen_split_parents';
+
+export * from './types';
+
+export const migrations: Migration[] = [
+  initialSchema,
+  coinTransactions,
+  scheduledJobs,
+  userTimezones,
+  notificationSettings,
+  sessionPauses,
+  sessionKinds,
+  recentDurations,
+  sessionStatusMessages,
+  sessionExtensions,
+  sessionTasks,
+  taskEstimates,
+  devMode,
+  taskRecurrence,
+  taskPriorities,
+  projectsAndTags,
+  taskSearch,
+  reopenSplitParents
+];
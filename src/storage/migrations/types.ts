@@ -0,0 +1,16 @@
+/**
+ * Версионированная миграция схемы PostgreSQL
+ */
+export interface Migration {
+  version: number; // Порядковый номер, совпадает с префиксом файла
+  name: string;
+  up: string;
+  down: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  appliedAt?: Date;
+}
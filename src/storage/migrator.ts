@@ -0,0 +1,144 @@
+import { Pool, PoolClient } from 'pg';
+import { migrations as allMigrations, Migration, MigrationStatus } from './migrations';
+
+// Произвольный ключ advisory lock, чтобы два процесса не мигрировали одновременно
+const MIGRATION_LOCK_KEY = 724310001;
+
+/**
+ * Применяет и откатывает миграции, ведёт учёт в schema_migrations
+ */
+export class Migrator {
+  private migrations: Migration[];
+
+  constructor(private pool: Pool, migrations: Migration[] = allMigrations) {
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+
+    const versions = new Set(this.migrations.map(m => m.version));
+    if (versions.size !== this.migrations.length) {
+      throw new Error('Duplicate migration versions');
+    }
+  }
+
+  /**
+   * Статус всех известных миграций
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const applied = await this.getApplied();
+
+    return this.migrations.map(migration => ({
+      version: migration.version,
+      name: migration.name,
+      applied: applied.has(migration.version),
+      appliedAt: applied.get(migration.version)
+    }));
+  }
+
+  /**
+   * Миграции, которые ещё не применены
+   */
+  async pending(): Promise<Migration[]> {
+    const applied = await this.getApplied();
+    return this.migrations.filter(m => !applied.has(m.version));
+  }
+
+  /**
+   * Версии, применённые в базе, но неизвестные коду (база новее кода)
+   */
+  async unknown(): Promise<number[]> {
+    const applied = await this.getApplied();
+    const known = new Set(this.migrations.map(m => m.version));
+    return Array.from(applied.keys()).filter(v => !known.has(v));
+  }
+
+  /**
+   * Применяет ожидающие миграции (до targetVersion включительно, если указан)
+   */
+  async up(targetVersion?: number): Promise<Migration[]> {
+    return this.withLock(async client => {
+      const applied = await this.getApplied(client);
+      const toApply = this.migrations.filter(m =>
+        !applied.has(m.version) &&
+        (targetVersion === undefined || m.version <= targetVersion)
+      );
+
+      for (const migration of toApply) {
+        await this.runInTransaction(client, async () => {
+          await client.query(migration.up);
+          await client.query(
+            'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+            [migration.version, migration.name]
+          );
+        });
+        console.log(`⬆️  Applied migration ${formatMigration(migration)}`);
+      }
+
+      return toApply;
+    });
+  }
+
+  /**
+   * Откатывает последние применённые миграции
+   */
+  async down(steps = 1): Promise<Migration[]> {
+    return this.withLock(async client => {
+      const applied = await this.getApplied(client);
+      const toRevert = this.migrations
+        .filter(m => applied.has(m.version))
+        .reverse()
+        .slice(0, steps);
+
+      for (const migration of toRevert) {
+        await this.runInTransaction(client, async () => {
+          await client.query(migration.down);
+          await client.query(
+            'DELETE FROM schema_migrations WHERE version = $1',
+            [migration.version]
+          );
+        });
+        console.log(`⬇️  Reverted migration ${formatMigration(migration)}`);
+      }
+
+      return toRevert;
+    });
+  }
+
+  private async getApplied(client?: PoolClient): Promise<Map<number, Date>> {
+    const executor = client || this.pool;
+    await executor.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    const result = await executor.query('SELECT version, applied_at FROM schema_migrations');
+    return new Map(result.rows.map(row => [row.version, new Date(row.applied_at)]));
+  }
+
+  private async withLock<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+      return await fn(client);
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]).catch(() => undefined);
+      client.release();
+    }
+  }
+
+  private async runInTransaction(client: PoolClient, fn: () => Promise<void>): Promise<void> {
+    await client.query('BEGIN');
+    try {
+      await fn();
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  }
+}
+
+export function formatMigration(migration: Pick<Migration, 'version' | 'name'>): string {
+  return `${migration.version.toString().padStart(3, '0')}_${migration.name}`;
+}
@@ -1,135 +1,153 @@
 import { Pool, PoolClient } from 'pg';
 import {
-  User, Task, Pod, PomodoroSession, BotState, UserStats, Notification
+  User, Task, Pod, PomodoroSession, BotState, UserStats, Notification, CoinTransaction,
+  ScheduledJob, NotificationSettings, Project, Tag
 } from '../types';
+import { Storage, UserCounters, TaskCounters, StatsCounters, TaskTagLink } from './types';
+import { Migrator, formatMigration } from './migrator';
+
+const USER_COUNTER_COLUMNS: Record<keyof UserCounters, string> = {
+  focusCoins: 'focus_coins',
+  totalPomodoros: 'total_pomodoros',
+  totalFocusMinutes: 'total_focus_minutes',
+  completedTasks: 'completed_tasks'
+};
+
+const TASK_COUNTER_COLUMNS: Record<keyof TaskCounters, string> = {
+  focusMinutes: 'focus_minutes',
+  focusSessions: 'focus_sessions'
+};
+
+// Поля Task, которые сервис подставляет из других таблиц — в tasks их нет
+const DERIVED_TASK_FIELDS = ['parentTitle', 'projectName', 'tags', 'subtasks', 'progress'];
+
+const STATS_COUNTER_COLUMNS: Record<keyof StatsCounters, string> = {
+  weekPomodoros: 'week_pomodoros',
+  weekFocusMinutes: 'week_focus_minutes',
+  weekTasksCompleted: 'week_tasks_completed',
+  weekFocusCoins: 'week_focus_coins',
+  todayPomodoros: 'today_pomodoros',
+  todayFocusMinutes: 'today_focus_minutes'
+};
+
+/**
+ * Собирает "col = col + $n" для атомарного инкремента счётчиков
+ */
+function buildIncrements<K extends string>(
+  deltas: Partial<Record<K, number>>,
+  columns: Record<K, string>,
+  table: string
+): { fields: string[]; values: any[] } {
+  const fields: string[] = [];
+  const values: any[] = [];
+
+  Object.entries(deltas).forEach(([key, value]) => {
+    const column = columns[key as K];
+    if (!column || !value) return;
+
+    values.push(value);
+    fields.push(`${column} = COALESCE(${table}.${column}, 0) + $${values.length}`);
+  });
+
+  return { fields, values };
+}
+
+/**
+ * Пул подключений по переменным окружения DB_*
+ */
+export function createPool(): Pool {
+  return new Pool({
+    host: process.env.DB_HOST || 'localhost',
+    port: parseInt(process.env.DB_PORT || '5432'),
+    database: process.env.DB_NAME || 'focus_pods',
+    user: process.env.DB_USER || 'postgres',
+    password: process.env.DB_PASSWORD || 'postgres',
+    max: 20,
+    idleTimeoutMillis: 30000,
+    connectionTimeoutMillis: 2000,
+  });
+}
 
-class PostgresDatabase {
+class PostgresDatabase implements Storage {
   private pool: Pool;
+  private client?: PoolClient; // Задан внутри runInTransaction
 
-  constructor() {
-    this.pool = new Pool({
-      host: process.env.DB_HOST || 'localhost',
-      port: parseInt(process.env.DB_PORT || '5432'),
-      database: process.env.DB_NAME || 'focus_pods',
-      user: process.env.DB_USER || 'postgres',
-      password: process.env.DB_PASSWORD || 'postgres',
-      max: 20,
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 2000,
-    });
+  constructor(pool: Pool = createPool(), client?: PoolClient) {
+    this.pool = pool;
+    this.client = client;
   }
 
-  async initialize(): Promise<void> {
-    const client = await this.pool.connect();
-    try {
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS users (
-          id VARCHAR(36) PRIMARY KEY,
-          max_user_id VARCHAR(50) UNIQUE NOT NULL,
-          name VARCHAR(255) NOT NULL,
-          focus_coins INTEGER DEFAULT 0,
-          total_pomodoros INTEGER DEFAULT 0,
-          total_focus_minutes INTEGER DEFAULT 0,
-          completed_tasks INTEGER DEFAULT 0,
-          current_streak INTEGER DEFAULT 0,
-          best_streak INTEGER DEFAULT 0,
-          last_active_date VARCHAR(50),
-          achievements TEXT[],
-          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-        );
+  /**
+   * Запросы идут через клиент транзакции, если она открыта
+   */
+  private get executor(): Pool | PoolClient {
+    return this.client || this.pool;
+  }
 
-        CREATE INDEX IF NOT EXISTS idx_users_max_id ON users(max_user_id);
-
-        CREATE TABLE IF NOT EXISTS tasks (
-          id VARCHAR(36) PRIMARY KEY,
-          user_id VARCHAR(36) REFERENCES users(id) ON DELETE CASCADE,
-          title TEXT NOT NULL,
-          deadline TIMESTAMP,
-          completed BOOLEAN DEFAULT FALSE,
-          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-          completed_at TIMESTAMP,
-          parent_task_id VARCHAR(36) REFERENCES tasks(id) ON DELETE SET NULL
-        );
+  /**
+   * Проверяет схему при старте: применяет ожидающие миграции
+   * или, при DB_AUTO_MIGRATE=false, отказывается работать со старой схемой
+   */
+  async initialize(): Promise<void> {
+    const migrator = new Migrator(this.pool);
 
-        CREATE INDEX IF NOT EXISTS idx_tasks_user ON tasks(user_id);
-        CREATE INDEX IF NOT EXISTS idx_tasks_parent ON tasks(parent_task_id);
-
-        CREATE TABLE IF NOT EXISTS pods (
-          id VARCHAR(36) PRIMARY KEY,
-          invite_code VARCHAR(20) UNIQUE NOT NULL,
-          creator_id VARCHAR(36) REFERENCES users(id) ON DELETE CASCADE,
-          title VARCHAR(255) NOT NULL,
-          duration INTEGER NOT NULL,
-          participants JSONB NOT NULL,
-          start_time TIMESTAMP,
-          end_time TIMESTAMP,
-          status VARCHAR(20) NOT NULL,
-          share_link TEXT,
-          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-        );
+    const unknown = await migrator.unknown();
+    if (unknown.length > 0) {
+      console.warn(`⚠️  База содержит миграции, неизвестные этой версии кода: ${unknown.join(', ')}`);
+    }
 
-        CREATE INDEX IF NOT EXISTS idx_pods_invite ON pods(invite_code);
-        CREATE INDEX IF NOT EXISTS idx_pods_status ON pods(status);
-
-        CREATE TABLE IF NOT EXISTS pomodoro_sessions (
-          id VARCHAR(36) PRIMARY KEY,
-          user_id VARCHAR(36) REFERENCES users(id) ON DELETE CASCADE,
-          duration INTEGER NOT NULL,
-          start_time TIMESTAMP NOT NULL,
-          end_time TIMESTAMP,
-          completed BOOLEAN DEFAULT FALSE,
-          task_action VARCHAR(20),
-          pod_id VARCHAR(36) REFERENCES pods(id) ON DELETE SET NULL,
-          reward INTEGER DEFAULT 0
+    if (process.env.DB_AUTO_MIGRATE === 'false') {
+      const pending = await migrator.pending();
+      if (pending.length > 0) {
+        throw new Error(
+          `Схема БД устарела, не применены миграции: ${pending.map(formatMigration).join(', ')}. ` +
+          'Выполните npm run migrate -- up'
         );
+      }
+      return;
+    }
 
-        CREATE INDEX IF NOT EXISTS idx_sessions_user ON pomodoro_sessions(user_id);
-
-        CREATE TABLE IF NOT EXISTS bot_states (
-          user_id VARCHAR(36) PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
-          chat_id VARCHAR(50) NOT NULL,
-          state VARCHAR(50) NOT NULL,
-          data JSONB,
-          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-        );
+    await migrator.up();
+  }
 
-        CREATE TABLE IF NOT EXISTS notifications (
-          id VARCHAR(36) PRIMARY KEY,
-          user_id VARCHAR(36) REFERENCES users(id) ON DELETE CASCADE,
-          type VARCHAR(50) NOT NULL,
-          message TEXT NOT NULL,
-          sent_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-          read BOOLEAN DEFAULT FALSE
-        );
+  /**
+   * Выполняет fn в транзакции. Вложенные вызовы переиспользуют текущую.
+   */
+  async runInTransaction<T>(fn: (tx: Storage) => Promise<T>): Promise<T> {
+    if (this.client) return fn(this);
 
-        CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id);
-
-        CREATE TABLE IF NOT EXISTS user_stats (
-          user_id VARCHAR(36) PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
-          week_pomodoros INTEGER DEFAULT 0,
-          week_focus_minutes INTEGER DEFAULT 0,
-          week_tasks_completed INTEGER DEFAULT 0,
-          week_focus_coins INTEGER DEFAULT 0,
-          today_pomodoros INTEGER DEFAULT 0,
-          today_focus_minutes INTEGER DEFAULT 0,
-          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-        );
-      `);
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await fn(new PostgresDatabase(this.pool, client));
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
     } finally {
       client.release();
     }
   }
 
   async getUser(userId: string): Promise<User | undefined> {
-    const result = await this.pool.query(
+    const result = await this.executor.query(
       'SELECT * FROM users WHERE id = $1',
       [userId]
     );
     return result.rows[0] ? this.mapUser(result.rows[0]) : undefined;
   }
 
+  async getUserForUpdate(userId: string): Promise<User | undefined> {
+    const result = await this.executor.query(
+      'SELECT * FROM users WHERE id = $1 FOR UPDATE',
+      [userId]
+    );
+    return result.rows[0] ? this.mapUser(result.rows[0]) : undefined;
+  }
+
   async getUserByMaxId(maxUserId: string): Promise<User | undefined> {
-    const result = await this.pool.query(
+    const result = await this.executor.query(
       'SELECT * FROM users WHERE max_user_id = $1',
       [maxUserId]
     );
@@ -137,14 +155,15 @@ class PostgresDatabase {
   }
 
   async createUser(user: User): Promise<User> {
-    await this.pool.query(
+    await this.executor.query(
       `INSERT INTO users (id, max_user_id, name, focus_coins, total_pomodoros, 
        total_focus_minutes, completed_tasks, current_streak, best_streak, 
-       last_active_date, achievements, created_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+       last_active_date, achievements, timezone, recent_durations, dev_mode, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
       [user.id, user.maxUserId, user.name, user.focusCoins, user.totalPomodoros,
        user.totalFocusMinutes, user.completedTasks, user.currentStreak, user.bestStreak,
-       user.lastActiveDate, user.achievements, user.createdAt]
+       user.lastActiveDate, user.achievements, user.timezone, user.recentDurations || [],
+       user.devMode || false, user.createdAt]
     );
     return user;
   }
@@ -164,7 +183,7 @@ class PostgresDatabase {
     if (fields.length === 0) return this.getUser(userId);
 
     values.push(userId);
-    const result = await this.pool.query(
+    const result = await this.executor.query(
       `UPDATE users SET ${fields.join(', ')} WHERE id = $${index} RETURNING *`,
       values
     );
@@ -172,33 +191,66 @@ class PostgresDatabase {
     return result.rows[0] ? this.mapUser(result.rows[0]) : undefined;
   }
 
+  async incrementUserCounters(userId: string, deltas: Partial<UserCounters>): Promise<User | undefined> {
+    const { fields, values } = buildIncrements(deltas, USER_COUNTER_COLUMNS, 'users');
+    if (fields.length === 0) return this.getUser(userId);
+
+    values.push(userId);
+    const result = await this.executor.query(
+      `UPDATE users SET ${fields.join(', ')} WHERE id = $${values.length} RETURNING *`,
+      values
+    );
+
+    return result.rows[0] ? this.mapUser(result.rows[0]) : undefined;
+  }
+
+  async addUserAchievement(userId: string, achievementId: string): Promise<boolean> {
+    const result = await this.executor.query(
+      `UPDATE users SET achievements = array_append(COALESCE(achievements, '{}'), $2)
+       WHERE id = $1 AND NOT ($2 = ANY(COALESCE(achievements, '{}')))`,
+      [userId, achievementId]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
   async getAllUsers(): Promise<User[]> {
-    const result = await this.pool.query('SELECT * FROM users');
+    const result = await this.executor.query('SELECT * FROM users');
     return result.rows.map(row => this.mapUser(row));
   }
 
   async getTask(taskId: string): Promise<Task | undefined> {
-    const result = await this.pool.query(
+    const result = await this.executor.query(
       'SELECT * FROM tasks WHERE id = $1',
       [taskId]
     );
     return result.rows[0] ? this.mapTask(result.rows[0]) : undefined;
   }
 
+  async getTaskForUpdate(taskId: string): Promise<Task | undefined> {
+    const result = await this.executor.query(
+      'SELECT * FROM tasks WHERE id = $1 FOR UPDATE',
+      [taskId]
+    );
+    return result.rows[0] ? this.mapTask(result.rows[0]) : undefined;
+  }
+
   async getUserTasks(userId: string, includeCompleted = false): Promise<Task[]> {
     const query = includeCompleted
       ? 'SELECT * FROM tasks WHERE user_id = $1 ORDER BY created_at DESC'
       : 'SELECT * FROM tasks WHERE user_id = $1 AND completed = FALSE ORDER BY deadline ASC NULLS LAST, created_at DESC';
     
-    const result = await this.pool.query(query, [userId]);
+    const result = await this.executor.query(query, [userId]);
     return result.rows.map(row => this.mapTask(row));
   }
 
   async createTask(task: Task): Promise<Task> {
-    await this.pool.query(
-      `INSERT INTO tasks (id, user_id, title, deadline, completed, created_at, parent_task_id)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-      [task.id, task.userId, task.title, task.deadline, task.completed, task.createdAt, task.parentTaskId]
+    await this.executor.query(
+      `INSERT INTO tasks (id, user_id, title, deadline, completed, created_at, parent_task_id, estimate, recurrence,
+                          priority, project_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [task.id, task.userId, task.title, task.deadline, task.completed, task.createdAt, task.parentTaskId,
+       task.estimate, task.recurrence ? JSON.stringify(task.recurrence) : null, task.priority || 0,
+       task.projectId]
     );
     return task;
   }
@@ -209,19 +261,24 @@ class PostgresDatabase {
     let index = 1;
 
     Object.entries(updates).forEach(([key, value]) => {
+      if (DERIVED_TASK_FIELDS.includes(key)) return;
+
       const snakeKey = key === 'parentTaskId' ? 'parent_task_id' : 
                        key === 'completedAt' ? 'completed_at' :
                        key === 'userId' ? 'user_id' :
-                       key === 'createdAt' ? 'created_at' : key;
+                       key === 'createdAt' ? 'created_at' :
+                       key === 'focusMinutes' ? 'focus_minutes' :
+                       key === 'focusSessions' ? 'focus_sessions' :
+                       key === 'projectId' ? 'project_id' : key;
       fields.push(`${snakeKey} = $${index}`);
-      values.push(value);
+      values.push(key === 'recurrence' ? (value ? JSON.stringify(value) : null) : value);
       index++;
     });
 
     if (fields.length === 0) return this.getTask(taskId);
 
     values.push(taskId);
-    const result = await this.pool.query(
+    const result = await this.executor.query(
       `UPDATE tasks SET ${fields.join(', ')} WHERE id = $${index} RETURNING *`,
       values
     );
@@ -230,28 +287,141 @@ class PostgresDatabase {
   }
 
   async deleteTask(taskId: string): Promise<boolean> {
-    const result = await this.pool.query('DELETE FROM tasks WHERE id = $1', [taskId]);
+    const result = await this.executor.query('DELETE FROM tasks WHERE id = $1', [taskId]);
     return (result.rowCount || 0) > 0;
   }
 
+  async incrementTaskCounters(taskId: string, deltas: Partial<TaskCounters>): Promise<Task | undefined> {
+    const { fields, values } = buildIncrements(deltas, TASK_COUNTER_COLUMNS, 'tasks');
+    if (fields.length === 0) return this.getTask(taskId);
+
+    values.push(taskId);
+    const result = await this.executor.query(
+      `UPDATE tasks SET ${fields.join(', ')} WHERE id = $${values.length} RETURNING *`,
+      values
+    );
+
+    return result.rows[0] ? this.mapTask(result.rows[0]) : undefined;
+  }
+
   async getSubtasks(parentTaskId: string): Promise<Task[]> {
-    const result = await this.pool.query(
+    const result = await this.executor.query(
       'SELECT * FROM tasks WHERE parent_task_id = $1 ORDER BY created_at ASC',
       [parentTaskId]
     );
     return result.rows.map(row => this.mapTask(row));
   }
 
+  async searchTasks(userId: string, query: string, limit: number): Promise<Task[]> {
+    // Каждое слово — префикс: "отч" находит "Отчёт"; ILIKE добирает то, что не слова ("v2.1")
+    const words = query.match(/[\p{L}\p{N}]+/gu) || [];
+    const tsQuery = words.map(word => `${word}:*`).join(' & ');
+    const pattern = `%${query.replace(/[\\%_]/g, '\\$&')}%`;
+
+    const result = await this.executor.query(
+      `SELECT t.* FROM tasks t,
+         LATERAL (SELECT to_tsquery('russian', $2) || to_tsquery('english', $2) AS q) s
+       WHERE t.user_id = $1 AND (t.search_vector @@ s.q OR t.title ILIKE $3)
+       ORDER BY ts_rank(t.search_vector, s.q) DESC, t.completed ASC, t.created_at DESC
+       LIMIT $4`,
+      [userId, tsQuery, pattern, limit]
+    );
+    return result.rows.map(row => this.mapTask(row));
+  }
+
+  async getOrCreateProject(userId: string, name: string): Promise<Project> {
+    await this.executor.query(
+      `INSERT INTO projects (id, user_id, name, created_at)
+       VALUES (gen_random_uuid()::text, $1, $2, $3)
+       ON CONFLICT (user_id, (LOWER(name))) DO NOTHING`,
+      [userId, name, new Date()]
+    );
+
+    const result = await this.executor.query(
+      'SELECT * FROM projects WHERE user_id = $1 AND LOWER(name) = LOWER($2)',
+      [userId, name]
+    );
+    return this.mapProject(result.rows[0]);
+  }
+
+  async getUserProjects(userId: string): Promise<Project[]> {
+    const result = await this.executor.query(
+      'SELECT * FROM projects WHERE user_id = $1 ORDER BY name ASC',
+      [userId]
+    );
+    return result.rows.map(row => this.mapProject(row));
+  }
+
+  async getOrCreateTags(userId: string, names: string[]): Promise<Tag[]> {
+    if (names.length === 0) return [];
+
+    await this.executor.query(
+      `INSERT INTO tags (id, user_id, name, created_at)
+       SELECT gen_random_uuid()::text, $1, name, $3 FROM UNNEST($2::varchar[]) AS name
+       ON CONFLICT (user_id, name) DO NOTHING`,
+      [userId, names, new Date()]
+    );
+
+    const result = await this.executor.query(
+      'SELECT * FROM tags WHERE user_id = $1 AND name = ANY($2) ORDER BY name ASC',
+      [userId, names]
+    );
+    return result.rows.map(row => this.mapTag(row));
+  }
+
+  async getUserTags(userId: string): Promise<Tag[]> {
+    const result = await this.executor.query(
+      'SELECT * FROM tags WHERE user_id = $1 ORDER BY name ASC',
+      [userId]
+    );
+    return result.rows.map(row => this.mapTag(row));
+  }
+
+  async setTaskTags(taskId: string, tagIds: string[]): Promise<void> {
+    await this.executor.query('DELETE FROM task_tags WHERE task_id = $1', [taskId]);
+
+    if (tagIds.length === 0) return;
+
+    await this.executor.query(
+      `INSERT INTO task_tags (task_id, tag_id)
+       SELECT $1, tag_id FROM UNNEST($2::varchar[]) AS tag_id
+       ON CONFLICT DO NOTHING`,
+      [taskId, tagIds]
+    );
+  }
+
+  async getTaskTags(taskIds: string[]): Promise<TaskTagLink[]> {
+    if (taskIds.length === 0) return [];
+
+    const result = await this.executor.query(
+      `SELECT tt.task_id, t.name
+       FROM task_tags tt
+       JOIN tags t ON t.id = tt.tag_id
+       WHERE tt.task_id = ANY($1)
+       ORDER BY t.name ASC`,
+      [taskIds]
+    );
+    return result.rows.map(row => ({ taskId: row.task_id, name: row.name }));
+  }
+
   async getPod(podId: string): Promise<Pod | undefined> {
-    const result = await this.pool.query(
+    const result = await this.executor.query(
       'SELECT * FROM pods WHERE id = $1',
       [podId]
     );
     return result.rows[0] ? this.mapPod(result.rows[0]) : undefined;
   }
 
+  async getPodForUpdate(podId: string): Promise<Pod | undefined> {
+    const result = await this.executor.query(
+      'SELECT * FROM pods WHERE id = $1 FOR UPDATE',
+      [podId]
+    );
+    return result.rows[0] ? this.mapPod(result.rows[0]) : undefined;
+  }
+
   async createPod(pod: Pod): Promise<Pod> {
-    await this.pool.query(
+    await this.executor.query(
       `INSERT INTO pods (id, invite_code, creator_id, title, duration, participants, 
        start_time, end_time, status, share_link, created_at)
        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
@@ -288,7 +458,7 @@ class PostgresDatabase {
     if (fields.length === 0) return this.getPod(podId);
 
     values.push(podId);
-    const result = await this.pool.query(
+    const result = await this.executor.query(
       `UPDATE pods SET ${fields.join(', ')} WHERE id = $${index} RETURNING *`,
       values
     );
@@ -297,7 +467,7 @@ class PostgresDatabase {
   }
 
   async getUserPods(userId: string): Promise<Pod[]> {
-    const result = await this.pool.query(
+    const result = await this.executor.query(
       `SELECT * FROM pods WHERE participants @> $1::jsonb ORDER BY created_at DESC`,
       [JSON.stringify([{userId}])]
     );
@@ -305,19 +475,19 @@ class PostgresDatabase {
   }
 
   async getActivePods(): Promise<Pod[]> {
-    const result = await this.pool.query(
+    const result = await this.executor.query(
       `SELECT * FROM pods WHERE status IN ('active', 'waiting')`
     );
     return result.rows.map(row => this.mapPod(row));
   }
 
   async getAllPods(): Promise<Pod[]> {
-    const result = await this.pool.query('SELECT * FROM pods');
+    const result = await this.executor.query('SELECT * FROM pods');
     return result.rows.map(row => this.mapPod(row));
   }
 
   async getPodByInviteCode(inviteCode: string): Promise<Pod | undefined> {
-    const result = await this.pool.query(
+    const result = await this.executor.query(
       'SELECT * FROM pods WHERE invite_code = $1',
       [inviteCode]
     );
@@ -325,20 +495,29 @@ class PostgresDatabase {
   }
 
   async getSession(sessionId: string): Promise<PomodoroSession | undefined> {
-    const result = await this.pool.query(
+    const result = await this.executor.query(
       'SELECT * FROM pomodoro_sessions WHERE id = $1',
       [sessionId]
     );
     return result.rows[0] ? this.mapSession(result.rows[0]) : undefined;
   }
 
+  async getSessionForUpdate(sessionId: string): Promise<PomodoroSession | undefined> {
+    const result = await this.executor.query(
+      'SELECT * FROM pomodoro_sessions WHERE id = $1 FOR UPDATE',
+      [sessionId]
+    );
+    return result.rows[0] ? this.mapSession(result.rows[0]) : undefined;
+  }
+
   async createSession(session: PomodoroSession): Promise<PomodoroSession> {
-    await this.pool.query(
-      `INSERT INTO pomodoro_sessions (id, user_id, duration, start_time, end_time, 
-       completed, task_action, pod_id, reward)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
-      [session.id, session.userId, session.duration, session.startTime, session.endTime,
-       session.completed, session.taskAction, session.podId, session.reward]
+    await this.executor.query(
+      `INSERT INTO pomodoro_sessions (id, user_id, kind, duration, start_time, end_time, 
+       completed, task_action, pod_id, task_id, reward, pauses, sandbox)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+      [session.id, session.userId, session.kind, session.duration, session.startTime, session.endTime,
+       session.completed, session.taskAction, session.podId, session.taskId, session.reward,
+       JSON.stringify(session.pauses || []), session.sandbox || false]
     );
     return session;
   }
@@ -353,16 +532,19 @@ class PostgresDatabase {
                        key === 'startTime' ? 'start_time' :
                        key === 'endTime' ? 'end_time' :
                        key === 'taskAction' ? 'task_action' :
-                       key === 'podId' ? 'pod_id' : key;
+                       key === 'podId' ? 'pod_id' :
+                       key === 'taskId' ? 'task_id' :
+                       key === 'statusMessageId' ? 'status_message_id' :
+                       key === 'extensionMinutes' ? 'extension_minutes' : key;
       fields.push(`${snakeKey} = $${index}`);
-      values.push(value);
+      values.push(key === 'pauses' ? JSON.stringify(value || []) : value);
       index++;
     });
 
     if (fields.length === 0) return this.getSession(sessionId);
 
     values.push(sessionId);
-    const result = await this.pool.query(
+    const result = await this.executor.query(
       `UPDATE pomodoro_sessions SET ${fields.join(', ')} WHERE id = $${index} RETURNING *`,
       values
     );
@@ -371,15 +553,22 @@ class PostgresDatabase {
   }
 
   async getUserSessions(userId: string): Promise<PomodoroSession[]> {
-    const result = await this.pool.query(
+    const result = await this.executor.query(
       'SELECT * FROM pomodoro_sessions WHERE user_id = $1 ORDER BY start_time DESC',
       [userId]
     );
     return result.rows.map(row => this.mapSession(row));
   }
 
+  async getUnfinishedSessions(): Promise<PomodoroSession[]> {
+    const result = await this.executor.query(
+      'SELECT * FROM pomodoro_sessions WHERE completed = FALSE AND end_time IS NULL'
+    );
+    return result.rows.map(row => this.mapSession(row));
+  }
+
   async getBotState(userId: string): Promise<BotState | undefined> {
-    const result = await this.pool.query(
+    const result = await this.executor.query(
       'SELECT * FROM bot_states WHERE user_id = $1',
       [userId]
     );
@@ -387,7 +576,7 @@ class PostgresDatabase {
   }
 
   async setBotState(state: BotState): Promise<BotState> {
-    await this.pool.query(
+    await this.executor.query(
       `INSERT INTO bot_states (user_id, chat_id, state, data, updated_at)
        VALUES ($1, $2, $3, $4, $5)
        ON CONFLICT (user_id) DO UPDATE SET
@@ -398,7 +587,7 @@ class PostgresDatabase {
   }
 
   async clearBotState(userId: string): Promise<boolean> {
-    const result = await this.pool.query(
+    const result = await this.executor.query(
       'DELETE FROM bot_states WHERE user_id = $1',
       [userId]
     );
@@ -406,7 +595,7 @@ class PostgresDatabase {
   }
 
   async createNotification(notification: Notification): Promise<Notification> {
-    await this.pool.query(
+    await this.executor.query(
       `INSERT INTO notifications (id, user_id, type, message, sent_at, read)
        VALUES ($1, $2, $3, $4, $5, $6)`,
       [notification.id, notification.userId, notification.type, notification.message,
@@ -416,15 +605,39 @@ class PostgresDatabase {
   }
 
   async getUserNotifications(userId: string): Promise<Notification[]> {
-    const result = await this.pool.query(
+    const result = await this.executor.query(
       'SELECT * FROM notifications WHERE user_id = $1 ORDER BY sent_at DESC',
       [userId]
     );
     return result.rows.map(row => this.mapNotification(row));
   }
 
+  async getNotificationSettings(userId: string): Promise<NotificationSettings | undefined> {
+    const result = await this.executor.query(
+      'SELECT * FROM notification_settings WHERE user_id = $1',
+      [userId]
+    );
+    return result.rows[0] ? this.mapNotificationSettings(result.rows[0]) : undefined;
+  }
+
+  async saveNotificationSettings(settings: NotificationSettings): Promise<NotificationSettings> {
+    const result = await this.executor.query(
+      `INSERT INTO notification_settings (user_id, muted, disabled_types, daily_reminder_time,
+       streak_warning_time, weekly_stats_time, quiet_hours_start, quiet_hours_end, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       ON CONFLICT (user_id) DO UPDATE SET
+       muted = $2, disabled_types = $3, daily_reminder_time = $4, streak_warning_time = $5,
+       weekly_stats_time = $6, quiet_hours_start = $7, quiet_hours_end = $8, updated_at = $9
+       RETURNING *`,
+      [settings.userId, settings.muted, settings.disabledTypes, settings.dailyReminderTime,
+       settings.streakWarningTime, settings.weeklyStatsTime, settings.quietHoursStart ?? null,
+       settings.quietHoursEnd ?? null, settings.updatedAt]
+    );
+    return this.mapNotificationSettings(result.rows[0]);
+  }
+
   async getUserStats(userId: string): Promise<UserStats | undefined> {
-    const result = await this.pool.query(
+    const result = await this.executor.query(
       'SELECT * FROM user_stats WHERE user_id = $1',
       [userId]
     );
@@ -445,7 +658,9 @@ class PostgresDatabase {
                        key === 'weekTasksCompleted' ? 'week_tasks_completed' :
                        key === 'weekFocusCoins' ? 'week_focus_coins' :
                        key === 'todayPomodoros' ? 'today_pomodoros' :
-                       key === 'todayFocusMinutes' ? 'today_focus_minutes' : key;
+                       key === 'todayFocusMinutes' ? 'today_focus_minutes' :
+                       key === 'dayKey' ? 'day_key' :
+                       key === 'weekKey' ? 'week_key' : key;
       fields.push(`${snakeKey} = $${index}`);
       values.push(value);
       index++;
@@ -454,14 +669,16 @@ class PostgresDatabase {
     values.push(userId);
     fields.push(`updated_at = CURRENT_TIMESTAMP`);
 
-    const result = await this.pool.query(
+    const result = await this.executor.query(
       `INSERT INTO user_stats (user_id, ${Object.keys(stats).filter(k => k !== 'userId').map(key => 
         key === 'weekPomodoros' ? 'week_pomodoros' :
         key === 'weekFocusMinutes' ? 'week_focus_minutes' :
         key === 'weekTasksCompleted' ? 'week_tasks_completed' :
         key === 'weekFocusCoins' ? 'week_focus_coins' :
         key === 'todayPomodoros' ? 'today_pomodoros' :
-        key === 'todayFocusMinutes' ? 'today_focus_minutes' : key
+        key === 'todayFocusMinutes' ? 'today_focus_minutes' :
+        key === 'dayKey' ? 'day_key' :
+        key === 'weekKey' ? 'week_key' : key
       ).join(', ')})
        VALUES ($${index}, ${Array.from({length: index - 1}, (_, i) => `$${i + 1}`).join(', ')})
        ON CONFLICT (user_id) DO UPDATE SET ${fields.join(', ')}
@@ -472,6 +689,89 @@ class PostgresDatabase {
     return this.mapUserStats(result.rows[0]);
   }
 
+  async incrementUserStats(userId: string, deltas: Partial<StatsCounters>): Promise<UserStats> {
+    const entries = Object.entries(deltas).filter(([key]) => key in STATS_COUNTER_COLUMNS);
+    const columns = entries.map(([key]) => STATS_COUNTER_COLUMNS[key as keyof StatsCounters]);
+    const values: any[] = [userId, ...entries.map(([, value]) => value)];
+
+    const result = await this.executor.query(
+      `INSERT INTO user_stats (user_id${columns.map(c => `, ${c}`).join('')})
+       VALUES ($1${columns.map((_, i) => `, $${i + 2}`).join('')})
+       ON CONFLICT (user_id) DO UPDATE SET
+       ${columns.map(c => `${c} = COALESCE(user_stats.${c}, 0) + EXCLUDED.${c}, `).join('')}updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      values
+    );
+
+    return this.mapUserStats(result.rows[0]);
+  }
+
+  async createCoinTransaction(transaction: CoinTransaction): Promise<CoinTransaction> {
+    await this.executor.query(
+      `INSERT INTO coin_transactions (id, user_id, amount, reason, source_type, source_id, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [transaction.id, transaction.userId, transaction.amount, transaction.reason,
+       transaction.sourceType, transaction.sourceId, transaction.createdAt]
+    );
+    return transaction;
+  }
+
+  async getUserCoinTransactions(userId: string, limit?: number): Promise<CoinTransaction[]> {
+    const result = await this.executor.query(
+      `SELECT * FROM coin_transactions WHERE user_id = $1
+       ORDER BY created_at DESC
+       ${limit !== undefined ? 'LIMIT $2' : ''}`,
+      limit !== undefined ? [userId, limit] : [userId]
+    );
+    return result.rows.map(row => this.mapCoinTransaction(row));
+  }
+
+  async getUserCoinBalance(userId: string): Promise<number> {
+    const result = await this.executor.query(
+      'SELECT COALESCE(SUM(amount), 0) AS balance FROM coin_transactions WHERE user_id = $1',
+      [userId]
+    );
+    return parseInt(result.rows[0].balance, 10);
+  }
+
+  async upsertScheduledJob(job: ScheduledJob): Promise<ScheduledJob> {
+    await this.executor.query(
+      `INSERT INTO scheduled_jobs (id, type, run_at, payload, created_at)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (id) DO UPDATE SET
+       type = $2, run_at = $3, payload = $4`,
+      [job.id, job.type, job.runAt, JSON.stringify(job.payload ?? null), job.createdAt]
+    );
+    return job;
+  }
+
+  async getScheduledJob(jobId: string): Promise<ScheduledJob | undefined> {
+    const result = await this.executor.query('SELECT * FROM scheduled_jobs WHERE id = $1', [jobId]);
+    return result.rows[0] ? this.mapScheduledJob(result.rows[0]) : undefined;
+  }
+
+  async deleteScheduledJob(jobId: string, runAt?: Date): Promise<boolean> {
+    const result = await this.executor.query(
+      'DELETE FROM scheduled_jobs WHERE id = $1 AND ($2::timestamp IS NULL OR run_at = $2)',
+      [jobId, runAt ?? null]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  async deleteScheduledJobsByPrefix(prefix: string): Promise<number> {
+    // LIKE не подходит: "_" в префиксе — спецсимвол
+    const result = await this.executor.query(
+      'DELETE FROM scheduled_jobs WHERE left(id, length($1)) = $1',
+      [prefix]
+    );
+    return result.rowCount || 0;
+  }
+
+  async getScheduledJobs(): Promise<ScheduledJob[]> {
+    const result = await this.executor.query('SELECT * FROM scheduled_jobs ORDER BY run_at ASC');
+    return result.rows.map(row => this.mapScheduledJob(row));
+  }
+
   private mapUser(row: any): User {
     return {
       id: row.id,
@@ -485,6 +785,9 @@ class PostgresDatabase {
       bestStreak: row.best_streak,
       lastActiveDate: row.last_active_date,
       achievements: row.achievements || [],
+      timezone: row.timezone,
+      recentDurations: row.recent_durations || [],
+      devMode: row.dev_mode || false,
       createdAt: new Date(row.created_at)
     };
   }
@@ -498,7 +801,31 @@ class PostgresDatabase {
       completed: row.completed,
       createdAt: new Date(row.created_at),
       completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
-      parentTaskId: row.parent_task_id
+      parentTaskId: row.parent_task_id,
+      estimate: row.estimate ?? undefined,
+      focusMinutes: row.focus_minutes || 0,
+      focusSessions: row.focus_sessions || 0,
+      recurrence: (typeof row.recurrence === 'string' ? JSON.parse(row.recurrence) : row.recurrence) || undefined,
+      priority: row.priority || 0,
+      projectId: row.project_id || undefined
+    };
+  }
+
+  private mapProject(row: any): Project {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  private mapTag(row: any): Tag {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      createdAt: new Date(row.created_at)
     };
   }
 
@@ -522,13 +849,23 @@ class PostgresDatabase {
     return {
       id: row.id,
       userId: row.user_id,
+      kind: row.kind,
       duration: row.duration,
+      extensionMinutes: row.extension_minutes || 0,
       startTime: new Date(row.start_time),
       endTime: row.end_time ? new Date(row.end_time) : undefined,
       completed: row.completed,
       taskAction: row.task_action,
       podId: row.pod_id,
-      reward: row.reward
+      taskId: row.task_id || undefined,
+      reward: row.reward,
+      pauses: (typeof row.pauses === 'string' ? JSON.parse(row.pauses) : row.pauses || [])
+        .map((pause: any) => ({
+          startedAt: new Date(pause.startedAt),
+          endedAt: pause.endedAt ? new Date(pause.endedAt) : undefined
+        })),
+      statusMessageId: row.status_message_id || undefined,
+      sandbox: row.sandbox || false
     };
   }
 
@@ -543,7 +880,7 @@ class PostgresDatabase {
   }
 
   async markNotificationRead(notificationId: string): Promise<boolean> {
-    const result = await this.pool.query(
+    const result = await this.executor.query(
       'UPDATE notifications SET read = TRUE WHERE id = $1',
       [notificationId]
     );
@@ -561,6 +898,20 @@ class PostgresDatabase {
     };
   }
 
+  private mapNotificationSettings(row: any): NotificationSettings {
+    return {
+      userId: row.user_id,
+      muted: row.muted,
+      disabledTypes: row.disabled_types || [],
+      dailyReminderTime: row.daily_reminder_time,
+      streakWarningTime: row.streak_warning_time,
+      weeklyStatsTime: row.weekly_stats_time,
+      quietHoursStart: row.quiet_hours_start || undefined,
+      quietHoursEnd: row.quiet_hours_end || undefined,
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
   private mapUserStats(row: any): UserStats {
     return {
       userId: row.user_id,
@@ -569,7 +920,31 @@ class PostgresDatabase {
       weekTasksCompleted: row.week_tasks_completed,
       weekFocusCoins: row.week_focus_coins,
       todayPomodoros: row.today_pomodoros,
-      todayFocusMinutes: row.today_focus_minutes
+      todayFocusMinutes: row.today_focus_minutes,
+      dayKey: row.day_key || undefined,
+      weekKey: row.week_key || undefined
+    };
+  }
+
+  private mapCoinTransaction(row: any): CoinTransaction {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      amount: row.amount,
+      reason: row.reason,
+      sourceType: row.source_type || undefined,
+      sourceId: row.source_id || undefined,
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  private mapScheduledJob(row: any): ScheduledJob {
+    return {
+      id: row.id,
+      type: row.type,
+      runAt: new Date(row.run_at),
+      payload: row.payload ?? undefined,
+      createdAt: new Date(row.created_at)
     };
   }
 
@@ -0,0 +1,114 @@
+import {
+  User, Task, Pod, PomodoroSession, BotState, UserStats, Notification, CoinTransaction,
+  ScheduledJob, NotificationSettings, Project, Tag
+} from '../types';
+
+/**
+ * Счётчики пользователя, которые меняются атомарным инкрементом
+ */
+export type UserCounters = Pick<User, 'focusCoins' | 'totalPomodoros' | 'totalFocusMinutes' | 'completedTasks'>;
+
+export type TaskCounters = Pick<Task, 'focusMinutes' | 'focusSessions'>;
+
+/**
+ * Тег задачи из связующей таблицы task_tags
+ */
+export interface TaskTagLink {
+  taskId: string;
+  name: string;
+}
+
+export type StatsCounters = Pick<UserStats,
+  'weekPomodoros' | 'weekFocusMinutes' | 'weekTasksCompleted' | 'weekFocusCoins' |
+  'todayPomodoros' | 'todayFocusMinutes'>;
+
+/**
+ * Контракт хранилища, общий для PostgreSQL и in-memory реализаций
+ */
+export interface Storage {
+  initialize(): Promise<void>;
+  close(): Promise<void>;
+
+  /**
+   * Выполняет fn атомарно. Внутри нужно работать через tx,
+   * вложенные вызовы tx.runInTransaction выполняются в той же транзакции.
+   */
+  runInTransaction<T>(fn: (tx: Storage) => Promise<T>): Promise<T>;
+
+  // Пользователи
+  getUser(userId: string): Promise<User | undefined>;
+  getUserForUpdate(userId: string): Promise<User | undefined>; // SELECT ... FOR UPDATE
+  getUserByMaxId(maxUserId: string): Promise<User | undefined>;
+  createUser(user: User): Promise<User>;
+  updateUser(userId: string, updates: Partial<User>): Promise<User | undefined>;
+  incrementUserCounters(userId: string, deltas: Partial<UserCounters>): Promise<User | undefined>;
+  addUserAchievement(userId: string, achievementId: string): Promise<boolean>; // false, если уже есть
+  getAllUsers(): Promise<User[]>;
+
+  // Задачи
+  getTask(taskId: string): Promise<Task | undefined>;
+  getTaskForUpdate(taskId: string): Promise<Task | undefined>; // SELECT ... FOR UPDATE
+  getUserTasks(userId: string, includeCompleted?: boolean): Promise<Task[]>;
+  createTask(task: Task): Promise<Task>;
+  updateTask(taskId: string, updates: Partial<Task>): Promise<Task | undefined>;
+  deleteTask(taskId: string): Promise<boolean>;
+  incrementTaskCounters(taskId: string, deltas: Partial<TaskCounters>): Promise<Task | undefined>;
+  getSubtasks(parentTaskId: string): Promise<Task[]>;
+  searchTasks(userId: string, query: string, limit: number): Promise<Task[]>; // по названию, с выполненными и подзадачами
+
+  // Проекты и теги задач
+  getOrCreateProject(userId: string, name: string): Promise<Project>; // имя без учёта регистра
+  getUserProjects(userId: string): Promise<Project[]>;
+  getOrCreateTags(userId: string, names: string[]): Promise<Tag[]>;
+  getUserTags(userId: string): Promise<Tag[]>;
+  setTaskTags(taskId: string, tagIds: string[]): Promise<void>; // заменяет набор тегов задачи
+  getTaskTags(taskIds: string[]): Promise<TaskTagLink[]>;
+
+  // Pod'ы
+  getPod(podId: string): Promise<Pod | undefined>;
+  getPodForUpdate(podId: string): Promise<Pod | undefined>; // SELECT ... FOR UPDATE
+  createPod(pod: Pod): Promise<Pod>;
+  updatePod(podId: string, updates: Partial<Pod>): Promise<Pod | undefined>;
+  getUserPods(userId: string): Promise<Pod[]>;
+  getActivePods(): Promise<Pod[]>;
+  getAllPods(): Promise<Pod[]>;
+  getPodByInviteCode(inviteCode: string): Promise<Pod | undefined>;
+
+  // Pomodoro сессии
+  getSession(sessionId: string): Promise<PomodoroSession | undefined>;
+  getSessionForUpdate(sessionId: string): Promise<PomodoroSession | undefined>; // SELECT ... FOR UPDATE
+  createSession(session: PomodoroSession): Promise<PomodoroSession>;
+  updateSession(sessionId: string, updates: Partial<PomodoroSession>): Promise<PomodoroSession | undefined>;
+  getUserSessions(userId: string): Promise<PomodoroSession[]>;
+  getUnfinishedSessions(): Promise<PomodoroSession[]>; // не завершены и не отменены
+
+  // Состояния диалога
+  getBotState(userId: string): Promise<BotState | undefined>;
+  setBotState(state: BotState): Promise<BotState>;
+  clearBotState(userId: string): Promise<boolean>;
+
+  // Уведомления
+  createNotification(notification: Notification): Promise<Notification>;
+  getUserNotifications(userId: string): Promise<Notification[]>;
+  markNotificationRead(notificationId: string): Promise<boolean>;
+  getNotificationSettings(userId: string): Promise<NotificationSettings | undefined>;
+  saveNotificationSettings(settings: NotificationSettings): Promise<NotificationSettings>;
+
+  // Статистика
+  getUserStats(userId: string): Promise<UserStats | undefined>;
+  updateUserStats(userId: string, stats: Partial<UserStats>): Promise<UserStats>;
+  incrementUserStats(userId: string, deltas: Partial<StatsCounters>): Promise<UserStats>;
+
+  // Журнал FocusCoins
+  createCoinTransaction(transaction: CoinTransaction): Promise<CoinTransaction>;
+  getUserCoinTransactions(userId: string, limit?: number): Promise<CoinTransaction[]>;
+  getUserCoinBalance(userId: string): Promise<number>;
+
+  // Отложенные задачи планировщика
+  upsertScheduledJob(job: ScheduledJob): Promise<ScheduledJob>;
+  getScheduledJob(jobId: string): Promise<ScheduledJob | undefined>;
+  // С runAt удаляет, только если задачу с тех пор не перепланировали
+  deleteScheduledJob(jobId: string, runAt?: Date): Promise<boolean>;
+  deleteScheduledJobsByPrefix(prefix: string): Promise<number>;
+  getScheduledJobs(): Promise<ScheduledJob[]>;
+}
@@ -14,6 +14,9 @@ export interface User {
   bestStreak: number;
   lastActiveDate: string;
   achievements: string[];
+  timezone: string; // IANA, например Europe/Moscow
+  recentDurations?: number[]; // последние свои длительности фокуса, новые первыми
+  devMode?: boolean; // режим разработчика: тестовые длительности в песочнице
   createdAt: Date;
 }
 
@@ -25,9 +28,59 @@ export interface Task {
   completed: boolean;
   createdAt: Date;
   completedAt?: Date;
-  subtasks?: Task[];
+  subtasks?: Task[]; // дерево подзадач, подставляется сервисом
+  progress?: TaskProgress; // по прямым подзадачам, подставляется сервисом
   parentTaskId?: string;
   parentTitle?: string;
+  estimate?: number; // оценка в помидорах
+  focusMinutes?: number; // минуты фокуса в привязанных сессиях
+  focusSessions?: number; // завершённые сессии фокуса по задаче
+  recurrence?: RecurrenceRule; // правило повтора, у разовых задач нет
+  priority?: TaskPriority;
+  projectId?: string;
+  projectName?: string; // подставляется сервисом по projectId
+  tags?: string[]; // имена тегов из task_tags, подставляются сервисом
+}
+
+export interface TaskProgress {
+  completed: number;
+  total: number;
+}
+
+export interface Project {
+  id: string;
+  userId: string;
+  name: string; // уникально у пользователя без учёта регистра
+  createdAt: Date;
+}
+
+export interface Tag {
+  id: string;
+  userId: string;
+  name: string; // в нижнем регистре, без "#"
+  createdAt: Date;
+}
+
+export enum TaskPriority {
+  NONE = 0,
+  LOW = 1, // "!"
+  MEDIUM = 2, // "!!", с этого уровня задача считается важной
+  HIGH = 3 // "!!!"
+}
+
+export enum RecurrenceType {
+  DAILY = 'daily',
+  WEEKDAYS = 'weekdays', // по будням
+  INTERVAL = 'interval', // каждые N дней
+  WEEKLY = 'weekly', // в выбранные дни недели
+  MONTHLY = 'monthly'
+}
+
+export interface RecurrenceRule {
+  type: RecurrenceType;
+  interval?: number; // INTERVAL: шаг в днях
+  weekdays?: number[]; // WEEKLY: 1 = понедельник, 7 = воскресенье
+  dayOfMonth?: number; // MONTHLY: в коротких месяцах — последний день
 }
 
 export interface Pod {
@@ -85,13 +138,48 @@ export interface AchievementRequirement {
 export interface PomodoroSession {
   id: string;
   userId: string;
-  duration: number; // в минутах
+  kind: SessionKind;
+  duration: number; // в минутах, исходная длительность
+  extensionMinutes?: number; // добавлено кнопками "+N мин"
   startTime: Date;
   endTime?: Date;
   completed: boolean;
   taskAction?: TaskAction;
   podId?: string;
+  taskId?: string; // задача, над которой шла сессия фокуса
   reward: number; // FocusCoins
+  pauses?: SessionPause[]; // интервалы паузы, последний может быть открыт
+  statusMessageId?: string; // сообщение с живым прогрессом длинной сессии
+  sandbox?: boolean; // тестовая сессия: не влияет на статистику, серию и монеты
+}
+
+export enum SessionKind {
+  FOCUS = 'focus',
+  SHORT_BREAK = 'short_break',
+  LONG_BREAK = 'long_break'
+}
+
+export interface SessionPause {
+  startedAt: Date;
+  endedAt?: Date;
+}
+
+export interface CoinTransaction {
+  id: string;
+  userId: string;
+  amount: number; // отрицательное значение — списание
+  reason: string;
+  sourceType?: CoinSourceType;
+  sourceId?: string; // ID сессии, задачи, достижения или Pod'а
+  createdAt: Date;
+}
+
+export enum CoinSourceType {
+  SESSION = 'session',
+  TASK = 'task',
+  ACHIEVEMENT = 'achievement',
+  POD = 'pod',
+  ADJUSTMENT = 'adjustment'
 }
 
 export interface UserStats {
@@ -102,6 +190,8 @@ export interface UserStats {
   weekFocusCoins: number;
   todayPomodoros: number;
   todayFocusMinutes: number;
+  dayKey?: string; // локальный день (YYYY-MM-DD), к которому относятся today*
+  weekKey?: string; // понедельник локальной недели, к которой относятся week*
 }
 
 export interface Notification {
@@ -120,7 +210,39 @@ export enum NotificationType {
   WEEKLY_STATS = 'weekly_stats',
   POD_INVITE = 'pod_invite',
   POD_STARTED = 'pod_started',
-  POD_COMPLETED = 'pod_completed'
+  POD_COMPLETED = 'pod_completed',
+  TASK_REMINDER = 'task_reminder',
+  SESSION_PROGRESS = 'session_progress'
+}
+
+export interface NotificationSettings {
+  userId: string;
+  muted: boolean; // глобально выключить отправку в чат
+  disabledTypes: NotificationType[];
+  dailyReminderTime: string; // ЧЧ:ММ по времени пользователя
+  streakWarningTime: string;
+  weeklyStatsTime: string; // по воскресеньям
+  quietHoursStart?: string; // ЧЧ:ММ, тихие часы могут переходить через полночь
+  quietHoursEnd?: string;
+  updatedAt: Date;
+}
+
+export interface ScheduledJob {
+  id: string; // Детерминированный ключ, например pomodoro_end:<sessionId>
+  type: ScheduledJobType;
+  runAt: Date;
+  payload?: any;
+  createdAt: Date;
+}
+
+export enum ScheduledJobType {
+  POMODORO_END = 'pomodoro_end',
+  POMODORO_RESUME = 'pomodoro_resume',
+  POMODORO_PROGRESS = 'pomodoro_progress',
+  POD_END = 'pod_end',
+  POD_EXPIRE = 'pod_expire',
+  TASK_REMINDER = 'task_reminder',
+  NOTIFICATION_DELIVERY = 'notification_delivery'
 }
 
 export interface BotState {
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseDeadline } from './deadline';
+
+// Сейчас — пятница 20.12.2024 10:00 по Москве (UTC+3), как в примерах deadline.ts
+const TIMEZONE = 'Europe/Moscow';
+const NOW = new Date('2024-12-20T07:00:00Z');
+
+/** Московское время → момент UTC */
+function moscow(day: number, month: number, hour: number, minute: number, year = 2024): Date {
+  return new Date(Date.UTC(year, month - 1, day, hour - 3, minute));
+}
+
+const CASES: [string, Date][] = [
+  ['через 30 минут', moscow(20, 12, 10, 30)],
+  ['in 30 minutes', moscow(20, 12, 10, 30)],
+  ['через 2 часа', moscow(20, 12, 12, 0)],
+  ['in 2 hours', moscow(20, 12, 12, 0)],
+  ['через 3 дня', moscow(23, 12, 10, 0)],
+  ['in 3 days', moscow(23, 12, 10, 0)],
+  ['через полчаса', moscow(20, 12, 10, 30)],
+  ['сегодня', moscow(20, 12, 23, 59)],
+  ['today', moscow(20, 12, 23, 59)],
+  ['завтра в 15:00', moscow(21, 12, 15, 0)],
+  ['tomorrow at 3pm', moscow(21, 12, 15, 0)],
+  ['послезавтра', moscow(22, 12, 23, 59)],
+  ['day after tomorrow', moscow(22, 12, 23, 59)],
+  ['в пятницу', moscow(27, 12, 23, 59)],
+  ['on friday', moscow(27, 12, 23, 59)],
+  ['к понедельнику', moscow(23, 12, 23, 59)],
+  ['by monday', moscow(23, 12, 23, 59)],
+  ['в следующую среду', moscow(25, 12, 23, 59)],
+  ['next wednesday', moscow(25, 12, 23, 59)],
+  ['this sunday', moscow(22, 12, 23, 59)],
+  ['до среды', moscow(25, 12, 23, 59)],
+  ['на следующей неделе', moscow(29, 12, 23, 59)],
+  ['next week', moscow(29, 12, 23, 59)],
+  ['до 25.12 12:00', moscow(25, 12, 12, 0)],
+  ['by 25.12 12:00', moscow(25, 12, 12, 0)],
+  ['до 05.01', moscow(5, 1, 23, 59, 2025)],
+  ['в 18:30', moscow(20, 12, 18, 30)],
+  ['at 6:30pm', moscow(20, 12, 18, 30)],
+  ['в 09:00', moscow(21, 12, 9, 0)]
+];
+
+const NO_DEADLINE = [
+  'Fix bug in 2 files',
+  'до 31.02',
+  'Обновить до версии 1.5',
+  'Read about it in general',
+  'Купить молоко',
+  'Настроить среду разработки',
+  'Fix Sunday report',
+  'Купить пятницу'
+];
+
+for (const [text, expected] of CASES) {
+  test(`parseDeadline: "${text}"`, () => {
+    const { deadline, rest } = parseDeadline(text, TIMEZONE, NOW);
+    assert.equal(deadline?.toISOString(), expected.toISOString());
+    assert.equal(rest, '');
+  });
+}
+
+for (const text of NO_DEADLINE) {
+  test(`parseDeadline: "${text}" без дедлайна`, () => {
+    assert.deepEqual(parseDeadline(text, TIMEZONE, NOW), { deadline: undefined, rest: text });
+  });
+}
+
+test('parseDeadline: фраза срока вырезается из названия', () => {
+  const { deadline, rest } = parseDeadline('Сдать отчёт завтра в 15:00 до обеда', TIMEZONE, NOW);
+  assert.equal(deadline?.toISOString(), moscow(21, 12, 15, 0).toISOString());
+  assert.equal(rest, 'Сдать отчёт до обеда');
+});
@@ -0,0 +1,264 @@
+/**
+ * Разбор дедлайна из текста задачи на русском и английском.
+ * Дата и время считаются в часовом поясе пользователя.
+ *
+ * Примеры (сейчас — пятница 20.12.2024 10:00):
+ *   "через 30 минут", "in 30 minutes"       → 20.12 10:30
+ *   "через 2 часа", "in 2 hours"             → 20.12 12:00
+ *   "через 3 дня", "in 3 days"               → 23.12 10:00
+ *   "сегодня", "today"                       → 20.12 23:59
+ *   "завтра в 15:00", "tomorrow at 3pm"      → 21.12 15:00
+ *   "послезавтра", "day after tomorrow"      → 22.12 23:59
+ *   "в пятницу", "on friday"                 → 27.12 23:59 (сегодня пятница — следующая)
+ *   "к понедельнику", "by monday"            → 23.12 23:59
+ *   "в следующую среду", "next wednesday"    → 25.12 23:59 (среда следующей недели)
+ *   "на следующей неделе", "next week"       → 29.12 23:59 (конец следующей недели)
+ *   "до 25.12 12:00", "by 25.12 12:00"       → 25.12 12:00
+ *   "до 05.01"                               → 05.01.2025 23:59 (прошедшая дата — следующий год)
+ *   "в 18:30", "at 6:30pm"                   → 20.12 18:30 (если время прошло — завтра)
+ */
+
+import { DEFAULT_TIMEZONE, getLocalTime, fromLocalTime } from './timezone';
+
+export interface ParsedDeadline {
+  deadline?: Date;
+  rest: string; // текст без распознанных фраз даты и времени
+}
+
+interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+// Границы слова для кириллицы: \b в JS работает только с латиницей
+const B = '(?<![\\p{L}\\d])';
+const E = '(?![\\p{L}\\d])';
+
+// Предлоги перед датой: "до пятницы", "к понедельнику", "by monday"
+const DATE_PREFIX = `(?:(?:до|к|ко|в|во|на|by|on|until|due)\\s+)?`;
+
+const END_OF_DAY = { hour: 23, minute: 59 };
+
+const RELATIVE_UNITS: [RegExp, number][] = [
+  [/^(?:минут[ауы]?|мин|м|minutes?|mins?|m)$/iu, 1],
+  [/^(?:час(?:а|ов)?|ч|hours?|hrs?|h)$/iu, 60],
+  [/^(?:день|дня|дней|сутки|суток|days?|d)$/iu, 24 * 60],
+  [/^(?:недел[юиь]|недель|weeks?|w)$/iu, 7 * 24 * 60]
+];
+
+const WEEKDAY_PATTERNS: [string, number][] = [
+  ['понедельник[ауе]?|monday', 1],
+  ['вторник[ауе]?|tuesday', 2],
+  ['сред[ауые]|wednesday', 3],
+  ['четверг[ауе]?|thursday', 4],
+  ['пятниц[ауые]|friday', 5],
+  ['суббот[ауые]|saturday', 6],
+  ['воскресень[еяю]|sunday', 7]
+];
+
+// Глобальный: первое "in ..." может оказаться не сроком ("in general")
+const RELATIVE = new RegExp(
+  `${B}(?:через|in)\\s+(?:(\\d{1,3}|an?|one)\\s*)?` +
+  `(полчаса|half\\s+an\\s+hour|[\\p{L}]+)${E}`, 'giu'
+);
+const DAY_AFTER_TOMORROW = new RegExp(`${B}${DATE_PREFIX}(?:послезавтра|(?:the\\s+)?day\\s+after\\s+tomorrow)${E}`, 'iu');
+const TOMORROW = new RegExp(`${B}${DATE_PREFIX}(?:завтра|tomorrow)${E}`, 'iu');
+const TODAY = new RegExp(`${B}${DATE_PREFIX}(?:сегодня|today|tonight)${E}`, 'iu');
+const NEXT_WEEK = new RegExp(`${B}(?:на\\s+следующей\\s+неделе|на\\s+будущей\\s+неделе|next\\s+week)${E}`, 'iu');
+const THIS_WEEK = new RegExp(`${B}(?:на\\s+этой\\s+неделе|до\\s+конца\\s+недели|this\\s+week|by\\s+the\\s+end\\s+of\\s+the\\s+week)${E}`, 'iu');
+// День недели — срок только с предлогом или "следующий"/"next"/"this":
+// "Настроить среду разработки" и "Fix Sunday report" — просто названия
+const WEEKDAY_PREFIX = `(?:(?:в|во|к|ко|до|on|by)\\s+)`;
+const WEEKDAY = new RegExp(
+  `${B}(?=${WEEKDAY_PREFIX}|следующ|next\\s|this\\s)${WEEKDAY_PREFIX}?` +
+  `(?:(следующ(?:ий|ую|ее|ей|его|ему)|next|this)\\s+)?` +
+  `(${WEEKDAY_PATTERNS.map(([pattern]) => pattern).join('|')})${E}`, 'iu'
+);
+// Числовая дата только с предлогом, чтобы не путать с "версия 1.5"
+const NUMERIC_DATE = new RegExp(
+  `${B}(?:до|к|ко|на|by|on|until|due)\\s+(\\d{1,2})\\.(\\d{1,2})(?:\\.(\\d{4}|\\d{2}))?${E}`, 'iu'
+);
+const TIME_24 = new RegExp(`${B}(?:(?:в|во|к|до|at|by)\\s+)?(\\d{1,2}):(\\d{2})${E}`, 'iu');
+const TIME_12 = new RegExp(`${B}(?:(?:at|by)\\s+)?(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)${E}`, 'iu');
+
+/**
+ * Ищет в тексте дедлайн. Без даты и времени возвращает deadline undefined
+ * и исходный текст.
+ */
+export function parseDeadline(
+  text: string,
+  timezone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): ParsedDeadline {
+  let rest = text;
+  const cut = (match: RegExpMatchArray): void => {
+    rest = rest.slice(0, match.index) + ' ' + rest.slice((match.index || 0) + match[0].length);
+  };
+  const result = (deadline?: Date): ParsedDeadline => ({
+    deadline,
+    rest: deadline ? rest.replace(/\s+/g, ' ').trim() : text.trim()
+  });
+
+  // "через 2 часа" — точный сдвиг от текущего момента
+  for (const relative of rest.matchAll(RELATIVE)) {
+    const minutes = getRelativeMinutes(relative[1], relative[2]);
+    if (minutes !== undefined) {
+      cut(relative);
+      return result(new Date(now.getTime() + minutes * 60 * 1000));
+    }
+  }
+
+  const local = getLocalTime(now, timezone);
+  const today: LocalDate = { year: local.year, month: local.month, day: local.day };
+
+  const date = matchDate(rest, today, local.weekday, cut);
+  const time = matchTime(rest, cut);
+
+  if (date) {
+    const { hour, minute } = time || END_OF_DAY;
+    return result(fromLocalTime(date.year, date.month, date.day, hour, minute, timezone));
+  }
+
+  if (time) {
+    // Только время: сегодня, а если оно уже прошло — завтра
+    const todayAt = fromLocalTime(today.year, today.month, today.day, time.hour, time.minute, timezone);
+    if (todayAt.getTime() > now.getTime()) return result(todayAt);
+
+    const tomorrow = addDays(today, 1);
+    return result(fromLocalTime(tomorrow.year, tomorrow.month, tomorrow.day, time.hour, time.minute, timezone));
+  }
+
+  return result();
+}
+
+function getRelativeMinutes(amount: string | undefined, unit: string): number | undefined {
+  if (/^(?:полчаса|half\s+an\s+hour)$/iu.test(unit)) {
+    return amount ? undefined : 30;
+  }
+
+  const count = !amount || /^(?:an?|one)$/i.test(amount) ? 1 : parseInt(amount, 10);
+  const entry = RELATIVE_UNITS.find(([pattern]) => pattern.test(unit));
+
+  return entry && count > 0 ? count * entry[1] : undefined;
+}
+
+function matchDate(
+  text: string,
+  today: LocalDate,
+  weekday: number,
+  cut: (match: RegExpMatchArray) => void
+): LocalDate | undefined {
+  const numeric = text.match(NUMERIC_DATE);
+  if (numeric) {
+    const day = parseInt(numeric[1], 10);
+    const month = parseInt(numeric[2], 10);
+    const year = numeric[3]
+      ? parseInt(numeric[3], 10) + (numeric[3].length === 2 ? 2000 : 0)
+      : today.year;
+
+    if (isValidDate(year, month, day)) {
+      cut(numeric);
+      const date = { year, month, day };
+      // Без года прошедшая дата означает следующий год: "до 05.01" в декабре
+      if (!numeric[3] && compareDates(date, today) < 0) {
+        return isValidDate(year + 1, month, day) ? { year: year + 1, month, day } : undefined;
+      }
+      return date;
+    }
+  }
+
+  const dayAfterTomorrow = text.match(DAY_AFTER_TOMORROW);
+  if (dayAfterTomorrow) {
+    cut(dayAfterTomorrow);
+    return addDays(today, 2);
+  }
+
+  const tomorrow = text.match(TOMORROW);
+  if (tomorrow) {
+    cut(tomorrow);
+    return addDays(today, 1);
+  }
+
+  const todayMatch = text.match(TODAY);
+  if (todayMatch) {
+    cut(todayMatch);
+    return today;
+  }
+
+  // Неделя как срок — до её воскресенья
+  const nextWeek = text.match(NEXT_WEEK);
+  if (nextWeek) {
+    cut(nextWeek);
+    return addDays(today, 7 - weekday + 7);
+  }
+
+  const thisWeek = text.match(THIS_WEEK);
+  if (thisWeek) {
+    cut(thisWeek);
+    return addDays(today, 7 - weekday);
+  }
+
+  const weekdayMatch = text.match(WEEKDAY);
+  if (weekdayMatch) {
+    const target = WEEKDAY_PATTERNS.find(([pattern]) =>
+      new RegExp(`^(?:${pattern})$`, 'iu').test(weekdayMatch[2]))?.[1];
+
+    if (target) {
+      cut(weekdayMatch);
+
+      const modifier = weekdayMatch[1]?.toLowerCase();
+      if (modifier && modifier !== 'this') {
+        // "в следующую среду" — среда следующей календарной недели
+        return addDays(today, 7 - weekday + target);
+      }
+
+      // Ближайший такой день; сегодняшний — через неделю
+      return addDays(today, (target - weekday + 7) % 7 || 7);
+    }
+  }
+
+  return undefined;
+}
+
+function matchTime(
+  text: string,
+  cut: (match: RegExpMatchArray) => void
+): { hour: number; minute: number } | undefined {
+  const time24 = text.match(TIME_24);
+  if (time24) {
+    const hour = parseInt(time24[1], 10);
+    const minute = parseInt(time24[2], 10);
+    if (hour <= 23 && minute <= 59) {
+      cut(time24);
+      return { hour, minute };
+    }
+  }
+
+  const time12 = text.match(TIME_12);
+  if (time12) {
+    const hour = parseInt(time12[1], 10);
+    const minute = time12[2] ? parseInt(time12[2], 10) : 0;
+    if (hour >= 1 && hour <= 12 && minute <= 59) {
+      cut(time12);
+      const isPm = time12[3].toLowerCase() === 'pm';
+      return { hour: (hour % 12) + (isPm ? 12 : 0), minute };
+    }
+  }
+
+  return undefined;
+}
+
+function addDays(date: LocalDate, days: number): LocalDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  if (month < 1 || month > 12 || day < 1) return false;
+  return day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function compareDates(a: LocalDate, b: LocalDate): number {
+  return (a.year - b.year) || (a.month - b.month) || (a.day - b.day);
+}
@@ -0,0 +1,71 @@
+/**
+ * Разбор длительности, введённой пользователем текстом
+ */
+
+const HOUR_UNITS = ['ч', 'час', 'часа', 'часов', 'h', 'hr', 'hrs', 'hour', 'hours'];
+const MINUTE_UNITS = ['м', 'мин', 'минута', 'минуты', 'минут', 'm', 'min', 'mins', 'minute', 'minutes'];
+
+/**
+ * Длительность в минутах из строк вида "40", "40 мин", "1ч 15м", "1:30", "2h".
+ * Возвращает undefined, если строку не удалось разобрать.
+ */
+export function parseDuration(input: string): number | undefined {
+  const text = input.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (!text) return undefined;
+
+  // Просто число — минуты
+  if (/^\d{1,4}$/.test(text)) {
+    return parseInt(text, 10);
+  }
+
+  // Часы:минуты
+  const clock = text.match(/^(\d{1,2}):(\d{2})$/);
+  if (clock) {
+    const minutes = parseInt(clock[2], 10);
+    if (minutes >= 60) return undefined;
+    return parseInt(clock[1], 10) * 60 + minutes;
+  }
+
+  // Набор "число + единица": "1ч 15м", "1 час 30 минут", "90 min"
+  const partPattern = /(\d{1,4})\s*([a-zа-яё]+)\.?/g;
+  let total = 0;
+  let seenHours = false;
+  let seenMinutes = false;
+  let consumed = '';
+
+  for (const match of text.matchAll(partPattern)) {
+    const value = parseInt(match[1], 10);
+    const unit = match[2];
+
+    if (HOUR_UNITS.includes(unit) && !seenHours && !seenMinutes) {
+      total += value * 60;
+      seenHours = true;
+    } else if (MINUTE_UNITS.includes(unit) && !seenMinutes) {
+      total += value;
+      seenMinutes = true;
+    } else {
+      return undefined;
+    }
+
+    consumed += match[0];
+  }
+
+  // Лишние символы между частями (кроме пробелов) — не длительность
+  if (!consumed || consumed.replace(/\s/g, '') !== text.replace(/\s/g, '')) {
+    return undefined;
+  }
+
+  return total;
+}
+
+/**
+ * Человекочитаемая длительность: "40 мин", "1 ч 15 мин", "2 ч"
+ */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+
+  if (hours === 0) return `${rest} мин`;
+  if (rest === 0) return `${hours} ч`;
+  return `${hours} ч ${rest} мин`;
+}
@@ -0,0 +1,279 @@
+/**
+ * Повторяющиеся задачи: разбор правила из текста и расчёт следующего вхождения.
+ * Даты считаются в часовом поясе пользователя, время дедлайна сохраняется.
+ *
+ * Примеры:
+ *   "каждый день", "ежедневно", "every day", "daily"         → DAILY
+ *   "по будням", "каждый будний день", "every weekday"        → WEEKDAYS
+ *   "каждые 3 дня", "every 3 days", "каждые 2 недели"         → INTERVAL 3 / 14
+ *   "каждый понедельник", "по пн и чт", "every monday"        → WEEKLY [1] / [1, 4]
+ *   "каждую неделю", "weekly"                                 → WEEKLY, день — по дедлайну
+ *   "каждое 15 число", "every 15th", "каждый месяц"           → MONTHLY 15 / по дедлайну
+ */
+
+import { RecurrenceRule, RecurrenceType } from '../types';
+import { getLocalTime, fromLocalTime } from './timezone';
+
+export interface ParsedRecurrence {
+  rule?: RecurrenceRule;
+  rest: string; // текст без фразы повтора
+}
+
+interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export const MAX_RECURRENCE_INTERVAL = 365;
+
+// Границы слова для кириллицы: \b в JS работает только с латиницей
+const B = '(?<![\\p{L}\\d])';
+const E = '(?![\\p{L}\\d])';
+
+// Формы дня после "каждый" и после "по"/"on" (только множественное число,
+// чтобы "on monday" оставался разовым дедлайном)
+const WEEKDAY_FORMS: [string, string, number][] = [
+  ['понедельник|monday|mon|пн', 'понедельникам|mondays|пн', 1],
+  ['вторник|tuesday|tue|вт', 'вторникам|tuesdays|вт', 2],
+  ['среду|wednesday|wed|ср', 'средам|wednesdays|ср', 3],
+  ['четверг|thursday|thu|чт', 'четвергам|thursdays|чт', 4],
+  ['пятницу|friday|fri|пт', 'пятницам|fridays|пт', 5],
+  ['субботу|saturday|sat|сб', 'субботам|saturdays|сб', 6],
+  ['воскресенье|sunday|sun|вс', 'воскресеньям|sundays|вс', 7]
+];
+
+const WEEKDAY_NAMES = ['понедельник', 'вторник', 'среду', 'четверг', 'пятницу', 'субботу', 'воскресенье'];
+const WEEKDAY_SHORT = ['пн', 'вт', 'ср', 'чт', 'пт', 'сб', 'вс'];
+
+const EVERY_DAY_FORMS = WEEKDAY_FORMS.map(([every]) => every).join('|');
+const ON_DAY_FORMS = WEEKDAY_FORMS.map(([, on]) => on).join('|');
+const dayList = (forms: string): string => `(?:${forms})(?:\\s*(?:,|и|and|&)\\s*(?:${forms}))*`;
+
+const INTERVAL = new RegExp(
+  `${B}(?:каждые|каждый|every)\\s+(\\d{1,3})\\s*` +
+  `(дн(?:я|ей)|день|недел(?:и|ь|ю)|days?|weeks?)${E}`, 'iu'
+);
+const EVERY_OTHER_DAY = new RegExp(`${B}every\\s+other\\s+day${E}`, 'iu');
+const WEEKDAYS = new RegExp(
+  `${B}(?:по\\s+будням|в\\s+будни|кажд(?:ый|ого)\\s+будн(?:ий|его)\\s+дн(?:я|ь)|(?:every|on)\\s+weekdays?)${E}`, 'iu'
+);
+const DAILY = new RegExp(`${B}(?:каждый\\s+день|ежедневно|every\\s+day|daily)${E}`, 'iu');
+const MONTHLY_DAY = new RegExp(
+  `${B}(?:каждое\\s+(\\d{1,2})(?:-?е)?\\s+числ[оа]|(\\d{1,2})(?:-?го)?\\s+числа\\s+каждого\\s+месяца|` +
+  `every\\s+(\\d{1,2})(?:st|nd|rd|th))${E}`, 'iu'
+);
+const MONTHLY = new RegExp(`${B}(?:каждый\\s+месяц|ежемесячно|every\\s+month|monthly)${E}`, 'iu');
+const EVERY_WEEKDAY = new RegExp(`${B}(?:кажд(?:ый|ую|ое)|every)\\s+(${dayList(EVERY_DAY_FORMS)})${E}`, 'iu');
+const ON_WEEKDAYS = new RegExp(`${B}(?:по|on)\\s+(${dayList(ON_DAY_FORMS)})${E}`, 'iu');
+const WEEKLY = new RegExp(`${B}(?:каждую\\s+неделю|еженедельно|every\\s+week|weekly)${E}`, 'iu');
+
+/**
+ * Ищет в тексте правило повтора. У WEEKLY без дней и MONTHLY без числа
+ * день берётся из первого дедлайна, см. completeRecurrence.
+ */
+export function parseRecurrence(text: string): ParsedRecurrence {
+  const found = (match: RegExpMatchArray, rule: RecurrenceRule): ParsedRecurrence => ({
+    rule,
+    rest: (text.slice(0, match.index) + ' ' + text.slice((match.index || 0) + match[0].length))
+      .replace(/\s+/g, ' ')
+      .trim()
+  });
+
+  const interval = text.match(INTERVAL);
+  if (interval) {
+    const count = parseInt(interval[1], 10);
+    const days = /^(?:недел|week)/iu.test(interval[2]) ? count * 7 : count;
+    if (days === 1) return found(interval, { type: RecurrenceType.DAILY });
+    if (days > 1 && days <= MAX_RECURRENCE_INTERVAL) {
+      return found(interval, { type: RecurrenceType.INTERVAL, interval: days });
+    }
+  }
+
+  const everyOtherDay = text.match(EVERY_OTHER_DAY);
+  if (everyOtherDay) return found(everyOtherDay, { type: RecurrenceType.INTERVAL, interval: 2 });
+
+  const weekdays = text.match(WEEKDAYS);
+  if (weekdays) return found(weekdays, { type: RecurrenceType.WEEKDAYS });
+
+  const daily = text.match(DAILY);
+  if (daily) return found(daily, { type: RecurrenceType.DAILY });
+
+  const monthlyDay = text.match(MONTHLY_DAY);
+  if (monthlyDay) {
+    const day = parseInt(monthlyDay[1] || monthlyDay[2] || monthlyDay[3], 10);
+    if (day >= 1 && day <= 31) {
+      return found(monthlyDay, { type: RecurrenceType.MONTHLY, dayOfMonth: day });
+    }
+  }
+
+  const monthly = text.match(MONTHLY);
+  if (monthly) return found(monthly, { type: RecurrenceType.MONTHLY });
+
+  for (const [pattern, formIndex] of [[EVERY_WEEKDAY, 0], [ON_WEEKDAYS, 1]] as const) {
+    const match = text.match(pattern);
+    if (!match) continue;
+
+    const days = parseWeekdayList(match[1], formIndex);
+    if (days.length > 0) return found(match, { type: RecurrenceType.WEEKLY, weekdays: days });
+  }
+
+  const weekly = text.match(WEEKLY);
+  if (weekly) return found(weekly, { type: RecurrenceType.WEEKLY });
+
+  return { rest: text.trim() };
+}
+
+/**
+ * Дополняет правило днём из дедлайна ("каждую неделю" — в тот же день недели,
+ * "каждый месяц" — в то же число) и сдвигает дедлайн на ближайший подходящий день
+ */
+export function completeRecurrence(
+  rule: RecurrenceRule,
+  deadline: Date,
+  timezone: string
+): { rule: RecurrenceRule; deadline: Date } {
+  const local = getLocalTime(deadline, timezone);
+  const date: LocalDate = { year: local.year, month: local.month, day: local.day };
+
+  const completed: RecurrenceRule = { ...rule };
+  if (rule.type === RecurrenceType.WEEKLY && !rule.weekdays?.length) {
+    completed.weekdays = [local.weekday];
+  }
+  if (rule.type === RecurrenceType.MONTHLY && !rule.dayOfMonth) {
+    completed.dayOfMonth = local.day;
+  }
+
+  const aligned = matchesDay(completed, date) ? date : nextDay(completed, date);
+  return {
+    rule: completed,
+    deadline: fromLocalTime(aligned.year, aligned.month, aligned.day, local.hour, local.minute, timezone)
+  };
+}
+
+/**
+ * Дедлайн следующего вхождения: ближайший по правилу после текущего дедлайна
+ * и позже now — просроченная серия не порождает задачи в прошлом
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  deadline: Date,
+  timezone: string,
+  now: Date = new Date()
+): Date {
+  const local = getLocalTime(deadline, timezone);
+  let date: LocalDate = { year: local.year, month: local.month, day: local.day };
+  let next: Date;
+
+  do {
+    date = nextDay(rule, date);
+    next = fromLocalTime(date.year, date.month, date.day, local.hour, local.minute, timezone);
+  } while (next.getTime() <= now.getTime());
+
+  return next;
+}
+
+/**
+ * Правило словами: "каждый понедельник", "по пн, ср и пт", "каждые 3 дня"
+ */
+export function formatRecurrence(rule: RecurrenceRule): string {
+  switch (rule.type) {
+    case RecurrenceType.DAILY:
+      return 'каждый день';
+    case RecurrenceType.WEEKDAYS:
+      return 'по будням';
+    case RecurrenceType.INTERVAL: {
+      const days = rule.interval || 1;
+      if (days % 7 === 0) {
+        const weeks = days / 7;
+        return weeks === 1 ? 'каждую неделю' : `каждые ${weeks} ${pluralize(weeks, 'неделю', 'недели', 'недель')}`;
+      }
+      return `каждые ${days} ${pluralize(days, 'день', 'дня', 'дней')}`;
+    }
+    case RecurrenceType.WEEKLY: {
+      const days = [...(rule.weekdays || [])].sort((a, b) => a - b);
+      if (days.length === 0) return 'каждую неделю';
+      if (days.length === 1) {
+        const day = days[0];
+        const every = day === 7 ? 'каждое' : [3, 5, 6].includes(day) ? 'каждую' : 'каждый';
+        return `${every} ${WEEKDAY_NAMES[day - 1]}`;
+      }
+      const names = days.map(day => WEEKDAY_SHORT[day - 1]);
+      return `по ${names.slice(0, -1).join(', ')} и ${names[names.length - 1]}`;
+    }
+    case RecurrenceType.MONTHLY:
+      return rule.dayOfMonth ? `каждое ${rule.dayOfMonth}-е число` : 'каждый месяц';
+  }
+}
+
+function parseWeekdayList(list: string, formIndex: 0 | 1): number[] {
+  const days = new Set<number>();
+  const forms = formIndex === 0 ? EVERY_DAY_FORMS : ON_DAY_FORMS;
+
+  for (const [token] of list.matchAll(new RegExp(`${B}(?:${forms})${E}`, 'giu'))) {
+    const entry = WEEKDAY_FORMS.find(forms => new RegExp(`^(?:${forms[formIndex]})$`, 'iu').test(token));
+    if (entry) days.add(entry[2]);
+  }
+
+  return Array.from(days).sort((a, b) => a - b);
+}
+
+function matchesDay(rule: RecurrenceRule, date: LocalDate): boolean {
+  switch (rule.type) {
+    case RecurrenceType.WEEKDAYS:
+      return getWeekday(date) <= 5;
+    case RecurrenceType.WEEKLY:
+      return (rule.weekdays || []).includes(getWeekday(date));
+    case RecurrenceType.MONTHLY:
+      return date.day === getMonthDay(date.year, date.month, rule.dayOfMonth || date.day).day;
+    default:
+      return true;
+  }
+}
+
+function nextDay(rule: RecurrenceRule, date: LocalDate): LocalDate {
+  if (rule.type === RecurrenceType.INTERVAL) {
+    return addDays(date, rule.interval || 1);
+  }
+
+  if (rule.type === RecurrenceType.MONTHLY) {
+    const dayOfMonth = rule.dayOfMonth || date.day;
+    const thisMonth = getMonthDay(date.year, date.month, dayOfMonth);
+    return thisMonth.day > date.day ? thisMonth : getMonthDay(date.year, date.month + 1, dayOfMonth);
+  }
+
+  // Ежедневно и по дням недели: первый подходящий день, максимум через неделю
+  let next = addDays(date, 1);
+  for (let i = 0; i < 7 && !matchesDay(rule, next); i++) {
+    next = addDays(next, 1);
+  }
+  return next;
+}
+
+// Число месяца с поправкой на короткие месяцы: 31 февраля — последний день февраля
+function getMonthDay(year: number, month: number, dayOfMonth: number): LocalDate {
+  const first = new Date(Date.UTC(year, month - 1, 1));
+  const daysInMonth = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+  return {
+    year: first.getUTCFullYear(),
+    month: first.getUTCMonth() + 1,
+    day: Math.min(dayOfMonth, daysInMonth)
+  };
+}
+
+function getWeekday(date: LocalDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay() || 7;
+}
+
+function addDays(date: LocalDate, days: number): LocalDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+function pluralize(count: number, one: string, few: string, many: string): string {
+  const mod10 = count % 10;
+  const mod100 = count % 100;
+  if (mod10 === 1 && mod100 !== 11) return one;
+  if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return few;
+  return many;
+}
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getLocalTime, isValidTimezone, parseTimezone } from './timezone';
+
+const PARSED: [string, string][] = [
+  ['Asia/Omsk', 'Asia/Omsk'],
+  ['asia/omsk', 'Asia/Omsk'],
+  ['UTC', 'UTC'],
+  ['gmt', 'UTC'],
+  ['UTC+5', 'Etc/GMT-5'],
+  ['+5', 'Etc/GMT-5'],
+  ['-3', 'Etc/GMT+3'],
+  ['GMT + 0', 'UTC'],
+  ['UTC+14', 'Etc/GMT-14'],
+  ['UTC-12', 'Etc/GMT+12'],
+  ['МСК+2', 'Etc/GMT-5'],
+  ['мск-3', 'UTC'],
+  ['МСК-5', 'Etc/GMT+2']
+];
+
+const INVALID = ['UTC+15', 'UTC-13', '-14', 'МСК+12', 'Moscow', 'Mars/Olympus', '', 'UTC+5:30'];
+
+for (const [input, expected] of PARSED) {
+  test(`parseTimezone: "${input}"`, () => {
+    const timezone = parseTimezone(input);
+    assert.equal(timezone, expected);
+    assert.ok(isValidTimezone(expected));
+  });
+}
+
+for (const input of INVALID) {
+  test(`parseTimezone: "${input}" не разбирается`, () => {
+    assert.equal(parseTimezone(input), undefined);
+  });
+}
+
+test('getLocalTime: время и день недели в поясе пользователя', () => {
+  // Пятница 20.12.2024 22:30 UTC
+  const date = new Date('2024-12-20T22:30:00Z');
+
+  assert.deepEqual(getLocalTime(date, 'Europe/Moscow'),
+    { year: 2024, month: 12, day: 21, hour: 1, minute: 30, weekday: 6 });
+  assert.deepEqual(getLocalTime(date, 'America/New_York'),
+    { year: 2024, month: 12, day: 20, hour: 17, minute: 30, weekday: 5 });
+  assert.deepEqual(getLocalTime(date, parseTimezone('МСК+2')!),
+    { year: 2024, month: 12, day: 21, hour: 3, minute: 30, weekday: 6 });
+});
+
+test('getLocalTime: полночь — час 0, а не 24', () => {
+  assert.equal(getLocalTime(new Date('2024-12-31T21:00:00Z'), 'Europe/Moscow').hour, 0);
+});
@@ -0,0 +1,227 @@
+/**
+ * Работа с часовыми поясами пользователей (IANA, например Europe/Moscow).
+ * Границы дня и недели считаются в поясе пользователя, а не сервера.
+ */
+
+export const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || 'Europe/Moscow';
+
+export interface LocalTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 1 = понедельник, 7 = воскресенье
+}
+
+const WEEKDAYS: Record<string, number> = {
+  Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6, Sun: 7
+};
+
+// МСК — UTC+3 круглый год
+const MOSCOW_OFFSET = 3;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+      hourCycle: 'h23'
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Проверяет, что строка — известный Intl часовой пояс
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Приводит ввод пользователя к IANA-поясу: "Asia/Omsk", "UTC+5", "+5", "-3",
+ * "МСК+2" (смещение от Москвы, то есть UTC+5).
+ * Возвращает undefined, если разобрать не удалось.
+ */
+export function parseTimezone(input: string): string | undefined {
+  const value = input.trim();
+
+  const offsetMatch = value.match(/^(utc|gmt|мск)?\s*([+-])\s*(\d{1,2})$/i);
+  if (offsetMatch) {
+    const hours = parseInt(offsetMatch[3], 10);
+    const base = offsetMatch[1]?.toLowerCase() === 'мск' ? MOSCOW_OFFSET : 0;
+    const offset = base + (offsetMatch[2] === '+' ? hours : -hours);
+    // Etc/GMT есть только от UTC-12 до UTC+14
+    if (offset < -12 || offset > 14) return undefined;
+    if (offset === 0) return 'UTC';
+    // В Etc/GMT знак инвертирован: UTC+5 — это Etc/GMT-5
+    return `Etc/GMT${offset > 0 ? '-' : '+'}${Math.abs(offset)}`;
+  }
+
+  if (/^(utc|gmt)$/i.test(value)) return 'UTC';
+
+  if (!value.includes('/') || !isValidTimezone(value)) return undefined;
+
+  // Нормализуем регистр: asia/omsk -> Asia/Omsk
+  return new Intl.DateTimeFormat('en-US', { timeZone: value }).resolvedOptions().timeZone;
+}
+
+/**
+ * Локальные дата и время в поясе пользователя
+ */
+export function getLocalTime(date: Date, timezone: string): LocalTime {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+    weekday: WEEKDAYS[parts.weekday]
+  };
+}
+
+/**
+ * Ключ локального дня вида YYYY-MM-DD
+ */
+export function getDateKey(date: Date, timezone: string): string {
+  const local = getLocalTime(date, timezone);
+  return formatDateKey(local.year, local.month, local.day);
+}
+
+/**
+ * Сдвигает ключ дня на days дней (календарно, без учёта пояса)
+ */
+export function shiftDateKey(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return formatDateKey(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate());
+}
+
+/**
+ * Ключ локальной недели — дата её понедельника
+ */
+export function getWeekKey(date: Date, timezone: string): string {
+  const local = getLocalTime(date, timezone);
+  return shiftDateKey(formatDateKey(local.year, local.month, local.day), 1 - local.weekday);
+}
+
+/**
+ * Время ЧЧ:ММ в поясе пользователя
+ */
+export function formatLocalTime(date: Date, timezone: string): string {
+  return date.toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit', timeZone: timezone });
+}
+
+/**
+ * Дата и время в поясе пользователя: "25.12 15:00"
+ */
+export function formatLocalDateTime(date: Date, timezone: string): string {
+  const local = getLocalTime(date, timezone);
+  return `${local.day}.${local.month.toString().padStart(2, '0')} ` +
+    `${local.hour}:${local.minute.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Смещение пояса относительно UTC для отображения, например "UTC+3"
+ */
+export function formatUtcOffset(timezone: string, date: Date = new Date()): string {
+  const offsetMinutes = getOffsetMinutes(date, timezone);
+
+  const sign = offsetMinutes >= 0 ? '+' : '-';
+  const hours = Math.floor(Math.abs(offsetMinutes) / 60);
+  const minutes = Math.abs(offsetMinutes) % 60;
+
+  return `UTC${sign}${hours}${minutes ? `:${minutes.toString().padStart(2, '0')}` : ''}`;
+}
+
+/**
+ * Разбирает время суток "ЧЧ:ММ" (допускается "9:00") в минуты от полуночи
+ */
+export function parseTimeOfDay(value: string): number | undefined {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return undefined;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) return undefined;
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Минуты от полуночи обратно в "ЧЧ:ММ"
+ */
+export function formatTimeOfDay(minutesOfDay: number): string {
+  const hours = Math.floor(minutesOfDay / 60);
+  const minutes = minutesOfDay % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Сколько минут от полуночи прошло по местному времени
+ */
+export function getLocalMinutesOfDay(date: Date, timezone: string): number {
+  const local = getLocalTime(date, timezone);
+  return local.hour * 60 + local.minute;
+}
+
+/**
+ * Ближайший момент, когда у пользователя будет minutesOfDay по местному времени
+ */
+export function getNextLocalTime(date: Date, timezone: string, minutesOfDay: number): Date {
+  const current = getLocalMinutesOfDay(date, timezone);
+  const delta = (minutesOfDay - current + 1440) % 1440 || 1440;
+  const startOfMinute = Math.floor(date.getTime() / 60000) * 60000;
+  return new Date(startOfMinute + delta * 60 * 1000);
+}
+
+/**
+ * Момент, когда у пользователя наступают указанные местные дата и время.
+ * month — 1-12; день и месяц вне диапазона переносятся календарно, как в Date.UTC.
+ */
+export function fromLocalTime(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timezone: string
+): Date {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = getOffsetMinutes(new Date(asUtc), timezone);
+  const result = asUtc - offset * 60000;
+
+  // Рядом с переходом на летнее время смещение в целевой момент может отличаться
+  const actualOffset = getOffsetMinutes(new Date(result), timezone);
+  return new Date(actualOffset === offset ? result : asUtc - actualOffset * 60000);
+}
+
+function getOffsetMinutes(date: Date, timezone: string): number {
+  const local = getLocalTime(date, timezone);
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  return Math.round((asUtc - Math.floor(date.getTime() / 60000) * 60000) / 60000);
+}
+
+function formatDateKey(year: number, month: number, day: number): string {
+  return `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+}